@@ -0,0 +1,113 @@
+import type {
+  CompositeMethod,
+  CompositePricePayload,
+  VenueQuote,
+} from "@bit-auto/shared";
+import { cached, type CachePolicy } from "./cache";
+import { listExchanges } from "./exchanges";
+import { CACHE_TTL_MS } from "./market";
+import type { SymbolInfo } from "./symbols";
+
+// Quotes further than this from the cross-venue median are dropped from the composite.
+const OUTLIER_THRESHOLD = 0.02;
+const COMPOSITE_POLICY: CachePolicy = { ttlMs: CACHE_TTL_MS };
+
+export type {
+  CompositeMethod,
+  CompositePricePayload,
+  VenueQuote,
+} from "@bit-auto/shared";
+
+export function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function volumeWeighted(quotes: VenueQuote[]) {
+  let weighted = 0;
+  let volume = 0;
+  for (const q of quotes) {
+    if (q.price === null || !q.volume24h) continue;
+    weighted += q.price * q.volume24h;
+    volume += q.volume24h;
+  }
+  return volume > 0 ? weighted / volume : median(quotes.map((q) => q.price!));
+}
+
+async function collectQuotes(info: SymbolInfo): Promise<VenueQuote[]> {
+  const adapters = listExchanges();
+  const results = await Promise.allSettled(adapters.map((a) => a.fetchSpot(info)));
+
+  return results.map((result, i): VenueQuote => {
+    const adapter = adapters[i];
+    if (result.status === "rejected") {
+      return {
+        venue: adapter.id,
+        quote: adapter.quote,
+        price: null,
+        volume24h: null,
+        deviation: null,
+        included: false,
+        excludedReason: "error",
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        ts: null,
+      };
+    }
+    // KRW venues carry the kimchi premium, so they are reported but never averaged in.
+    const usable = adapter.quote !== "KRW";
+    return {
+      venue: adapter.id,
+      quote: adapter.quote,
+      price: result.value.price,
+      volume24h: result.value.volume24h,
+      deviation: null,
+      included: usable,
+      excludedReason: usable ? undefined : "quote_currency",
+      ts: result.value.ts,
+    };
+  });
+}
+
+export function buildComposite(quotes: VenueQuote[], method: CompositeMethod) {
+  const candidates = quotes.filter((q) => q.included && q.price !== null);
+  if (candidates.length === 0) {
+    throw new Error("No venue returned a usable price");
+  }
+
+  const mid = median(candidates.map((q) => q.price!));
+  for (const q of candidates) {
+    q.deviation = q.price! / mid - 1;
+    if (candidates.length > 2 && Math.abs(q.deviation) > OUTLIER_THRESHOLD) {
+      q.included = false;
+      q.excludedReason = "outlier";
+    }
+  }
+
+  const kept = candidates.filter((q) => q.included);
+  return method === "vwap" ? volumeWeighted(kept) : median(kept.map((q) => q.price!));
+}
+
+async function loadComposite(info: SymbolInfo, method: CompositeMethod) {
+  const venues = await collectQuotes(info);
+  const price = buildComposite(venues, method);
+  return {
+    symbol: info.symbol,
+    currency: "USDT" as const,
+    price,
+    method,
+    source: "composite" as const,
+    venues,
+    fetchedAt: Date.now(),
+  };
+}
+
+export async function fetchCompositePrice(
+  info: SymbolInfo,
+  method: CompositeMethod,
+): Promise<CompositePricePayload> {
+  const result = await cached(`composite:${info.symbol}:${method}`, COMPOSITE_POLICY, () =>
+    loadComposite(info, method),
+  );
+  return { ...result.value, cached: result.cached, stale: result.stale };
+}
@@ -0,0 +1,283 @@
+import { randomUUID } from "node:crypto";
+import {
+  AlertConditionSchema,
+  AlertInputSchema,
+  AlertMetricSchema,
+  AlertPatchSchema,
+  type AlertCondition,
+  type AlertMetric,
+  type AlertTrigger,
+  type UserAlert,
+} from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import type { z } from "zod";
+import { onMarketUpdate, type MarketUpdate } from "./market";
+import { readJsonFile, writeJsonFile } from "./storage";
+import { resolveSymbol } from "./symbols";
+
+const ALERTS_FILE = "alerts.json";
+const TRIGGER_LOG_LIMIT = 200;
+
+export const ALERT_METRICS = AlertMetricSchema.options;
+
+export const ALERT_CONDITIONS = AlertConditionSchema.options;
+
+export type { AlertCondition, AlertMetric, AlertTrigger, UserAlert } from "@bit-auto/shared";
+
+class AlertValidationError extends Error {}
+
+let alerts: UserAlert[] = [];
+let loaded: Promise<void> | null = null;
+const lastValues = new Map<string, number>();
+const triggers: AlertTrigger[] = [];
+let log: FastifyInstance["log"] | null = null;
+
+function ensureLoaded() {
+  loaded ??= readJsonFile<UserAlert[]>(ALERTS_FILE, []).then((stored) => {
+    alerts = stored;
+  });
+  return loaded;
+}
+
+function persist() {
+  return writeJsonFile(ALERTS_FILE, alerts).catch((error) =>
+    log?.error(error, "failed to persist alerts"),
+  );
+}
+
+function invalid(message: string): never {
+  throw new AlertValidationError(message);
+}
+
+function check<T extends z.ZodTypeAny>(schema: T, value: unknown): z.output<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    invalid(`${issue.path.join(".") || "body"}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+// A PATCH is checked on its own first, then merged and checked again as a full alert.
+function validate(body: unknown, existing?: UserAlert): Omit<UserAlert, "id"> {
+  const now = Date.now();
+  const input = check(
+    AlertInputSchema,
+    existing ? { ...existing, ...check(AlertPatchSchema, body) } : body,
+  );
+
+  const info = resolveSymbol(input.symbol);
+  if (!info) invalid("symbol is unknown");
+
+  return {
+    owner: input.owner || null,
+    symbol: info.symbol,
+    metric: input.metric,
+    condition: input.condition,
+    threshold: input.threshold,
+    mode: input.mode,
+    cooldownMinutes: input.cooldownMinutes,
+    expiresAt: input.expiresAt,
+    note: input.note || null,
+    status: input.status,
+    triggerCount: existing?.triggerCount ?? 0,
+    lastTriggeredAt: existing?.lastTriggeredAt ?? null,
+    lastTriggerValue: existing?.lastTriggerValue ?? null,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+function valuesFrom(update: MarketUpdate): Partial<Record<AlertMetric, number>> {
+  switch (update.kind) {
+    case "price":
+      return { price: update.data.price };
+    case "risk":
+      return { fundingRate: update.data.fundingRate, openInterest: update.data.openInterest };
+    case "premium":
+      return {
+        kimchiPremium: update.data.kimchiPremium ?? undefined,
+        coinbasePremium: update.data.coinbasePremium ?? undefined,
+      };
+  }
+}
+
+function holds(condition: AlertCondition, value: number, threshold: number) {
+  return condition === "above" || condition === "crossesAbove"
+    ? value >= threshold
+    : value <= threshold;
+}
+
+function shouldFire(alert: UserAlert, value: number, prev: number | undefined) {
+  const now = holds(alert.condition, value, alert.threshold);
+  if (!now) return false;
+
+  const crossing = alert.condition === "crossesAbove" || alert.condition === "crossesBelow";
+  if (crossing) {
+    return prev !== undefined && !holds(alert.condition, prev, alert.threshold);
+  }
+  // Level conditions fire on entry; a one-shot alert created while already past the line fires at once.
+  return alert.mode === "once" || prev === undefined || !holds(alert.condition, prev, alert.threshold);
+}
+
+function expireDue(now: number) {
+  let changed = false;
+  for (const alert of alerts) {
+    if (alert.status === "active" && alert.expiresAt !== null && alert.expiresAt <= now) {
+      alert.status = "expired";
+      alert.updatedAt = now;
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+export function evaluateAlerts(update: MarketUpdate, now = Date.now()) {
+  const values = valuesFrom(update);
+  let changed = expireDue(now);
+
+  for (const alert of alerts) {
+    if (alert.symbol !== update.symbol) continue;
+    const value = values[alert.metric];
+    if (value === undefined) continue;
+
+    const prev = lastValues.get(alert.id);
+    lastValues.set(alert.id, value);
+    if (alert.status !== "active") continue;
+
+    const coolingDown =
+      alert.lastTriggeredAt !== null &&
+      now - alert.lastTriggeredAt < alert.cooldownMinutes * 60_000;
+    if (coolingDown || !shouldFire(alert, value, prev)) continue;
+
+    alert.triggerCount += 1;
+    alert.lastTriggeredAt = now;
+    alert.lastTriggerValue = value;
+    alert.updatedAt = now;
+    if (alert.mode === "once") alert.status = "triggered";
+    changed = true;
+
+    triggers.push({
+      alertId: alert.id,
+      owner: alert.owner,
+      symbol: alert.symbol,
+      metric: alert.metric,
+      condition: alert.condition,
+      threshold: alert.threshold,
+      value,
+      note: alert.note,
+      ts: now,
+    });
+    if (triggers.length > TRIGGER_LOG_LIMIT) triggers.shift();
+    log?.info({ alertId: alert.id, value }, "user alert triggered");
+  }
+
+  if (changed) void persist();
+}
+
+type AlertParams = { id: string };
+type AlertListQuery = { owner?: string; symbol?: string; status?: string };
+
+export function registerAlertRoutes(app: FastifyInstance) {
+  log = app.log;
+
+  ensureLoaded().catch((error) => app.log.error(error, "failed to load alerts"));
+  onMarketUpdate((update) => {
+    ensureLoaded()
+      .then(() => evaluateAlerts(update))
+      .catch((error) => app.log.error(error, "failed to evaluate alerts"));
+  });
+
+  app.get<{ Querystring: AlertListQuery }>("/api/alerts", async (request) => {
+    await ensureLoaded();
+    if (expireDue(Date.now())) void persist();
+    const { owner, symbol, status } = request.query;
+    return {
+      alerts: alerts.filter(
+        (a) =>
+          (!owner || a.owner === owner) &&
+          (!symbol || a.symbol === resolveSymbol(symbol)?.symbol) &&
+          (!status || a.status === status),
+      ),
+    };
+  });
+
+  app.get<{ Querystring: { owner?: string } }>("/api/alerts/triggers", async (request) => {
+    const { owner } = request.query;
+    return {
+      triggers: triggers.filter((t) => !owner || t.owner === owner).reverse(),
+    };
+  });
+
+  app.get<{ Params: AlertParams }>("/api/alerts/:id", async (request, reply) => {
+    await ensureLoaded();
+    const alert = alerts.find((a) => a.id === request.params.id);
+    if (!alert) {
+      reply.code(404);
+      return { error: "not_found" };
+    }
+    return alert;
+  });
+
+  // Alert config is one of the admin-only routes; listing alerts and triggers stays a read.
+  app.post<{ Body: unknown }>(
+    "/api/alerts",
+    { config: { scope: "admin" } },
+    async (request, reply) => {
+      await ensureLoaded();
+      try {
+        const alert: UserAlert = { id: randomUUID(), ...validate(request.body ?? {}) };
+        alerts.push(alert);
+        await persist();
+        reply.code(201);
+        return alert;
+      } catch (error) {
+        if (!(error instanceof AlertValidationError)) throw error;
+        reply.code(400);
+        return { error: "invalid_alert", detail: error.message };
+      }
+    },
+  );
+
+  app.patch<{ Params: AlertParams; Body: unknown }>(
+    "/api/alerts/:id",
+    { config: { scope: "admin" } },
+    async (request, reply) => {
+      await ensureLoaded();
+      const index = alerts.findIndex((a) => a.id === request.params.id);
+      if (index < 0) {
+        reply.code(404);
+        return { error: "not_found" };
+      }
+      try {
+        const existing = alerts[index];
+        alerts[index] = { id: existing.id, ...validate(request.body ?? {}, existing) };
+        lastValues.delete(existing.id);
+        await persist();
+        return alerts[index];
+      } catch (error) {
+        if (!(error instanceof AlertValidationError)) throw error;
+        reply.code(400);
+        return { error: "invalid_alert", detail: error.message };
+      }
+    },
+  );
+
+  app.delete<{ Params: AlertParams }>(
+    "/api/alerts/:id",
+    { config: { scope: "admin" } },
+    async (request, reply) => {
+      await ensureLoaded();
+      const index = alerts.findIndex((a) => a.id === request.params.id);
+      if (index < 0) {
+        reply.code(404);
+        return { error: "not_found" };
+      }
+      alerts.splice(index, 1);
+      lastValues.delete(request.params.id);
+      await persist();
+      reply.code(204);
+      return null;
+    },
+  );
+}
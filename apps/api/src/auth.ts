@@ -0,0 +1,349 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import {
+  ApiKeyInputSchema,
+  AuthModeSchema,
+  type ApiKey,
+  type ApiKeyUsage,
+  type ApiScope,
+  type RateLimit,
+  type UsageResponse,
+} from "@bit-auto/shared";
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { counter } from "./metrics";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+const KEYS_FILE = "api-keys.json";
+const USAGE_FILE = "api-usage.json";
+const USAGE_FLUSH_MS = 30_000;
+const BUCKET_IDLE_MS = 10 * 60_000;
+const KEY_PREFIX = "bak_";
+const ANONYMOUS_ID = "anonymous";
+const ENV_ADMIN_ID = "env-admin";
+
+const parsedMode = AuthModeSchema.safeParse(process.env.API_AUTH || "optional");
+export const AUTH_MODE = parsedMode.success ? parsedMode.data : "optional";
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || "";
+const KEY_RATE_LIMIT: RateLimit = {
+  capacity: Number(process.env.API_RATE_CAPACITY || 120),
+  refillPerSecond: Number(process.env.API_RATE_REFILL_PER_SEC || 10),
+};
+const ANON_RATE_LIMIT: RateLimit = {
+  capacity: Number(process.env.ANON_RATE_CAPACITY || 90),
+  refillPerSecond: Number(process.env.ANON_RATE_REFILL_PER_SEC || 3),
+};
+
+export type {
+  ApiKey,
+  ApiKeyCreated,
+  ApiKeyUsage,
+  ApiScope,
+  AuthMode,
+  RateLimit,
+  UsageResponse,
+} from "@bit-auto/shared";
+
+declare module "fastify" {
+  interface FastifyContextConfig {
+    // Scope a route needs; routes without one need `read`.
+    scope?: ApiScope;
+  }
+}
+
+type StoredKey = ApiKey & { hash: string };
+
+type UsageCounters = {
+  requests: number;
+  day: string;
+  today: number;
+  rateLimited: number;
+  quotaExceeded: number;
+  lastUsedAt: number | null;
+  routes: Record<string, number>;
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+class ApiKeyValidationError extends Error {}
+
+let keys: StoredKey[] = [];
+let loaded: Promise<void> | null = null;
+let usage: Record<string, UsageCounters> = {};
+let usageDirty = false;
+const buckets = new Map<string, Bucket>();
+const rejections = counter("auth_rejections_total", "Requests refused by auth or rate limiting.");
+let log: FastifyInstance["log"] | null = null;
+
+// Synthetic entry so the bootstrap key gets the same limits and usage tracking as stored ones.
+const envAdminKey: StoredKey | null = ADMIN_API_KEY
+  ? {
+      id: ENV_ADMIN_ID,
+      name: "ADMIN_API_KEY",
+      prefix: ADMIN_API_KEY.slice(0, 8),
+      scope: "admin",
+      rateLimit: null,
+      dailyQuota: null,
+      createdAt: 0,
+      hash: hashKey(ADMIN_API_KEY),
+    }
+  : null;
+
+function hashKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function ensureLoaded() {
+  loaded ??= Promise.all([
+    readJsonFile<StoredKey[]>(KEYS_FILE, []),
+    readJsonFile<Record<string, UsageCounters>>(USAGE_FILE, {}),
+  ]).then(([storedKeys, storedUsage]) => {
+    keys = storedKeys;
+    usage = storedUsage;
+  });
+  return loaded;
+}
+
+function persistKeys() {
+  return writeJsonFile(KEYS_FILE, keys).catch((error) =>
+    log?.error(error, "failed to persist api keys"),
+  );
+}
+
+function flushUsage() {
+  if (!usageDirty) return;
+  usageDirty = false;
+  void writeJsonFile(USAGE_FILE, usage).catch((error) =>
+    log?.error(error, "failed to persist api usage"),
+  );
+}
+
+function utcDay(ts: number) {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+function countersFor(id: string, now: number) {
+  const day = utcDay(now);
+  let entry = usage[id];
+  if (!entry) {
+    entry = {
+      requests: 0,
+      day,
+      today: 0,
+      rateLimited: 0,
+      quotaExceeded: 0,
+      lastUsedAt: null,
+      routes: {},
+    };
+    usage[id] = entry;
+  }
+  if (entry.day !== day) {
+    entry.day = day;
+    entry.today = 0;
+  }
+  return entry;
+}
+
+function findKey(presented: string) {
+  const hash = hashKey(presented);
+  if (envAdminKey?.hash === hash) return envAdminKey;
+  return keys.find((key) => key.hash === hash) ?? null;
+}
+
+// EventSource can't send headers, so GET requests may also pass `?apiKey=`.
+function presentedKey(request: FastifyRequest) {
+  const header = request.headers["x-api-key"];
+  if (typeof header === "string" && header) return header;
+  const auth = request.headers.authorization;
+  if (auth?.startsWith("Bearer ")) return auth.slice(7).trim();
+  const query = request.query as { apiKey?: unknown } | undefined;
+  if (request.method === "GET" && typeof query?.apiKey === "string") return query.apiKey;
+  return null;
+}
+
+// Token bucket: refills continuously up to `capacity`. Returns seconds until the next token when
+// the bucket is empty, 0 when the request may proceed.
+function take(id: string, limit: RateLimit, now: number) {
+  const bucket = buckets.get(id) ?? { tokens: limit.capacity, updatedAt: now };
+  bucket.tokens = Math.min(
+    limit.capacity,
+    bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.refillPerSecond,
+  );
+  bucket.updatedAt = now;
+  buckets.set(id, bucket);
+
+  if (bucket.tokens < 1) return (1 - bucket.tokens) / limit.refillPerSecond;
+  bucket.tokens -= 1;
+  return 0;
+}
+
+function pruneBuckets(now: number) {
+  for (const [id, bucket] of buckets) {
+    if (now - bucket.updatedAt > BUCKET_IDLE_MS) buckets.delete(id);
+  }
+}
+
+function reject(reply: FastifyReply, status: number, error: string) {
+  rejections.inc({ reason: error });
+  reply.code(status).send({ error });
+  return reply;
+}
+
+async function authenticate(request: FastifyRequest, reply: FastifyReply) {
+  // CORS preflights carry no credentials.
+  if (AUTH_MODE === "off" || request.method === "OPTIONS") return;
+  await ensureLoaded();
+
+  const scope = request.routeOptions.config?.scope ?? "read";
+  // Anonymous callers only ever read: anything that changes state needs a key unless auth is off.
+  const writes = request.method !== "GET" && request.method !== "HEAD";
+  const presented = presentedKey(request);
+  const key = presented ? findKey(presented) : null;
+  if (presented && !key) return reject(reply, 401, "invalid_api_key");
+  if (!key && (AUTH_MODE === "required" || scope === "admin" || writes)) {
+    return reject(reply, 401, "api_key_required");
+  }
+  if (scope === "admin" && key?.scope !== "admin") return reject(reply, 403, "forbidden");
+
+  const now = Date.now();
+  const counters = countersFor(key?.id ?? ANONYMOUS_ID, now);
+  usageDirty = true;
+  if (key?.dailyQuota && counters.today >= key.dailyQuota) {
+    counters.quotaExceeded += 1;
+    return reject(reply, 429, "quota_exceeded");
+  }
+
+  // Anonymous callers share the usage entry but each IP gets its own bucket.
+  const limit = key ? (key.rateLimit ?? KEY_RATE_LIMIT) : ANON_RATE_LIMIT;
+  const bucketId = key ? key.id : `ip:${request.ip}`;
+  const retryAfter = take(bucketId, limit, now);
+  reply.header("X-RateLimit-Limit", limit.capacity);
+  reply.header("X-RateLimit-Remaining", Math.floor(buckets.get(bucketId)?.tokens ?? 0));
+  if (retryAfter > 0) {
+    counters.rateLimited += 1;
+    reply.header("Retry-After", Math.ceil(retryAfter));
+    return reject(reply, 429, "rate_limited");
+  }
+
+  const route = request.routeOptions.url ?? "unmatched";
+  counters.requests += 1;
+  counters.today += 1;
+  counters.lastUsedAt = now;
+  counters.routes[route] = (counters.routes[route] ?? 0) + 1;
+}
+
+function publicKey({ hash: _hash, ...key }: StoredKey): ApiKey {
+  return key;
+}
+
+async function createApiKey(body: unknown) {
+  const result = ApiKeyInputSchema.safeParse(body);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ApiKeyValidationError(`${issue.path.join(".") || "body"}: ${issue.message}`);
+  }
+
+  await ensureLoaded();
+  const key = KEY_PREFIX + randomBytes(24).toString("base64url");
+  const stored: StoredKey = {
+    id: randomUUID(),
+    ...result.data,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    createdAt: Date.now(),
+    hash: hashKey(key),
+  };
+  keys.push(stored);
+  await persistKeys();
+  return { key, apiKey: publicKey(stored) };
+}
+
+async function usageReport(now = Date.now()): Promise<UsageResponse> {
+  await ensureLoaded();
+  const entries: { id: string; name: string; scope: ApiScope; dailyQuota: number | null }[] = [
+    { id: ANONYMOUS_ID, name: "anonymous", scope: "read", dailyQuota: null },
+    ...(envAdminKey ? [envAdminKey] : []),
+    ...keys,
+  ];
+
+  return {
+    mode: AUTH_MODE,
+    day: utcDay(now),
+    usage: entries.map(({ id, name, scope, dailyQuota }): ApiKeyUsage => {
+      const { day: _day, ...counters } = countersFor(id, now);
+      return { id, name, scope, dailyQuota, ...counters };
+    }),
+    ts: now,
+  };
+}
+
+export function redactApiKey(url: string) {
+  return url.replace(/([?&]apiKey=)[^&]*/g, "$1[redacted]");
+}
+
+// Comma-separated `CORS_ORIGINS`; unset or `*` reflects any origin.
+export function corsOrigin(): string[] | true {
+  const origins = (process.env.CORS_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  return origins.length && !origins.includes("*") ? origins : true;
+}
+
+// Register before other routes so the hook guards every one of them.
+export function registerAuthRoutes(app: FastifyInstance) {
+  log = app.log;
+  app.log.info(`api auth mode: ${AUTH_MODE}${envAdminKey ? " (ADMIN_API_KEY set)" : ""}`);
+
+  app.addHook("onRequest", authenticate);
+
+  const timer = setInterval(() => {
+    flushUsage();
+    pruneBuckets(Date.now());
+  }, USAGE_FLUSH_MS);
+  timer.unref();
+  app.addHook("onClose", async () => {
+    clearInterval(timer);
+    flushUsage();
+  });
+
+  app.get("/api/admin/keys", { config: { scope: "admin" } }, async () => {
+    await ensureLoaded();
+    return { keys: keys.map(publicKey) };
+  });
+
+  app.post<{ Body: unknown }>(
+    "/api/admin/keys",
+    { config: { scope: "admin" } },
+    async (request, reply) => {
+      try {
+        const created = await createApiKey(request.body);
+        reply.code(201);
+        return created;
+      } catch (error) {
+        if (!(error instanceof ApiKeyValidationError)) throw error;
+        reply.code(400);
+        return { error: "invalid_api_key_input", detail: error.message };
+      }
+    },
+  );
+
+  app.delete<{ Params: { id: string } }>(
+    "/api/admin/keys/:id",
+    { config: { scope: "admin" } },
+    async (request, reply) => {
+      await ensureLoaded();
+      const index = keys.findIndex((key) => key.id === request.params.id);
+      if (index === -1) {
+        reply.code(404);
+        return { error: "not_found" };
+      }
+      keys.splice(index, 1);
+      buckets.delete(request.params.id);
+      delete usage[request.params.id];
+      usageDirty = true;
+      await persistKeys();
+      reply.code(204);
+      return null;
+    },
+  );
+
+  app.get("/api/admin/usage", { config: { scope: "admin" } }, async () => usageReport());
+}
@@ -0,0 +1,131 @@
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import YAML from "yaml";
+import {
+  BacktestInputError,
+  runBacktest,
+  type BacktestResult,
+  type ForwardStats,
+} from "./backtest";
+import { parseTime } from "./history";
+import { loadRiskRules, RISK_RULES_PATH } from "./risk-rules";
+
+const USAGE = `Usage: pnpm backtest [--file data.csv|data.json] [options]
+
+  --file, -f     CSV/JSON price, funding and OI history (default: recorded history)
+  --symbol, -s   Symbol whose rule overrides apply (default: BTC)
+  --rules        Rule config (JSON/YAML) to try instead of ${RISK_RULES_PATH}
+  --step         Evaluation step in minutes (default: 5)
+  --horizons     Forward-return horizons in minutes, comma separated (default: 60,240,1440)
+  --move         Move threshold for hit / false-positive rates (default: 0.02)
+  --from, --to   Range for recorded history (ms, seconds or ISO date)
+  --json         Print the full result as JSON`;
+
+function pct(n: number | null) {
+  return n === null ? "-" : `${(n * 100).toFixed(2)}%`;
+}
+
+function iso(ts: number) {
+  return new Date(ts).toISOString();
+}
+
+function forwardLine(label: string, stats: ForwardStats[]) {
+  const cells = stats.map(
+    (s) =>
+      `${s.horizonMinutes}m n=${s.count} mean=${pct(s.meanReturn)} med=${pct(s.medianReturn)} ` +
+      `hit=${pct(s.hitRate)}` +
+      (s.falsePositiveRate === null ? "" : ` fp=${pct(s.falsePositiveRate)}`),
+  );
+  return [`  ${label}`, ...cells.map((c) => `    ${c}`)].join("\n");
+}
+
+function report(result: BacktestResult) {
+  const lines = [
+    `${result.symbol} ${iso(result.from)} .. ${iso(result.to)}`,
+    `step ${result.stepMinutes}m, ${result.evaluations} evaluations, ${result.skipped} skipped`,
+    "",
+    "levels",
+    ...result.levels.map(
+      (l) =>
+        `  ${l.level.padEnd(6)} ${pct(l.share).padStart(8)}  ` +
+        `${l.evaluations} steps, ${l.onsets} onsets`,
+    ),
+    "rules",
+    ...result.rules.map(
+      (r) => `  ${r.id.padEnd(24)} fired ${pct(r.fireRate).padStart(8)}  no_data ${r.noData}`,
+    ),
+    `forward returns (move >= ${pct(result.moveThreshold)})`,
+    forwardLine("baseline", result.forward.baseline),
+    forwardLine("WARN onsets", result.forward.WARN),
+    forwardLine("DANGER onsets", result.forward.DANGER),
+    "signals",
+    ...(result.signals.length
+      ? result.signals.map((s) =>
+          forwardLine(`${s.type} (${s.direction}, ${s.onsets} onsets)`, s.forward),
+        )
+      : ["  none"]),
+  ];
+  console.log(lines.join("\n"));
+}
+
+async function readRules(file: string) {
+  const raw = await readFile(file, "utf8");
+  return /\.ya?ml$/i.test(file) ? YAML.parse(raw) : JSON.parse(raw);
+}
+
+function number(input: string | undefined) {
+  return input === undefined ? undefined : Number(input);
+}
+
+async function main() {
+  // `pnpm backtest -- --file x` forwards the separator as well.
+  const args = process.argv.slice(2);
+  const { values } = parseArgs({
+    args: args[0] === "--" ? args.slice(1) : args,
+    options: {
+      file: { type: "string", short: "f" },
+      symbol: { type: "string", short: "s" },
+      rules: { type: "string" },
+      step: { type: "string" },
+      horizons: { type: "string" },
+      move: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (!values.rules) {
+    await loadRiskRules().catch((error) => {
+      console.error(`${error instanceof Error ? error.message : error}; using default rules`);
+    });
+  }
+
+  const result = await runBacktest({
+    symbol: values.symbol,
+    data: values.file ? await readFile(values.file, "utf8") : undefined,
+    rules: values.rules ? await readRules(values.rules) : undefined,
+    stepMinutes: number(values.step),
+    horizonsMinutes: values.horizons?.split(",").map(Number),
+    moveThreshold: number(values.move),
+    from: values.from ? parseTime(values.from, NaN) : undefined,
+    to: values.to ? parseTime(values.to, NaN) : undefined,
+  });
+
+  if (values.json) console.log(JSON.stringify(result, null, 2));
+  else report(result);
+}
+
+main().catch((error) => {
+  if (error instanceof BacktestInputError) {
+    console.error(`backtest: ${error.message}\n\n${USAGE}`);
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 1;
+});
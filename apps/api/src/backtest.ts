@@ -0,0 +1,438 @@
+import {
+  BacktestDataSchema,
+  BacktestRequestSchema,
+  type BacktestData,
+  type BacktestLevelStats,
+  type BacktestResult,
+  type BacktestSignalStats,
+  type ForwardStats,
+  type ResolvedRuleSet,
+  type RiskLevel,
+  type SignalDirection,
+  type SignalType,
+} from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import { median } from "./aggregate";
+import {
+  HISTORY_METRICS,
+  parseTime,
+  readHistory,
+  type HistoryMetric,
+  type HistoryPoint,
+} from "./history";
+import {
+  evaluateSeriesRisk,
+  parseRiskConfig,
+  resolveRuleSet,
+  ruleSetFor,
+  sampleAt,
+} from "./risk-rules";
+import { addSample, createSignalSeries, detectSignals, type SignalSeries } from "./signals";
+import { resolveSymbol } from "./symbols";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_MS = 7 * DAY_MS;
+// About a year at 5-minute steps.
+const MAX_STEPS = 110_000;
+const BODY_LIMIT = 8 * 1024 * 1024;
+// The replay hands the event loop back this often so a long run doesn't stall other requests.
+const YIELD_EVERY_STEPS = 2000;
+// Settled funding only changes once per interval, so carry it forward that long.
+const FUNDING_MAX_AGE_MS = 8 * 60 * 60 * 1000;
+const LEVEL_RANK: Record<RiskLevel, number> = { OK: 0, WARN: 1, DANGER: 2 };
+
+export type {
+  BacktestRequest,
+  BacktestResult,
+  ForwardStats,
+} from "@bit-auto/shared";
+
+export type BacktestSeries = Record<HistoryMetric, HistoryPoint[]>;
+
+const TIME_COLUMNS = new Set(["t", "ts", "time", "timestamp", "date"]);
+// Lower-cased column name -> history metric.
+const COLUMN_METRICS: Record<string, HistoryMetric> = {
+  price: "price",
+  close: "price",
+  funding: "funding",
+  fundingrate: "funding",
+  openinterest: "openInterest",
+  oi: "openInterest",
+  kimchipremium: "kimchiPremium",
+  coinbasepremium: "coinbasePremium",
+};
+
+const SIGNAL_METRICS: Record<keyof SignalSeries, HistoryMetric> = {
+  price: "price",
+  fundingRate: "funding",
+  openInterest: "openInterest",
+  kimchiPremium: "kimchiPremium",
+  coinbasePremium: "coinbasePremium",
+};
+
+export class BacktestInputError extends Error {}
+
+function invalid(message: string): never {
+  throw new BacktestInputError(message);
+}
+
+function emptySeries(): BacktestSeries {
+  return { price: [], funding: [], openInterest: [], kimchiPremium: [], coinbasePremium: [] };
+}
+
+function sorted(series: BacktestSeries) {
+  for (const metric of HISTORY_METRICS) series[metric].sort((a, b) => a.t - b.t);
+  return series;
+}
+
+function rowsToSeries(rows: Record<string, unknown>[]): BacktestSeries {
+  const series = emptySeries();
+  rows.forEach((row, index) => {
+    const timeKey = Object.keys(row).find((key) => TIME_COLUMNS.has(key.toLowerCase()));
+    const raw = timeKey === undefined ? undefined : row[timeKey];
+    const t = parseTime(raw === undefined || raw === null ? undefined : String(raw), NaN);
+    if (!Number.isFinite(t)) invalid(`row ${index + 1}: missing or invalid timestamp`);
+
+    for (const [key, value] of Object.entries(row)) {
+      const metric = COLUMN_METRICS[key.toLowerCase()];
+      if (!metric || value === null || value === "") continue;
+      const v = typeof value === "number" ? value : Number(value);
+      if (!Number.isFinite(v)) invalid(`row ${index + 1}: ${key} is not a number`);
+      series[metric].push({ t, v });
+    }
+  });
+  return sorted(series);
+}
+
+// Header row plus one row per timestamp; empty cells are skipped. No quoting, the data is numeric.
+export function parseCsv(text: string): BacktestSeries {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length < 2) invalid("CSV needs a header and at least one row");
+
+  const header = lines[0].split(",").map((cell) => cell.trim());
+  const rows = lines.slice(1).map((line) => {
+    const cells = line.split(",");
+    return Object.fromEntries(header.map((key, i) => [key, cells[i]?.trim() ?? ""]));
+  });
+  return rowsToSeries(rows);
+}
+
+export function parseBacktestData(data: BacktestData): BacktestSeries {
+  if (typeof data === "string") {
+    const text = data.trim();
+    if (!text.startsWith("[") && !text.startsWith("{")) return parseCsv(text);
+    const json = BacktestDataSchema.safeParse(JSON.parse(text));
+    if (!json.success || typeof json.data === "string") {
+      invalid("JSON data must be an array of rows or { metric: [{ t, v }] }");
+    }
+    return parseBacktestData(json.data);
+  }
+  if (Array.isArray(data)) return rowsToSeries(data);
+
+  const series = emptySeries();
+  for (const [key, points] of Object.entries(data)) {
+    const metric = HISTORY_METRICS.find((m) => m === key) ?? COLUMN_METRICS[key.toLowerCase()];
+    if (!metric) invalid(`unknown series "${key}"`);
+    series[metric].push(...points);
+  }
+  return sorted(series);
+}
+
+async function loadRecorded(symbol: string, from: number, to: number) {
+  const series = emptySeries();
+  for (const metric of HISTORY_METRICS) {
+    series[metric] = await readHistory(symbol, metric, from, to);
+  }
+  return series;
+}
+
+type Outcome = { ret: number; hit: boolean };
+
+function yieldToEventLoop() {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+// Return at the end of the horizon and whether the max excursion along the way reached the
+// move threshold. Null when either end has no price.
+function outcomeAt(
+  prices: (number | null)[],
+  i: number,
+  steps: number,
+  threshold: number,
+): Outcome | null {
+  const start = prices[i];
+  const end = prices[i + steps];
+  if (start === null || end === null || end === undefined) return null;
+
+  let excursion = 0;
+  for (let j = i + 1; j <= i + steps; j++) {
+    const p = prices[j];
+    if (p !== null) excursion = Math.max(excursion, Math.abs(p / start - 1));
+  }
+  return { ret: end / start - 1, hit: excursion >= threshold };
+}
+
+function forwardStats(
+  indices: number[],
+  prices: (number | null)[],
+  horizons: { minutes: number; steps: number }[],
+  threshold: number,
+  baseline = false,
+): ForwardStats[] {
+  return horizons.map(({ minutes, steps }) => {
+    const outcomes = indices
+      .map((i) => outcomeAt(prices, i, steps, threshold))
+      .filter((o): o is Outcome => o !== null);
+    const count = outcomes.length;
+    const hitRate = count ? outcomes.filter((o) => o.hit).length / count : null;
+    return {
+      horizonMinutes: minutes,
+      count,
+      meanReturn: count ? outcomes.reduce((sum, o) => sum + o.ret, 0) / count : null,
+      medianReturn: count ? median(outcomes.map((o) => o.ret)) : null,
+      hitRate,
+      falsePositiveRate: baseline || hitRate === null ? null : 1 - hitRate,
+    };
+  });
+}
+
+type ReplayOptions = {
+  symbol: string;
+  ruleSet: ResolvedRuleSet;
+  stepMinutes: number;
+  horizonsMinutes: number[];
+  moveThreshold: number;
+};
+
+// Steps through the series on a fixed grid, scoring every step with the rule engine and the
+// signal detectors exactly as the live path would see the data at that moment.
+export async function replay(
+  series: BacktestSeries,
+  options: ReplayOptions,
+): Promise<BacktestResult> {
+  const { funding, openInterest, price } = series;
+  if (!funding.length || !openInterest.length) {
+    invalid("funding and openInterest series are required");
+  }
+  if (!price.length) invalid("a price series is required for forward returns");
+
+  const stepMs = options.stepMinutes * 60_000;
+  // Imported data may be coarser than the live 5-minute freshness window.
+  const maxAgeMs = Math.max(stepMs, 5 * 60_000);
+  const from = Math.max(funding[0].t, openInterest[0].t);
+  const to = Math.max(...HISTORY_METRICS.map((m) => series[m][series[m].length - 1]?.t ?? 0));
+  const steps = Math.floor((to - from) / stepMs) + 1;
+  if (steps > MAX_STEPS) invalid(`range needs ${steps} steps, raise stepMinutes`);
+
+  const levels: (RiskLevel | null)[] = [];
+  const prices: (number | null)[] = [];
+  const ruleCounts = new Map(options.ruleSet.rules.map((r) => [r.id, { fired: 0, noData: 0 }]));
+  const levelOnsets: Record<RiskLevel, number[]> = { OK: [], WARN: [], DANGER: [] };
+  const signalOnsets = new Map<SignalType, { direction: SignalDirection; indices: number[] }>();
+
+  const signalSeries = createSignalSeries();
+  const signalMetrics = Object.entries(SIGNAL_METRICS) as [keyof SignalSeries, HistoryMetric][];
+  const cursors = new Map<keyof SignalSeries, number>();
+  let previousSignals = new Set<SignalType>();
+  let previousLevel: RiskLevel = "OK";
+  let skipped = 0;
+
+  for (let i = 0; i < steps; i++) {
+    if (i > 0 && i % YIELD_EVERY_STEPS === 0) await yieldToEventLoop();
+    const t = from + i * stepMs;
+    prices.push(sampleAt(price, t, maxAgeMs) ?? null);
+
+    for (const [key, metric] of signalMetrics) {
+      let cursor = cursors.get(key) ?? 0;
+      for (; cursor < series[metric].length && series[metric][cursor].t <= t; cursor++) {
+        addSample(signalSeries[key], series[metric][cursor].t, series[metric][cursor].v);
+      }
+      cursors.set(key, cursor);
+    }
+    const current = new Set<SignalType>();
+    for (const candidate of detectSignals(signalSeries, t)) {
+      current.add(candidate.type);
+      if (previousSignals.has(candidate.type)) continue;
+      const entry = signalOnsets.get(candidate.type) ?? {
+        direction: candidate.direction,
+        indices: [],
+      };
+      entry.indices.push(i);
+      signalOnsets.set(candidate.type, entry);
+    }
+    previousSignals = current;
+
+    const fundingRate = sampleAt(funding, t, Math.max(maxAgeMs, FUNDING_MAX_AGE_MS));
+    const oi = sampleAt(openInterest, t, maxAgeMs);
+    if (fundingRate === undefined || oi === undefined) {
+      levels.push(null);
+      skipped++;
+      continue;
+    }
+
+    const evaluation = evaluateSeriesRisk(
+      options.ruleSet,
+      (metric) => series[metric],
+      t,
+      fundingRate,
+      oi,
+      maxAgeMs,
+    );
+    levels.push(evaluation.level);
+    for (const rule of evaluation.rules) {
+      const counts = ruleCounts.get(rule.id);
+      if (!counts) continue;
+      if (rule.fired) counts.fired++;
+      if (rule.skipped === "no_data") counts.noData++;
+    }
+    if (LEVEL_RANK[evaluation.level] > LEVEL_RANK[previousLevel]) {
+      levelOnsets[evaluation.level].push(i);
+    }
+    previousLevel = evaluation.level;
+  }
+
+  const evaluations = steps - skipped;
+  const horizons = options.horizonsMinutes.map((minutes) => ({
+    minutes,
+    steps: Math.max(1, Math.round((minutes * 60_000) / stepMs)),
+  }));
+  const stats = (indices: number[], baseline = false) =>
+    forwardStats(indices, prices, horizons, options.moveThreshold, baseline);
+
+  const levelStats = (["OK", "WARN", "DANGER"] as const).map((level): BacktestLevelStats => {
+    const count = levels.filter((l) => l === level).length;
+    return {
+      level,
+      evaluations: count,
+      share: evaluations ? count / evaluations : 0,
+      onsets: levelOnsets[level].length,
+    };
+  });
+
+  const signals = [...signalOnsets].map(
+    ([type, { direction, indices }]): BacktestSignalStats => ({
+      type,
+      direction,
+      onsets: indices.length,
+      forward: stats(indices),
+    }),
+  );
+
+  return {
+    symbol: options.symbol,
+    from,
+    to,
+    stepMinutes: options.stepMinutes,
+    horizonsMinutes: options.horizonsMinutes,
+    moveThreshold: options.moveThreshold,
+    samples: Object.fromEntries(HISTORY_METRICS.map((m) => [m, series[m].length])),
+    evaluations,
+    skipped,
+    ruleSet: options.ruleSet,
+    levels: levelStats,
+    rules: options.ruleSet.rules.map((rule) => {
+      const counts = ruleCounts.get(rule.id) ?? { fired: 0, noData: 0 };
+      return { id: rule.id, ...counts, fireRate: evaluations ? counts.fired / evaluations : 0 };
+    }),
+    forward: {
+      baseline: stats(levels.flatMap((level, i) => (level === null ? [] : [i])), true),
+      WARN: stats(levelOnsets.WARN),
+      DANGER: stats(levelOnsets.DANGER),
+    },
+    signals,
+    ts: Date.now(),
+  };
+}
+
+// Shared by the HTTP route and the CLI. Throws BacktestInputError for bad input and
+// unknown symbols.
+export async function runBacktest(input: unknown): Promise<BacktestResult> {
+  const parsed = BacktestRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    invalid(`${issue.path.join(".") || "body"}: ${issue.message}`);
+  }
+  const request = parsed.data;
+
+  const info = resolveSymbol(request.symbol);
+  if (!info) invalid(`unknown symbol "${request.symbol}"`);
+
+  let ruleSet = ruleSetFor(info.symbol);
+  if (request.rules) {
+    try {
+      ruleSet = resolveRuleSet(parseRiskConfig(request.rules), info.symbol);
+    } catch (error) {
+      invalid(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  let series: BacktestSeries;
+  if (request.data !== undefined) {
+    try {
+      series = parseBacktestData(request.data);
+    } catch (error) {
+      if (error instanceof BacktestInputError) throw error;
+      invalid(`could not parse data: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else {
+    const to = request.to ?? Date.now();
+    const from = request.from ?? to - DEFAULT_RANGE_MS;
+    if (!(from < to)) invalid("from must be before to");
+    series = await loadRecorded(info.symbol, from, to);
+  }
+
+  return replay(series, {
+    symbol: info.symbol,
+    ruleSet,
+    stepMinutes: request.stepMinutes,
+    horizonsMinutes: request.horizonsMinutes,
+    moveThreshold: request.moveThreshold,
+  });
+}
+
+type BacktestQuery = {
+  symbol?: string;
+  step?: string;
+  horizons?: string;
+  move?: string;
+};
+
+function numberParam(input: string | undefined) {
+  return input === undefined ? undefined : Number(input);
+}
+
+export function registerBacktestRoutes(app: FastifyInstance) {
+  app.addContentTypeParser(
+    "text/csv",
+    { parseAs: "string", bodyLimit: BODY_LIMIT },
+    (_request, body, done) => done(null, body),
+  );
+
+  // JSON body with BacktestRequest fields, or a raw CSV upload with options in the query string.
+  // Large uploads and long replays are expensive, so only admin keys may run them.
+  app.post<{ Body: unknown; Querystring: BacktestQuery }>(
+    "/api/backtest",
+    { bodyLimit: BODY_LIMIT, config: { scope: "admin" } },
+    async (request, reply) => {
+      const { query } = request;
+      const input =
+        typeof request.body === "string"
+          ? {
+              symbol: query.symbol,
+              data: request.body,
+              stepMinutes: numberParam(query.step),
+              horizonsMinutes: query.horizons?.split(",").map(Number),
+              moveThreshold: numberParam(query.move),
+            }
+          : request.body;
+
+      try {
+        return await runBacktest(input);
+      } catch (error) {
+        if (!(error instanceof BacktestInputError)) throw error;
+        reply.code(400);
+        return { error: "invalid_backtest", detail: error.message };
+      }
+    },
+  );
+}
@@ -0,0 +1,305 @@
+import { randomUUID } from "node:crypto";
+import type { FastifyBaseLogger } from "fastify";
+import Redis from "ioredis";
+import { counter } from "./metrics";
+
+const CACHE_BACKEND = process.env.CACHE_BACKEND === "redis" ? "redis" : "memory";
+const REDIS_URL = process.env.REDIS_URL || "redis://127.0.0.1:6379";
+const CACHE_PREFIX = process.env.CACHE_PREFIX || "bit-auto:";
+// Long enough for the slowest upstream call plus retries; a crashed holder frees the lock after this.
+const LOCK_TTL_MS = 10_000;
+const LOCK_WAIT_MS = 3000;
+const LOCK_POLL_MS = 100;
+// Default for how long an expired value may stand in when a refresh fails.
+export const DEFAULT_STALE_IF_ERROR_MS = Number(
+  process.env.CACHE_STALE_IF_ERROR_MS || 60 * 60_000,
+);
+
+export type CacheRecord<T> = { value: T; fetchedAt: number };
+
+export type CacheStore = {
+  readonly backend: "memory" | "redis";
+  get<T>(key: string): Promise<CacheRecord<T> | null>;
+  // `retainMs` is how long the store keeps the record, which covers every stale window.
+  set<T>(key: string, record: CacheRecord<T>, retainMs: number): Promise<void>;
+  // Resolves to a release token, or null while another holder has the lock.
+  lock(key: string, ttlMs: number): Promise<string | null>;
+  unlock(key: string, token: string): Promise<void>;
+  close(): Promise<void>;
+};
+
+export type CachePolicy = {
+  ttlMs: number;
+  // After `ttlMs`, the old value is served as-is while one caller refreshes it in the background.
+  staleWhileRevalidateMs?: number;
+  // After that, a failed refresh falls back to the old value for this long (flagged `stale`).
+  staleIfErrorMs?: number;
+};
+
+export type CacheResult<T> = CacheRecord<T> & {
+  cached: boolean;
+  stale: boolean;
+  // Why the refresh failed when `stale` is set.
+  error: string | null;
+};
+
+function createMemoryStore(): CacheStore {
+  const records = new Map<string, { record: CacheRecord<unknown>; expiresAt: number }>();
+  const locks = new Map<string, { token: string; expiresAt: number }>();
+
+  return {
+    backend: "memory",
+    async get<T>(key: string) {
+      const entry = records.get(key);
+      if (!entry) return null;
+      if (Date.now() >= entry.expiresAt) {
+        records.delete(key);
+        return null;
+      }
+      return entry.record as CacheRecord<T>;
+    },
+    async set(key, record, retainMs) {
+      records.set(key, { record, expiresAt: Date.now() + retainMs });
+    },
+    async lock(key, ttlMs) {
+      const held = locks.get(key);
+      if (held && Date.now() < held.expiresAt) return null;
+      const token = randomUUID();
+      locks.set(key, { token, expiresAt: Date.now() + ttlMs });
+      return token;
+    },
+    async unlock(key, token) {
+      if (locks.get(key)?.token === token) locks.delete(key);
+    },
+    async close() {
+      records.clear();
+      locks.clear();
+    },
+  };
+}
+
+// Deletes the lock only if it still holds our token, so an expired-and-retaken lock is left alone.
+const UNLOCK_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+
+function createRedisStore(url: string, prefix = CACHE_PREFIX): CacheStore {
+  // Fail commands while disconnected instead of queueing them, so an outage degrades to cache misses.
+  const redis = new Redis(url, { enableOfflineQueue: false, maxRetriesPerRequest: 1 });
+  redis.on("error", (error) => log?.warn(error, "redis cache error"));
+
+  return {
+    backend: "redis",
+    async get<T>(key: string) {
+      const raw = await redis.get(prefix + key);
+      return raw ? (JSON.parse(raw) as CacheRecord<T>) : null;
+    },
+    async set(key, record, retainMs) {
+      await redis.set(prefix + key, JSON.stringify(record), "PX", Math.max(1, Math.ceil(retainMs)));
+    },
+    async lock(key, ttlMs) {
+      const token = randomUUID();
+      const ok = await redis.set(`${prefix}lock:${key}`, token, "PX", ttlMs, "NX");
+      return ok === "OK" ? token : null;
+    },
+    async unlock(key, token) {
+      await redis.eval(UNLOCK_SCRIPT, 1, `${prefix}lock:${key}`, token);
+    },
+    async close() {
+      // Stops the reconnect loop too, which would otherwise keep the process alive.
+      redis.disconnect();
+    },
+  };
+}
+
+let log: FastifyBaseLogger | null = null;
+const store: CacheStore =
+  CACHE_BACKEND === "redis" ? createRedisStore(REDIS_URL) : createMemoryStore();
+// Callers in this process that miss the same key share one refresh instead of contending for the lock.
+const refreshing = new Map<string, Promise<CacheRecord<unknown>>>();
+const cacheReads = counter(
+  "cache_requests_total",
+  "cached() reads by cache (key prefix) and result: hit, miss, stale or error.",
+);
+
+// `price:BTC` and `premium:upbitKrw:BTC` count under `price` and `premium`.
+function countRead(key: string, result: "hit" | "miss" | "stale" | "error") {
+  cacheReads.inc({ cache: key.split(":")[0], result });
+}
+
+export function setCacheLogger(logger: FastifyBaseLogger) {
+  log = logger;
+  log.info(`cache backend: ${store.backend}`);
+}
+
+export async function closeCache() {
+  await store.close();
+}
+
+function retainFor(policy: CachePolicy) {
+  const staleMs = Math.max(
+    policy.staleWhileRevalidateMs ?? 0,
+    policy.staleIfErrorMs ?? DEFAULT_STALE_IF_ERROR_MS,
+  );
+  return policy.ttlMs + staleMs;
+}
+
+async function read<T>(key: string) {
+  try {
+    return await store.get<T>(key);
+  } catch (error) {
+    log?.warn(error, `cache read failed for ${key}`);
+    return null;
+  }
+}
+
+export async function writeCached<T>(
+  key: string,
+  value: T,
+  fetchedAt: number,
+  policy: CachePolicy,
+) {
+  try {
+    await store.set(key, { value, fetchedAt }, retainFor(policy));
+  } catch (error) {
+    log?.warn(error, `cache write failed for ${key}`);
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Another instance holds the lock; wait for it to publish a newer value than the one we saw.
+async function waitForRefresh<T>(key: string, seenAt: number) {
+  const deadline = Date.now() + LOCK_WAIT_MS;
+  while (Date.now() < deadline) {
+    await sleep(LOCK_POLL_MS);
+    const record = await read<T>(key);
+    if (record && record.fetchedAt > seenAt) return record;
+  }
+  return null;
+}
+
+async function tryLock(key: string) {
+  try {
+    return await store.lock(key, LOCK_TTL_MS);
+  } catch (error) {
+    // Without a reachable lock every instance loads for itself, same as a single-node setup.
+    log?.warn(error, `cache lock failed for ${key}`);
+    return "";
+  }
+}
+
+async function loadAndStore<T>(
+  key: string,
+  policy: CachePolicy,
+  load: () => Promise<T>,
+  token: string,
+): Promise<CacheRecord<T> & { loaded: boolean }> {
+  try {
+    const value = await load();
+    const fetchedAt = Date.now();
+    await writeCached(key, value, fetchedAt, policy);
+    return { value, fetchedAt, loaded: true };
+  } finally {
+    if (token) await store.unlock(key, token).catch(() => undefined);
+  }
+}
+
+async function refresh<T>(
+  key: string,
+  policy: CachePolicy,
+  load: () => Promise<T>,
+  seenAt: number,
+): Promise<CacheRecord<T> & { loaded: boolean }> {
+  const token = await tryLock(key);
+  if (token === null) {
+    const record = await waitForRefresh<T>(key, seenAt);
+    if (record) return { ...record, loaded: false };
+  }
+  return loadAndStore(key, policy, load, token ?? "");
+}
+
+function sharedRefresh<T>(
+  key: string,
+  policy: CachePolicy,
+  load: () => Promise<T>,
+  seenAt: number,
+) {
+  const pending = refreshing.get(key) as Promise<CacheRecord<T> & { loaded: boolean }> | undefined;
+  if (pending) return pending.then((record) => ({ ...record, loaded: false }));
+
+  const request = refresh(key, policy, load, seenAt).finally(() => refreshing.delete(key));
+  refreshing.set(key, request);
+  return request;
+}
+
+/**
+ * Read-through cache over the configured store. `load` runs at most once per key across every
+ * instance sharing the store while the refresh lock is held, so side effects tied to a fresh value
+ * (history samples, market updates) belong inside it.
+ */
+export async function cached<T>(
+  key: string,
+  policy: CachePolicy,
+  load: () => Promise<T>,
+): Promise<CacheResult<T>> {
+  const record = await read<T>(key);
+  const age = record ? Date.now() - record.fetchedAt : Infinity;
+
+  if (record && age < policy.ttlMs) {
+    countRead(key, "hit");
+    return { ...record, cached: true, stale: false, error: null };
+  }
+  if (record && age < policy.ttlMs + (policy.staleWhileRevalidateMs ?? 0)) {
+    countRead(key, "stale");
+    sharedRefresh(key, policy, load, record.fetchedAt).catch((error) =>
+      log?.warn(error, `background refresh failed for ${key}`),
+    );
+    return { ...record, cached: true, stale: false, error: null };
+  }
+
+  try {
+    const fresh = await sharedRefresh(key, policy, load, record?.fetchedAt ?? 0);
+    countRead(key, "miss");
+    return {
+      value: fresh.value,
+      fetchedAt: fresh.fetchedAt,
+      cached: !fresh.loaded,
+      stale: false,
+      error: null,
+    };
+  } catch (error) {
+    const staleIfErrorMs = policy.staleIfErrorMs ?? DEFAULT_STALE_IF_ERROR_MS;
+    if (record && age < policy.ttlMs + staleIfErrorMs) {
+      const message = error instanceof Error ? error.message : String(error);
+      countRead(key, "stale");
+      return { ...record, cached: true, stale: true, error: message };
+    }
+    countRead(key, "error");
+    throw error;
+  }
+}
+
+/**
+ * Loads and stores a new value regardless of TTL, for the background scheduler. Skips instead of
+ * waiting when a refresh is already running here or elsewhere, or when the stored value is younger
+ * than `minAgeMs`. Resolves to whether this call did the load.
+ */
+export async function refreshCached<T>(
+  key: string,
+  policy: CachePolicy,
+  load: () => Promise<T>,
+  minAgeMs = 0,
+) {
+  if (refreshing.has(key)) return false;
+  const record = await read<T>(key);
+  if (record && Date.now() - record.fetchedAt < minAgeMs) return false;
+
+  const token = await tryLock(key);
+  if (token === null) return false;
+
+  const request = loadAndStore(key, policy, load, token).finally(() => refreshing.delete(key));
+  refreshing.set(key, request);
+  await request;
+  return true;
+}
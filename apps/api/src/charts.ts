@@ -0,0 +1,215 @@
+import {
+  ChartRangeSchema,
+  type ChartBackfill,
+  type ChartRange,
+  type ChartResponse,
+  type ChartSeries,
+  type HistoryPoint,
+  type RiskLevel,
+  type RiskSegment,
+} from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import { cached, type CachePolicy } from "./cache";
+import { binance } from "./exchanges";
+import { downsample, HISTORY_METRICS, readHistory } from "./history";
+import { evaluateSeriesRisk, ruleSetFor, sampleAt } from "./risk-rules";
+import { resolveSymbol, type SymbolInfo } from "./symbols";
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+// Settled funding only changes every 8 hours, so a rate stays current that long.
+const FUNDING_MAX_AGE_MS = 8 * HOUR_MS;
+const FUNDING_HISTORY_LIMIT = 1000;
+
+export const CHART_RANGES = ChartRangeSchema.options;
+
+export type { ChartRange, ChartResponse, RiskSegment } from "@bit-auto/shared";
+
+// Bucket sizes keep every range at a few hundred points and within one Binance page. Longer
+// ranges change slowly at their resolution, so they are cached longer.
+const RANGES: Record<ChartRange, { spanMs: number; intervalMs: number; ttlMs: number }> = {
+  "1h": { spanMs: HOUR_MS, intervalMs: MINUTE_MS, ttlMs: 15_000 },
+  "24h": { spanMs: DAY_MS, intervalMs: 5 * MINUTE_MS, ttlMs: MINUTE_MS },
+  "7d": { spanMs: 7 * DAY_MS, intervalMs: 30 * MINUTE_MS, ttlMs: 5 * MINUTE_MS },
+  "30d": { spanMs: 30 * DAY_MS, intervalMs: 2 * HOUR_MS, ttlMs: 15 * MINUTE_MS },
+};
+
+function isRange(value: string): value is ChartRange {
+  return (CHART_RANGES as readonly string[]).includes(value);
+}
+
+async function backfill(
+  source: ChartBackfill["source"],
+  load: (() => Promise<HistoryPoint[]>) | undefined,
+): Promise<{ points: HistoryPoint[]; status: ChartBackfill }> {
+  if (!load) return { points: [], status: { source, points: 0, error: "unsupported" } };
+  try {
+    const points = await load();
+    return { points, status: { source, points: points.length, error: null } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { points: [], status: { source, points: 0, error: message } };
+  }
+}
+
+// Backfilled points fill the buckets the local recorder has no samples for; recorded closes win
+// where both exist, so the chart matches what the live path saw.
+function mergeSeries(
+  backfilled: HistoryPoint[],
+  recorded: HistoryPoint[],
+  intervalMs: number,
+  from: number,
+  to: number,
+): HistoryPoint[] {
+  const buckets = new Map<number, number>();
+  for (const { t, v } of backfilled) {
+    if (t < from || t > to) continue;
+    buckets.set(Math.floor(t / intervalMs) * intervalMs, v);
+  }
+  for (const bucket of downsample(recorded, intervalMs)) buckets.set(bucket.t, bucket.close);
+  return [...buckets.entries()].sort(([a], [b]) => a - b).map(([t, v]) => ({ t, v }));
+}
+
+// Scores every bucket with the live rule set and folds runs of WARN/DANGER into segments.
+function riskSegments(
+  symbol: string,
+  series: ChartSeries,
+  intervalMs: number,
+  from: number,
+  to: number,
+): RiskSegment[] {
+  const ruleSet = ruleSetFor(symbol);
+  const maxAgeMs = Math.max(intervalMs, 5 * MINUTE_MS);
+  const segments: RiskSegment[] = [];
+  let open: RiskSegment | null = null;
+
+  for (let t = from; t <= to; t += intervalMs) {
+    const fundingRate = sampleAt(series.funding, t, Math.max(maxAgeMs, FUNDING_MAX_AGE_MS));
+    const openInterest = sampleAt(series.openInterest, t, maxAgeMs);
+    let level: RiskLevel | null = null;
+    if (fundingRate !== undefined && openInterest !== undefined) {
+      level = evaluateSeriesRisk(
+        ruleSet,
+        (metric) => series[metric],
+        t,
+        fundingRate,
+        openInterest,
+        maxAgeMs,
+      ).level;
+    }
+
+    if (open && open.level === level) {
+      open.to = Math.min(t + intervalMs, to);
+      continue;
+    }
+    if (open) segments.push(open);
+    open = level && level !== "OK" ? { from: t, to: Math.min(t + intervalMs, to), level } : null;
+  }
+  if (open) segments.push(open);
+
+  return segments;
+}
+
+async function fundingHistory(info: SymbolInfo, since: number) {
+  const rows = await binance.fetchFundingHistory!(info, FUNDING_HISTORY_LIMIT, since);
+  return rows.map(({ rate, ts }) => ({ t: ts, v: rate }));
+}
+
+async function loadChart(
+  info: SymbolInfo,
+  range: ChartRange,
+): Promise<Omit<ChartResponse, "cached">> {
+  const { spanMs, intervalMs } = RANGES[range];
+  const to = Date.now();
+  const from = Math.floor((to - spanMs) / intervalMs) * intervalMs;
+  // One settlement before the window so the first buckets have a rate to score and show.
+  const fundingFrom = from - FUNDING_MAX_AGE_MS;
+
+  const [klines, funding, openInterest, ...recorded] = await Promise.all([
+    backfill(
+      "klines",
+      binance.fetchPriceHistory && (() => binance.fetchPriceHistory!(info, intervalMs, from, to)),
+    ),
+    backfill(
+      "fundingRate",
+      binance.fetchFundingHistory && (() => fundingHistory(info, fundingFrom)),
+    ),
+    backfill(
+      "openInterestHist",
+      binance.fetchOpenInterestHistory &&
+        (() => binance.fetchOpenInterestHistory!(info, intervalMs, from, to)),
+    ),
+    ...HISTORY_METRICS.map((metric) => readHistory(info.symbol, metric, from, to)),
+  ]);
+  const recordedBy = Object.fromEntries(
+    HISTORY_METRICS.map((metric, i) => [metric, recorded[i]]),
+  ) as Record<keyof ChartSeries, HistoryPoint[]>;
+
+  const series: ChartSeries = {
+    price: mergeSeries(klines.points, recordedBy.price, intervalMs, from, to),
+    // Kept from one settlement earlier for risk scoring, trimmed to the window below.
+    funding: mergeSeries(funding.points, recordedBy.funding, intervalMs, fundingFrom, to),
+    openInterest: mergeSeries(
+      openInterest.points,
+      recordedBy.openInterest,
+      intervalMs,
+      from,
+      to,
+    ),
+    kimchiPremium: mergeSeries([], recordedBy.kimchiPremium, intervalMs, from, to),
+    coinbasePremium: mergeSeries([], recordedBy.coinbasePremium, intervalMs, from, to),
+  };
+  // Nothing to draw; throwing keeps the empty result out of the cache and serves a stale one.
+  if (!series.price.length && klines.status.error) {
+    throw new Error(`no price history for ${info.symbol}: ${klines.status.error}`);
+  }
+  const risk = riskSegments(info.symbol, series, intervalMs, from, to);
+  series.funding = series.funding.filter((point) => point.t >= from);
+
+  return {
+    symbol: info.symbol,
+    range,
+    from,
+    to,
+    interval: intervalMs,
+    series,
+    risk,
+    backfill: [klines.status, funding.status, openInterest.status],
+    fetchedAt: to,
+  };
+}
+
+export async function fetchChart(info: SymbolInfo, range: ChartRange): Promise<ChartResponse> {
+  const { ttlMs } = RANGES[range];
+  const policy: CachePolicy = { ttlMs, staleWhileRevalidateMs: 4 * ttlMs };
+  const result = await cached(`chart:${info.symbol}:${range}`, policy, () =>
+    loadChart(info, range),
+  );
+  return { ...result.value, cached: result.cached };
+}
+
+export function registerChartRoutes(app: FastifyInstance) {
+  app.get<{ Params: { symbol: string }; Querystring: { range?: string } }>(
+    "/api/market/:symbol/history",
+    async (request, reply) => {
+      const info = resolveSymbol(request.params.symbol);
+      if (!info) {
+        reply.code(404);
+        return { error: "unknown_symbol" };
+      }
+      const range = request.query.range ?? "24h";
+      if (!isRange(range)) {
+        reply.code(400);
+        return { error: "invalid_range", ranges: CHART_RANGES };
+      }
+      try {
+        return await fetchChart(info, range);
+      } catch (error) {
+        app.log.error(error, `failed to build ${info.symbol} ${range} history`);
+        reply.code(502);
+        return { error: "upstream_unavailable" };
+      }
+    },
+  );
+}
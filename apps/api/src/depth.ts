@@ -0,0 +1,221 @@
+import type {
+  DepthCurvePoint,
+  DepthResponse,
+  DepthSummary,
+  Orderbook,
+  OrderbookLevel,
+  SlippageEstimate,
+  VenueDepth,
+} from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import { median } from "./aggregate";
+import { cached, type CachePolicy } from "./cache";
+import { listExchanges, type ExchangeAdapter } from "./exchanges";
+import { fetchFxRate } from "./fx";
+import { resolveSymbol, type SymbolInfo } from "./symbols";
+import { settle } from "./venues";
+
+const DEPTH_POLICY: CachePolicy = { ttlMs: 5000, staleWhileRevalidateMs: 10_000 };
+const DEPTH_LEVELS = 1000;
+export const DEPTH_BANDS = [0.005, 0.01, 0.02];
+const CURVE_STEPS = 40;
+const DEFAULT_SIZE_USD = 100_000;
+
+export type {
+  DepthBand,
+  DepthCurvePoint,
+  DepthResponse,
+  DepthSummary,
+  SlippageEstimate,
+  VenueDepth,
+} from "@bit-auto/shared";
+
+type VenueBook = { book: Orderbook; usdRate: number; fetchedAt: number };
+
+// USDT is counted 1:1 with USD; only KRW books are converted.
+async function usdRateFor(adapter: ExchangeAdapter) {
+  if (adapter.quote !== "KRW") return 1;
+  const krw = await fetchFxRate("KRW");
+  return 1 / krw.value;
+}
+
+function toUsd(book: Orderbook, rate: number): Orderbook {
+  if (rate === 1) return book;
+  const convert = (level: OrderbookLevel) => ({ price: level.price * rate, size: level.size });
+  return { bids: book.bids.map(convert), asks: book.asks.map(convert), ts: book.ts };
+}
+
+async function loadVenueBook(adapter: ExchangeAdapter, info: SymbolInfo): Promise<VenueBook> {
+  const [result, usdRate] = await Promise.all([
+    cached(`depth:${adapter.id}:${info.symbol}`, DEPTH_POLICY, () =>
+      adapter.fetchOrderbook!(info, DEPTH_LEVELS),
+    ),
+    usdRateFor(adapter),
+  ]);
+  if (!result.value.bids.length || !result.value.asks.length) {
+    throw new Error(`${adapter.id} orderbook is empty`);
+  }
+  return { book: toUsd(result.value, usdRate), usdRate, fetchedAt: result.fetchedAt };
+}
+
+function notionalWithin(levels: OrderbookLevel[], inBand: (price: number) => boolean) {
+  let notional = 0;
+  for (const level of levels) {
+    if (!inBand(level.price)) break;
+    notional += level.price * level.size;
+  }
+  return notional;
+}
+
+// Walks one side from the touch until `notional` (USD) is filled or the fetched levels run out.
+function estimateSlippage(
+  levels: OrderbookLevel[],
+  mid: number,
+  notional: number,
+  side: "buy" | "sell",
+): SlippageEstimate {
+  let filledNotional = 0;
+  let filledSize = 0;
+  let worstPrice: number | null = null;
+  for (const level of levels) {
+    if (filledNotional >= notional) break;
+    const take = Math.min(level.price * level.size, notional - filledNotional);
+    filledNotional += take;
+    filledSize += take / level.price;
+    worstPrice = level.price;
+  }
+
+  const avgPrice = filledSize > 0 ? filledNotional / filledSize : null;
+  return {
+    notional,
+    filledNotional,
+    filled: filledNotional >= notional * (1 - 1e-9),
+    avgPrice,
+    worstPrice,
+    slippage: avgPrice !== null ? (side === "buy" ? 1 : -1) * (avgPrice / mid - 1) : null,
+  };
+}
+
+// Cumulative notional sampled at even price steps out to the widest band.
+function depthCurve(levels: OrderbookLevel[], mid: number, side: "bids" | "asks") {
+  const dir = side === "asks" ? 1 : -1;
+  const widest = DEPTH_BANDS[DEPTH_BANDS.length - 1];
+  const points: DepthCurvePoint[] = [];
+  let i = 0;
+  let notional = 0;
+  for (let step = 1; step <= CURVE_STEPS; step++) {
+    const price = mid * (1 + (dir * widest * step) / CURVE_STEPS);
+    while (i < levels.length && dir * (levels[i].price - price) <= 0) {
+      notional += levels[i].price * levels[i].size;
+      i++;
+    }
+    points.push({ price, notional });
+  }
+  return points;
+}
+
+// Bids must be sorted best (highest) first and asks best (lowest) first.
+function summarize(book: Orderbook, size: number, center?: number): DepthSummary {
+  const bestBid = book.bids[0].price;
+  const bestAsk = book.asks[0].price;
+  const mid = center ?? (bestBid + bestAsk) / 2;
+  const spread = bestAsk - bestBid;
+
+  return {
+    mid,
+    bestBid,
+    bestAsk,
+    spread,
+    spreadBps: (spread / mid) * 10_000,
+    bands: DEPTH_BANDS.map((band) => ({
+      band,
+      bidNotional: notionalWithin(book.bids, (price) => price >= mid * (1 - band)),
+      askNotional: notionalWithin(book.asks, (price) => price <= mid * (1 + band)),
+    })),
+    reach: {
+      bids: 1 - book.bids[book.bids.length - 1].price / mid,
+      asks: book.asks[book.asks.length - 1].price / mid - 1,
+    },
+    slippage: {
+      buy: estimateSlippage(book.asks, mid, size, "buy"),
+      sell: estimateSlippage(book.bids, mid, size, "sell"),
+    },
+    curve: {
+      bids: depthCurve(book.bids, mid, "bids"),
+      asks: depthCurve(book.asks, mid, "asks"),
+    },
+  };
+}
+
+// Merges the venues' levels into one book around the median venue mid.
+function consolidate(books: Orderbook[], size: number) {
+  if (books.length === 0) return null;
+  const merged: Orderbook = {
+    bids: books.flatMap((b) => b.bids).sort((a, b) => b.price - a.price),
+    asks: books.flatMap((b) => b.asks).sort((a, b) => a.price - b.price),
+    ts: Math.min(...books.map((b) => b.ts)),
+  };
+  const mids = books.map((b) => (b.bids[0].price + b.asks[0].price) / 2);
+  return summarize(merged, size, median(mids));
+}
+
+export async function fetchDepth(info: SymbolInfo, size = DEFAULT_SIZE_USD): Promise<DepthResponse> {
+  const adapters = listExchanges().filter((adapter) => adapter.fetchOrderbook);
+  const loaded = await Promise.all(adapters.map((a) => settle(() => loadVenueBook(a, info))));
+
+  const books: Orderbook[] = [];
+  const venues = adapters.map((adapter, i): VenueDepth => {
+    const result = loaded[i]!;
+    // Converting at FX doesn't remove the kimchi premium, so a KRW book would cross the USD ones.
+    const included = adapter.quote !== "KRW";
+    if (!result.ok) {
+      return {
+        venue: adapter.id,
+        quote: adapter.quote,
+        usdRate: null,
+        included,
+        depth: result,
+        fetchedAt: null,
+      };
+    }
+    const { book, usdRate, fetchedAt } = result.value;
+    if (included) books.push(book);
+    return {
+      venue: adapter.id,
+      quote: adapter.quote,
+      usdRate,
+      included,
+      depth: { ok: true, value: summarize(book, size) },
+      fetchedAt,
+    };
+  });
+
+  return {
+    symbol: info.symbol,
+    size,
+    venues,
+    consolidated: consolidate(books, size),
+    ts: Date.now(),
+  };
+}
+
+type DepthQuery = { size?: string };
+
+export function registerDepthRoutes(app: FastifyInstance) {
+  app.get<{ Params: { symbol: string }; Querystring: DepthQuery }>(
+    "/api/market/:symbol/depth",
+    async (request, reply) => {
+      const info = resolveSymbol(request.params.symbol);
+      if (!info) {
+        reply.code(404);
+        return { error: "unknown_symbol" };
+      }
+      const size = request.query.size === undefined ? DEFAULT_SIZE_USD : Number(request.query.size);
+      if (!Number.isFinite(size) || size <= 0) {
+        reply.code(400);
+        return { error: "invalid_size" };
+      }
+      return fetchDepth(info, size);
+    },
+  );
+}
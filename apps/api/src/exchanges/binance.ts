@@ -0,0 +1,206 @@
+import {
+  BinanceBookTickerSchema,
+  BinanceDepthSchema,
+  BinanceFundingHistorySchema,
+  BinanceKlinesSchema,
+  BinanceLongShortRatioSchema,
+  BinanceOpenInterestHistSchema,
+  BinanceOpenInterestSchema,
+  BinancePremiumIndexListSchema,
+  BinancePremiumIndexSchema,
+  BinanceTicker24hSchema,
+} from "@bit-auto/shared";
+import type { SymbolInfo } from "../symbols";
+import { fetchParsed } from "../upstream";
+import type { DeliveryBasis, ExchangeAdapter, LongShortRatio } from "./types";
+
+const SPOT_BASE = "https://api.binance.com";
+const FUTURES_BASE = "https://fapi.binance.com";
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Both endpoints cap a single page; callers size their ranges to fit one.
+const KLINES_LIMIT = 1000;
+const OI_HIST_LIMIT = 500;
+
+// Binance interval names for the bucket sizes the chart ranges use.
+const INTERVALS: Record<number, string> = {
+  [60_000]: "1m",
+  [5 * 60_000]: "5m",
+  [15 * 60_000]: "15m",
+  [30 * 60_000]: "30m",
+  [60 * 60_000]: "1h",
+  [2 * 60 * 60_000]: "2h",
+  [4 * 60 * 60_000]: "4h",
+};
+
+function intervalName(intervalMs: number) {
+  const name = INTERVALS[intervalMs];
+  if (!name) throw new Error(`binance has no ${intervalMs}ms interval`);
+  return name;
+}
+
+// Delivery contracts are suffixed with their YYMMDD expiry and settle at 08:00 UTC.
+function deliveryExpiry(contract: string) {
+  const match = /_(\d{2})(\d{2})(\d{2})$/.exec(contract);
+  if (!match) return null;
+  return Date.UTC(2000 + Number(match[1]), Number(match[2]) - 1, Number(match[3]), 8);
+}
+
+async function fetchTopRatio(
+  info: SymbolInfo,
+  endpoint: "topLongShortPositionRatio" | "topLongShortAccountRatio",
+  kind: LongShortRatio["kind"],
+): Promise<LongShortRatio> {
+  const [latest] = await fetchParsed(
+    `${FUTURES_BASE}/futures/data/${endpoint}?symbol=${info.binance}&period=5m&limit=1`,
+    BinanceLongShortRatioSchema,
+    `binance ${endpoint}`,
+  );
+  return {
+    kind,
+    ratio: latest.longShortRatio,
+    long: latest.longAccount,
+    short: latest.shortAccount,
+    ts: latest.timestamp,
+  };
+}
+
+export const binance: ExchangeAdapter = {
+  id: "binance",
+  quote: "USDT",
+
+  async fetchSpot(info) {
+    const json = await fetchParsed(
+      `${SPOT_BASE}/api/v3/ticker/24hr?symbol=${info.binance}`,
+      BinanceTicker24hSchema,
+      "binance ticker",
+    );
+    return { price: json.lastPrice, volume24h: json.volume, ts: Date.now() };
+  },
+
+  async fetchOrderbookTop(info) {
+    const json = await fetchParsed(
+      `${SPOT_BASE}/api/v3/ticker/bookTicker?symbol=${info.binance}`,
+      BinanceBookTickerSchema,
+      "binance bookTicker",
+    );
+    return {
+      bid: json.bidPrice,
+      bidSize: json.bidQty,
+      ask: json.askPrice,
+      askSize: json.askQty,
+      ts: Date.now(),
+    };
+  },
+
+  async fetchOrderbook(info, limit) {
+    const json = await fetchParsed(
+      `${SPOT_BASE}/api/v3/depth?symbol=${info.binance}&limit=${Math.min(limit, 5000)}`,
+      BinanceDepthSchema,
+      "binance depth",
+    );
+    return {
+      bids: json.bids.map(([price, size]) => ({ price, size })),
+      asks: json.asks.map(([price, size]) => ({ price, size })),
+      ts: Date.now(),
+    };
+  },
+
+  async fetchFunding(info) {
+    const json = await fetchParsed(
+      `${FUTURES_BASE}/fapi/v1/premiumIndex?symbol=${info.binance}`,
+      BinancePremiumIndexSchema,
+      "binance premiumIndex",
+    );
+    return {
+      rate: json.lastFundingRate,
+      nextFundingTime: json.nextFundingTime || null,
+      markPrice: json.markPrice || null,
+      indexPrice: json.indexPrice || null,
+      ts: Date.now(),
+    };
+  },
+
+  async fetchOpenInterest(info) {
+    const json = await fetchParsed(
+      `${FUTURES_BASE}/fapi/v1/openInterest?symbol=${info.binance}`,
+      BinanceOpenInterestSchema,
+      "binance openInterest",
+    );
+    return { openInterest: json.openInterest, ts: Date.now() };
+  },
+
+  async fetchFundingHistory(info, limit, startTime) {
+    const since = startTime !== undefined ? `&startTime=${startTime}` : "";
+    const rows = await fetchParsed(
+      `${FUTURES_BASE}/fapi/v1/fundingRate?symbol=${info.binance}&limit=${limit}${since}`,
+      BinanceFundingHistorySchema,
+      "binance fundingRate",
+    );
+    return rows.map((row) => ({
+      rate: row.fundingRate,
+      ts: row.fundingTime,
+      markPrice: typeof row.markPrice === "number" ? row.markPrice : undefined,
+    }));
+  },
+
+  async fetchPriceHistory(info, intervalMs, from, to) {
+    const rows = await fetchParsed(
+      `${SPOT_BASE}/api/v3/klines?symbol=${info.binance}&interval=${intervalName(intervalMs)}` +
+        `&startTime=${from}&endTime=${to}&limit=${KLINES_LIMIT}`,
+      BinanceKlinesSchema,
+      "binance klines",
+    );
+    return rows.map(([openTime, , , , close]) => ({ t: openTime, v: close }));
+  },
+
+  // Binance only keeps the last 30 days and has nothing finer than 5 minutes.
+  async fetchOpenInterestHistory(info, intervalMs, from, to) {
+    const period = intervalName(Math.max(intervalMs, 5 * 60_000));
+    const rows = await fetchParsed(
+      `${FUTURES_BASE}/futures/data/openInterestHist?symbol=${info.binance}&period=${period}` +
+        `&startTime=${from}&endTime=${to}&limit=${OI_HIST_LIMIT}`,
+      BinanceOpenInterestHistSchema,
+      "binance openInterestHist",
+    );
+    return rows
+      .map((row) => ({ t: row.timestamp, v: row.sumOpenInterest }))
+      .sort((a, b) => a.t - b.t);
+  },
+
+  async fetchLongShortRatios(info) {
+    return Promise.all([
+      fetchTopRatio(info, "topLongShortPositionRatio", "topPosition"),
+      fetchTopRatio(info, "topLongShortAccountRatio", "topAccount"),
+    ]);
+  },
+
+  async fetchDeliveryBasis(info) {
+    const rows = await fetchParsed(
+      `${FUTURES_BASE}/fapi/v1/premiumIndex`,
+      BinancePremiumIndexListSchema,
+      "binance premiumIndex list",
+    );
+    const now = Date.now();
+    const contracts: DeliveryBasis[] = [];
+
+    for (const row of rows) {
+      if (!row.symbol.startsWith(`${info.binance}_`)) continue;
+      const expiry = deliveryExpiry(row.symbol);
+      if (expiry === null || expiry <= now || !(row.indexPrice > 0)) continue;
+
+      const daysToExpiry = (expiry - now) / DAY_MS;
+      const basis = (row.markPrice - row.indexPrice) / row.indexPrice;
+      contracts.push({
+        contract: row.symbol,
+        expiry,
+        daysToExpiry,
+        markPrice: row.markPrice,
+        indexPrice: row.indexPrice,
+        basis,
+        annualizedYield: (basis * 365) / daysToExpiry,
+      });
+    }
+
+    return contracts.sort((a, b) => a.expiry - b.expiry);
+  },
+};
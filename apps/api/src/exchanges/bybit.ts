@@ -0,0 +1,104 @@
+import {
+  BybitAccountRatioSchema,
+  BybitFundingHistorySchema,
+  BybitLinearTickerSchema,
+  BybitSpotTickerSchema,
+} from "@bit-auto/shared";
+import type { z } from "zod";
+import type { SymbolInfo } from "../symbols";
+import { fetchJson, parsePayload } from "../upstream";
+import type { ExchangeAdapter } from "./types";
+
+const BYBIT_BASE = "https://api.bybit.com";
+
+async function fetchResult<T extends z.ZodTypeAny>(pathAndQuery: string, schema: T, label: string) {
+  const json = await fetchJson(`${BYBIT_BASE}${pathAndQuery}`);
+  if (json?.retCode !== 0) {
+    throw new Error(`Bybit error ${json?.retCode}: ${json?.retMsg}`);
+  }
+  return parsePayload(schema, json, label);
+}
+
+async function fetchSpotTicker(info: SymbolInfo) {
+  const json = await fetchResult(
+    `/v5/market/tickers?category=spot&symbol=${info.bybit}`,
+    BybitSpotTickerSchema,
+    "bybit spot ticker",
+  );
+  return json.result.list[0];
+}
+
+async function fetchLinearTicker(info: SymbolInfo) {
+  const json = await fetchResult(
+    `/v5/market/tickers?category=linear&symbol=${info.bybit}`,
+    BybitLinearTickerSchema,
+    "bybit linear ticker",
+  );
+  return json.result.list[0];
+}
+
+export const bybit: ExchangeAdapter = {
+  id: "bybit",
+  quote: "USDT",
+
+  async fetchSpot(info) {
+    const ticker = await fetchSpotTicker(info);
+    return { price: ticker.lastPrice, volume24h: ticker.volume24h, ts: Date.now() };
+  },
+
+  async fetchOrderbookTop(info) {
+    const ticker = await fetchSpotTicker(info);
+    return {
+      bid: ticker.bid1Price,
+      bidSize: ticker.bid1Size,
+      ask: ticker.ask1Price,
+      askSize: ticker.ask1Size,
+      ts: Date.now(),
+    };
+  },
+
+  async fetchFunding(info) {
+    const ticker = await fetchLinearTicker(info);
+    return {
+      rate: ticker.fundingRate,
+      nextFundingTime: ticker.nextFundingTime || null,
+      markPrice: ticker.markPrice || null,
+      indexPrice: ticker.indexPrice || null,
+      ts: Date.now(),
+    };
+  },
+
+  async fetchOpenInterest(info) {
+    const ticker = await fetchLinearTicker(info);
+    return { openInterest: ticker.openInterest, ts: Date.now() };
+  },
+
+  async fetchFundingHistory(info, limit) {
+    const json = await fetchResult(
+      `/v5/market/funding/history?category=linear&symbol=${info.bybit}&limit=${limit}`,
+      BybitFundingHistorySchema,
+      "bybit funding history",
+    );
+    return json.result.list
+      .map((row) => ({ rate: row.fundingRate, ts: row.fundingRateTimestamp }))
+      .sort((a, b) => a.ts - b.ts);
+  },
+
+  async fetchLongShortRatios(info) {
+    const json = await fetchResult(
+      `/v5/market/account-ratio?category=linear&symbol=${info.bybit}&period=5min&limit=1`,
+      BybitAccountRatioSchema,
+      "bybit account-ratio",
+    );
+    const latest = json.result.list[0];
+    return [
+      {
+        kind: "account" as const,
+        ratio: latest.sellRatio > 0 ? latest.buyRatio / latest.sellRatio : 0,
+        long: latest.buyRatio,
+        short: latest.sellRatio,
+        ts: latest.timestamp,
+      },
+    ];
+  },
+};
@@ -0,0 +1,44 @@
+import { CoinbaseBookSchema, CoinbaseTickerSchema } from "@bit-auto/shared";
+import { fetchParsed } from "../upstream";
+import type { ExchangeAdapter } from "./types";
+
+const EXCHANGE_BASE = "https://api.exchange.coinbase.com";
+
+export const coinbase: ExchangeAdapter = {
+  id: "coinbase",
+  quote: "USD",
+
+  async fetchSpot(info) {
+    const json = await fetchParsed(
+      `${EXCHANGE_BASE}/products/${info.coinbase}/ticker`,
+      CoinbaseTickerSchema,
+      "coinbase ticker",
+    );
+    return { price: json.price, volume24h: json.volume, ts: Date.now() };
+  },
+
+  async fetchOrderbookTop(info) {
+    const json = await fetchParsed(
+      `${EXCHANGE_BASE}/products/${info.coinbase}/book?level=1`,
+      CoinbaseBookSchema,
+      "coinbase book",
+    );
+    const [bid, bidSize] = json.bids[0];
+    const [ask, askSize] = json.asks[0];
+    return { bid, bidSize, ask, askSize, ts: Date.now() };
+  },
+
+  // Level 2 is the whole aggregated book; keep the levels nearest the touch.
+  async fetchOrderbook(info, limit) {
+    const json = await fetchParsed(
+      `${EXCHANGE_BASE}/products/${info.coinbase}/book?level=2`,
+      CoinbaseBookSchema,
+      "coinbase book",
+    );
+    return {
+      bids: json.bids.slice(0, limit).map(([price, size]) => ({ price, size })),
+      asks: json.asks.slice(0, limit).map(([price, size]) => ({ price, size })),
+      ts: Date.now(),
+    };
+  },
+};
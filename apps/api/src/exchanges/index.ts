@@ -0,0 +1,21 @@
+import { binance } from "./binance";
+import { bybit } from "./bybit";
+import { coinbase } from "./coinbase";
+import { okx } from "./okx";
+import type { ExchangeAdapter, VenueId } from "./types";
+import { upbit } from "./upbit";
+
+export type * from "./types";
+export { binance, bybit, coinbase, okx, upbit };
+
+export const EXCHANGES: Record<VenueId, ExchangeAdapter> = {
+  binance,
+  coinbase,
+  upbit,
+  bybit,
+  okx,
+};
+
+export function listExchanges() {
+  return Object.values(EXCHANGES);
+}
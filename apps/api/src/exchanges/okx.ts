@@ -0,0 +1,103 @@
+import {
+  OkxFundingHistorySchema,
+  OkxFundingRateSchema,
+  OkxLongShortRatioSchema,
+  OkxOpenInterestSchema,
+  OkxTickerSchema,
+} from "@bit-auto/shared";
+import type { z } from "zod";
+import type { SymbolInfo } from "../symbols";
+import { fetchJson, parsePayload } from "../upstream";
+import type { ExchangeAdapter } from "./types";
+
+const OKX_BASE = "https://www.okx.com";
+
+function swapInstId(info: SymbolInfo) {
+  return `${info.okx}-SWAP`;
+}
+
+async function fetchData<T extends z.ZodTypeAny>(pathAndQuery: string, schema: T, label: string) {
+  const json = await fetchJson(`${OKX_BASE}${pathAndQuery}`);
+  if (json?.code !== "0") {
+    throw new Error(`OKX error ${json?.code}: ${json?.msg}`);
+  }
+  return parsePayload(schema, json, label);
+}
+
+async function fetchTicker(info: SymbolInfo) {
+  const json = await fetchData(
+    `/api/v5/market/ticker?instId=${info.okx}`,
+    OkxTickerSchema,
+    "okx ticker",
+  );
+  return json.data[0];
+}
+
+export const okx: ExchangeAdapter = {
+  id: "okx",
+  quote: "USDT",
+
+  async fetchSpot(info) {
+    const ticker = await fetchTicker(info);
+    return { price: ticker.last, volume24h: ticker.vol24h, ts: Date.now() };
+  },
+
+  async fetchOrderbookTop(info) {
+    const ticker = await fetchTicker(info);
+    return {
+      bid: ticker.bidPx,
+      bidSize: ticker.bidSz,
+      ask: ticker.askPx,
+      askSize: ticker.askSz,
+      ts: Date.now(),
+    };
+  },
+
+  async fetchFunding(info) {
+    const json = await fetchData(
+      `/api/v5/public/funding-rate?instId=${swapInstId(info)}`,
+      OkxFundingRateSchema,
+      "okx funding-rate",
+    );
+    const data = json.data[0];
+    return {
+      rate: data.fundingRate,
+      nextFundingTime: data.fundingTime || null,
+      markPrice: null,
+      indexPrice: null,
+      ts: Date.now(),
+    };
+  },
+
+  async fetchOpenInterest(info) {
+    const json = await fetchData(
+      `/api/v5/public/open-interest?instType=SWAP&instId=${swapInstId(info)}`,
+      OkxOpenInterestSchema,
+      "okx open-interest",
+    );
+    return { openInterest: json.data[0].oiCcy, ts: Date.now() };
+  },
+
+  async fetchFundingHistory(info, limit) {
+    const json = await fetchData(
+      `/api/v5/public/funding-rate-history?instId=${swapInstId(info)}&limit=${limit}`,
+      OkxFundingHistorySchema,
+      "okx funding-rate-history",
+    );
+    return json.data
+      .map((row) => ({ rate: row.fundingRate, ts: row.fundingTime }))
+      .sort((a, b) => a.ts - b.ts);
+  },
+
+  async fetchLongShortRatios(info) {
+    const json = await fetchData(
+      `/api/v5/rubik/stat/contracts/long-short-account-ratio-contract-top-trader?instId=${swapInstId(
+        info,
+      )}&period=5m&limit=1`,
+      OkxLongShortRatioSchema,
+      "okx top-trader long/short ratio",
+    );
+    const [ts, ratio] = json.data[0];
+    return [{ kind: "topAccount" as const, ratio, long: null, short: null, ts }];
+  },
+};
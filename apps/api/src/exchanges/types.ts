@@ -0,0 +1,61 @@
+import type {
+  DeliveryBasis,
+  FundingHistoryPoint,
+  FundingQuote,
+  HistoryPoint,
+  LongShortRatio,
+  OpenInterestQuote,
+  Orderbook,
+  OrderbookTop,
+  QuoteCurrency,
+  SpotQuote,
+  VenueId,
+} from "@bit-auto/shared";
+import type { SymbolInfo } from "../symbols";
+
+export type {
+  DeliveryBasis,
+  FundingHistoryPoint,
+  FundingQuote,
+  LongShortRatio,
+  OpenInterestQuote,
+  Orderbook,
+  OrderbookTop,
+  QuoteCurrency,
+  SpotQuote,
+  VenueId,
+} from "@bit-auto/shared";
+
+export type ExchangeAdapter = {
+  id: VenueId;
+  quote: QuoteCurrency;
+  fetchSpot(info: SymbolInfo): Promise<SpotQuote>;
+  fetchOrderbookTop(info: SymbolInfo): Promise<OrderbookTop>;
+  // Spot L2 book, best levels first, up to `limit` per side.
+  fetchOrderbook?(info: SymbolInfo, limit: number): Promise<Orderbook>;
+  // Spot-only venues (Coinbase, Upbit) have no perpetuals to read these from.
+  fetchFunding?(info: SymbolInfo): Promise<FundingQuote>;
+  fetchOpenInterest?(info: SymbolInfo): Promise<OpenInterestQuote>;
+  // Settled funding rates, oldest first; from `startTime` on when given, else the latest `limit`.
+  fetchFundingHistory?(
+    info: SymbolInfo,
+    limit: number,
+    startTime?: number,
+  ): Promise<FundingHistoryPoint[]>;
+  // Spot close per `intervalMs` candle over [from, to], stamped with the candle open, oldest first.
+  fetchPriceHistory?(
+    info: SymbolInfo,
+    intervalMs: number,
+    from: number,
+    to: number,
+  ): Promise<HistoryPoint[]>;
+  fetchOpenInterestHistory?(
+    info: SymbolInfo,
+    intervalMs: number,
+    from: number,
+    to: number,
+  ): Promise<HistoryPoint[]>;
+  fetchLongShortRatios?(info: SymbolInfo): Promise<LongShortRatio[]>;
+  // Dated (quarterly) contracts on the same underlying.
+  fetchDeliveryBasis?(info: SymbolInfo): Promise<DeliveryBasis[]>;
+};
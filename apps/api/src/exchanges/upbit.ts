@@ -0,0 +1,50 @@
+import { UpbitOrderbookSchema, UpbitTickerSchema } from "@bit-auto/shared";
+import { fetchParsed } from "../upstream";
+import type { ExchangeAdapter } from "./types";
+
+const UPBIT_BASE = "https://api.upbit.com";
+
+export const upbit: ExchangeAdapter = {
+  id: "upbit",
+  quote: "KRW",
+
+  async fetchSpot(info) {
+    const [ticker] = await fetchParsed(
+      `${UPBIT_BASE}/v1/ticker?markets=${info.upbit}`,
+      UpbitTickerSchema,
+      "upbit ticker",
+    );
+    return { price: ticker.trade_price, volume24h: ticker.acc_trade_volume_24h, ts: Date.now() };
+  },
+
+  async fetchOrderbookTop(info) {
+    const [book] = await fetchParsed(
+      `${UPBIT_BASE}/v1/orderbook?markets=${info.upbit}`,
+      UpbitOrderbookSchema,
+      "upbit orderbook",
+    );
+    const top = book.orderbook_units[0];
+    return {
+      bid: top.bid_price,
+      bidSize: top.bid_size,
+      ask: top.ask_price,
+      askSize: top.ask_size,
+      ts: Date.now(),
+    };
+  },
+
+  // Upbit only publishes the top 15 levels per side.
+  async fetchOrderbook(info, limit) {
+    const [book] = await fetchParsed(
+      `${UPBIT_BASE}/v1/orderbook?markets=${info.upbit}`,
+      UpbitOrderbookSchema,
+      "upbit orderbook",
+    );
+    const units = book.orderbook_units.slice(0, limit);
+    return {
+      bids: units.map((u) => ({ price: u.bid_price, size: u.bid_size })),
+      asks: units.map((u) => ({ price: u.ask_price, size: u.ask_size })),
+      ts: Date.now(),
+    };
+  },
+};
@@ -0,0 +1,79 @@
+import type { FuturesResponse, VenueFutures } from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import { cached, refreshCached, type CachePolicy } from "./cache";
+import { listExchanges, type ExchangeAdapter } from "./exchanges";
+import { resolveSymbol, type SymbolInfo } from "./symbols";
+import { settle } from "./venues";
+
+// Funding and long/short stats move on 5-minute-or-slower cadences; no need to hit venues every 5s.
+export const FUTURES_REFRESH_MS = 30_000;
+const FUTURES_POLICY: CachePolicy = {
+  ttlMs: FUTURES_REFRESH_MS,
+  staleWhileRevalidateMs: 2 * FUTURES_REFRESH_MS,
+};
+const FUNDING_HISTORY_LIMIT = 30;
+
+async function venueFutures(adapter: ExchangeAdapter, info: SymbolInfo): Promise<VenueFutures> {
+  const [funding, fundingHistory, longShort, delivery] = await Promise.all([
+    settle(adapter.fetchFunding && (() => adapter.fetchFunding!(info))),
+    settle(
+      adapter.fetchFundingHistory &&
+        (() => adapter.fetchFundingHistory!(info, FUNDING_HISTORY_LIMIT)),
+    ),
+    settle(adapter.fetchLongShortRatios && (() => adapter.fetchLongShortRatios!(info))),
+    settle(adapter.fetchDeliveryBasis && (() => adapter.fetchDeliveryBasis!(info))),
+  ]);
+
+  const quote = funding?.ok ? funding.value : null;
+  const history = fundingHistory?.ok ? fundingHistory.value : [];
+  const now = Date.now();
+
+  return {
+    venue: adapter.id,
+    funding,
+    lastFundingRate: history.length ? history[history.length - 1].rate : null,
+    nextFundingInMs:
+      quote?.nextFundingTime != null ? Math.max(0, quote.nextFundingTime - now) : null,
+    markIndexBasis:
+      quote?.markPrice && quote.indexPrice
+        ? (quote.markPrice - quote.indexPrice) / quote.indexPrice
+        : null,
+    fundingHistory,
+    longShort,
+    delivery,
+  };
+}
+
+async function loadFutures(info: SymbolInfo) {
+  // Each part is settled on its own, so a venue outage shows up per field instead of failing the route.
+  const venues = await Promise.all(
+    listExchanges()
+      .filter((adapter) => adapter.fetchFunding)
+      .map((adapter) => venueFutures(adapter, info)),
+  );
+  return { symbol: info.symbol, venues, fetchedAt: Date.now() };
+}
+
+export async function fetchFutures(info: SymbolInfo): Promise<FuturesResponse> {
+  const result = await cached(`futures:${info.symbol}`, FUTURES_POLICY, () => loadFutures(info));
+  return { ...result.value, cached: result.cached };
+}
+
+export function refreshFutures(info: SymbolInfo, force = false) {
+  const minAgeMs = force ? 0 : FUTURES_REFRESH_MS / 2;
+  return refreshCached(`futures:${info.symbol}`, FUTURES_POLICY, () => loadFutures(info), minAgeMs);
+}
+
+export function registerFuturesRoutes(app: FastifyInstance) {
+  app.get<{ Params: { symbol: string } }>(
+    "/api/market/:symbol/futures",
+    async (request, reply) => {
+      const info = resolveSymbol(request.params.symbol);
+      if (!info) {
+        reply.code(404);
+        return { error: "unknown_symbol" };
+      }
+      return fetchFutures(info);
+    },
+  );
+}
@@ -0,0 +1,126 @@
+import {
+  FiatCurrencySchema,
+  FxRateTableSchema,
+  type FiatCurrency,
+  type FxProviderStatus,
+  type FxRate,
+  type FxResponse,
+} from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import { cached, refreshCached, type CachePolicy, type CacheResult } from "./cache";
+import { fetchParsed } from "./upstream";
+
+export const FX_REFRESH_MS = 10 * 60_000;
+// A quote further than this from the providers' median is dropped as an outlier.
+const FX_MAX_DEVIATION = Number(process.env.FX_MAX_DEVIATION || 0.02);
+// How long the last consensus stands in while every provider is failing.
+const FX_MAX_AGE_MS = Number(process.env.FX_MAX_AGE_MS || 60 * 60_000);
+const FX_POLICY: CachePolicy = { ttlMs: 2 * FX_REFRESH_MS, staleIfErrorMs: FX_MAX_AGE_MS };
+const FX_PROVIDERS = [
+  { id: "exchangerate.host", url: "https://api.exchangerate.host/latest?base=USD&symbols=KRW,JPY,EUR" },
+  { id: "open.er-api.com", url: "https://open.er-api.com/v6/latest/USD" },
+  { id: "exchangerate-api.com", url: "https://api.exchangerate-api.com/v4/latest/USD" },
+];
+const FX_CURRENCIES = FiatCurrencySchema.options.filter((c) => c !== "USD");
+
+export type { FiatCurrency, FxProviderStatus, FxRate, FxResponse } from "@bit-auto/shared";
+
+type FxValue = Pick<FxResponse, "base" | "rates" | "providers">;
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+async function fetchProvider(provider: (typeof FX_PROVIDERS)[number]): Promise<FxProviderStatus> {
+  try {
+    const table = await fetchParsed(provider.url, FxRateTableSchema, `${provider.id} fx`);
+    const rates: Record<string, number> = {};
+    for (const currency of FX_CURRENCIES) {
+      if (table[currency] !== undefined) rates[currency] = table[currency];
+    }
+    return { provider: provider.id, ok: true, rates, rejected: [], error: null };
+  } catch (error) {
+    return { provider: provider.id, ok: false, rates: {}, rejected: [], error: errorMessage(error) };
+  }
+}
+
+// Median of every provider's quote, then the median again over the quotes close to it. With two
+// providers that disagree neither can be trusted, so the currency is left out.
+function consensus(currency: FiatCurrency, providers: FxProviderStatus[]): FxRate | null {
+  const quotes = providers.filter((p) => p.rates[currency] !== undefined);
+  if (quotes.length === 0) return null;
+
+  const mid = median(quotes.map((p) => p.rates[currency]));
+  const agreeing = quotes.filter((p) => Math.abs(p.rates[currency] / mid - 1) <= FX_MAX_DEVIATION);
+  for (const p of quotes) {
+    if (!agreeing.includes(p)) p.rejected.push(currency);
+  }
+  if (agreeing.length === 0) return null;
+
+  const values = agreeing.map((p) => p.rates[currency]);
+  const rate = median(values);
+  return {
+    rate,
+    providers: agreeing.length,
+    spread: (Math.max(...values) - Math.min(...values)) / rate,
+  };
+}
+
+async function loadFx(): Promise<FxValue> {
+  const providers = await Promise.all(FX_PROVIDERS.map(fetchProvider));
+  const ok = providers.filter((p) => p.ok).length;
+  const rates: FxValue["rates"] = { USD: { rate: 1, providers: ok, spread: 0 } };
+  for (const currency of FX_CURRENCIES) {
+    const rate = consensus(currency, providers);
+    if (rate) rates[currency] = rate;
+  }
+
+  // Failing here keeps the previous consensus in the cache instead of overwriting it.
+  if (!rates.KRW) {
+    const errors = providers.map((p) => `${p.provider}: ${p.error ?? `rejected ${p.rejected}`}`);
+    throw new Error(`No USD/KRW consensus (${errors.join("; ")})`);
+  }
+  return { base: "USD", rates, providers };
+}
+
+export async function fetchFx(): Promise<FxResponse> {
+  const result = await cached("fx:USD", FX_POLICY, loadFx);
+  return {
+    ...result.value,
+    fetchedAt: result.fetchedAt,
+    cached: result.cached,
+    stale: result.stale,
+    error: result.error,
+    ts: Date.now(),
+  };
+}
+
+// The consensus rate for one currency, with the cache metadata of the table it came from.
+export async function fetchFxRate(currency: FiatCurrency): Promise<CacheResult<number>> {
+  const fx = await fetchFx();
+  const rate = fx.rates[currency];
+  if (!rate) throw new Error(`No USD/${currency} consensus`);
+  return { ...fx, value: rate.rate };
+}
+
+export function refreshFx(force = false) {
+  return refreshCached("fx:USD", FX_POLICY, loadFx, force ? 0 : FX_REFRESH_MS / 2);
+}
+
+export function registerFxRoutes(app: FastifyInstance) {
+  app.get("/api/fx", async (_request, reply) => {
+    try {
+      return await fetchFx();
+    } catch (error) {
+      app.log.error(error, "failed to fetch fx rates");
+      reply.code(502);
+      return { error: "upstream_unavailable" };
+    }
+  });
+}
@@ -0,0 +1,248 @@
+import { appendFile, mkdir, readdir, readFile, rm } from "node:fs/promises";
+import path from "node:path";
+import {
+  HistoryMetricSchema,
+  type HistoryBucket,
+  type HistoryMetric,
+  type HistoryPoint,
+} from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import { DATA_DIR } from "./storage";
+import { resolveSymbol } from "./symbols";
+
+const HISTORY_DIR = path.join(DATA_DIR, "history");
+const HISTORY_MIN_INTERVAL_MS = 5000;
+const HISTORY_RETENTION_DAYS = Number(process.env.HISTORY_RETENTION_DAYS || 30);
+const MAX_RAW_POINTS = 10_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const RECENT_WINDOW_MS = DAY_MS;
+
+export const HISTORY_METRICS = HistoryMetricSchema.options;
+
+export type { HistoryBucket, HistoryMetric, HistoryPoint } from "@bit-auto/shared";
+
+const lastRecorded = new Map<string, number>();
+// Hot in-memory tail so windowed lookups (risk rules) don't have to read files.
+const recent = new Map<string, HistoryPoint[]>();
+let log: FastifyInstance["log"] | null = null;
+
+function isMetric(value: string): value is HistoryMetric {
+  return (HISTORY_METRICS as readonly string[]).includes(value);
+}
+
+function dayKey(ts: number) {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+function seriesDir(symbol: string, metric: HistoryMetric) {
+  return path.join(HISTORY_DIR, symbol, metric);
+}
+
+// One JSONL file per UTC day keeps range reads and retention pruning cheap.
+export function recordSample(
+  symbol: string,
+  metric: HistoryMetric,
+  value: number,
+  ts: number,
+) {
+  if (!Number.isFinite(value)) return;
+
+  const key = `${symbol}:${metric}`;
+  const last = lastRecorded.get(key);
+  if (last !== undefined && ts - last < HISTORY_MIN_INTERVAL_MS) return;
+  lastRecorded.set(key, ts);
+
+  const tail = recent.get(key) ?? [];
+  tail.push({ t: ts, v: value });
+  while (tail.length && tail[0].t < ts - RECENT_WINDOW_MS) tail.shift();
+  recent.set(key, tail);
+
+  const dir = seriesDir(symbol, metric);
+  const line = `${JSON.stringify({ t: ts, v: value })}\n`;
+  mkdir(dir, { recursive: true })
+    .then(() => appendFile(path.join(dir, `${dayKey(ts)}.jsonl`), line))
+    .catch((error) => log?.warn(error, `failed to record ${key} history`));
+}
+
+export function recentSamples(symbol: string, metric: HistoryMetric): readonly HistoryPoint[] {
+  return recent.get(`${symbol}:${metric}`) ?? [];
+}
+
+export async function readHistory(
+  symbol: string,
+  metric: HistoryMetric,
+  from: number,
+  to: number,
+): Promise<HistoryPoint[]> {
+  const dir = seriesDir(symbol, metric);
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const fromDay = dayKey(from);
+  const toDay = dayKey(to);
+  const points: HistoryPoint[] = [];
+
+  for (const file of files.sort()) {
+    const day = file.replace(/\.jsonl$/, "");
+    if (day < fromDay || day > toDay) continue;
+
+    const raw = await readFile(path.join(dir, file), "utf8");
+    for (const line of raw.split("\n")) {
+      if (!line) continue;
+      try {
+        const point = JSON.parse(line) as HistoryPoint;
+        if (point.t >= from && point.t <= to) points.push(point);
+      } catch {
+        // A torn write from a crash only loses that one line.
+      }
+    }
+  }
+
+  return points.sort((a, b) => a.t - b.t);
+}
+
+export function downsample(points: HistoryPoint[], intervalMs: number): HistoryBucket[] {
+  const buckets: HistoryBucket[] = [];
+  let current: (HistoryBucket & { sum: number }) | null = null;
+
+  for (const { t, v } of points) {
+    const bucketTs = Math.floor(t / intervalMs) * intervalMs;
+    if (!current || current.t !== bucketTs) {
+      if (current) buckets.push(finishBucket(current));
+      current = { t: bucketTs, open: v, high: v, low: v, close: v, avg: v, count: 0, sum: 0 };
+    }
+    current.high = Math.max(current.high, v);
+    current.low = Math.min(current.low, v);
+    current.close = v;
+    current.sum += v;
+    current.count += 1;
+  }
+  if (current) buckets.push(finishBucket(current));
+
+  return buckets;
+}
+
+function finishBucket({ sum, ...bucket }: HistoryBucket & { sum: number }): HistoryBucket {
+  return { ...bucket, avg: sum / bucket.count };
+}
+
+export function parseInterval(input: string | undefined): number | null {
+  if (!input) return null;
+  const match = /^(\d+)(ms|s|m|h|d)?$/.exec(input.trim());
+  if (!match) return NaN;
+
+  const n = Number(match[1]);
+  const unit = match[2] ?? "ms";
+  const factor =
+    unit === "s" ? 1000 : unit === "m" ? 60_000 : unit === "h" ? 3_600_000 : unit === "d" ? DAY_MS : 1;
+  return n * factor;
+}
+
+export function parseTime(input: string | undefined, fallback: number) {
+  if (!input) return fallback;
+  const n = Number(input);
+  if (Number.isFinite(n)) return n < 10_000_000_000 ? n * 1000 : n;
+  return Date.parse(input);
+}
+
+async function pruneHistory() {
+  const cutoff = dayKey(Date.now() - HISTORY_RETENTION_DAYS * DAY_MS);
+  let symbols: string[];
+  try {
+    symbols = await readdir(HISTORY_DIR);
+  } catch {
+    return;
+  }
+
+  for (const symbol of symbols) {
+    for (const metric of HISTORY_METRICS) {
+      const dir = seriesDir(symbol, metric);
+      const files = await readdir(dir).catch(() => [] as string[]);
+      for (const file of files) {
+        if (file.replace(/\.jsonl$/, "") < cutoff) {
+          await rm(path.join(dir, file), { force: true });
+        }
+      }
+    }
+  }
+}
+
+type HistoryParams = { metric: string };
+type HistoryQuery = {
+  symbol?: string;
+  from?: string;
+  to?: string;
+  interval?: string;
+  agg?: string;
+};
+
+export function registerHistoryRoutes(app: FastifyInstance) {
+  log = app.log;
+
+  app.get<{ Params: HistoryParams; Querystring: HistoryQuery }>(
+    "/api/history/:metric",
+    async (request, reply) => {
+      const { metric } = request.params;
+      if (!isMetric(metric)) {
+        reply.code(400);
+        return { error: "invalid_metric", metrics: HISTORY_METRICS };
+      }
+
+      const info = resolveSymbol(request.query.symbol);
+      if (!info) {
+        reply.code(404);
+        return { error: "unknown_symbol" };
+      }
+
+      const now = Date.now();
+      const to = parseTime(request.query.to, now);
+      const from = parseTime(request.query.from, to - DAY_MS);
+      const intervalMs = parseInterval(request.query.interval);
+      if (!Number.isFinite(from) || !Number.isFinite(to) || from > to) {
+        reply.code(400);
+        return { error: "invalid_range" };
+      }
+      // Samples are at least HISTORY_MIN_INTERVAL_MS apart, so finer buckets would just be the raw
+      // points again.
+      if (intervalMs !== null && !(intervalMs >= HISTORY_MIN_INTERVAL_MS)) {
+        reply.code(400);
+        return { error: "invalid_interval", minIntervalMs: HISTORY_MIN_INTERVAL_MS };
+      }
+
+      const points = await readHistory(info.symbol, metric, from, to);
+      const base = { symbol: info.symbol, metric, from, to };
+
+      if (intervalMs === null) {
+        return {
+          ...base,
+          points: points.slice(-MAX_RAW_POINTS),
+          truncated: points.length > MAX_RAW_POINTS,
+        };
+      }
+
+      // Buckets get the same cap as raw points, keeping the most recent ones.
+      const all = downsample(points, intervalMs);
+      const buckets = all.slice(-MAX_RAW_POINTS);
+      const truncated = all.length > MAX_RAW_POINTS;
+      if (request.query.agg === "avg") {
+        return {
+          ...base,
+          interval: intervalMs,
+          agg: "avg" as const,
+          points: buckets.map((b) => ({ t: b.t, v: b.avg, count: b.count })),
+          truncated,
+        };
+      }
+      return { ...base, interval: intervalMs, agg: "ohlc" as const, buckets, truncated };
+    },
+  );
+
+  void pruneHistory();
+  const pruneTimer = setInterval(() => void pruneHistory(), PRUNE_INTERVAL_MS);
+  pruneTimer.unref();
+}
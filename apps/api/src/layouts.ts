@@ -0,0 +1,176 @@
+import { randomUUID } from "node:crypto";
+import {
+  LayoutInputSchema,
+  LayoutPatchSchema,
+  type Layout,
+  type Widget,
+  type WidgetKind,
+} from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import type { z } from "zod";
+import { readJsonFile, writeJsonFile } from "./storage";
+import { resolveSymbol } from "./symbols";
+
+const LAYOUTS_FILE = "layouts.json";
+
+export type { Layout, Widget, WidgetKind } from "@bit-auto/shared";
+
+type WidgetInput = { id?: string; kind: WidgetKind; symbol: string };
+
+class LayoutValidationError extends Error {}
+
+let layouts: Layout[] = [];
+let loaded: Promise<void> | null = null;
+let log: FastifyInstance["log"] | null = null;
+
+function ensureLoaded() {
+  loaded ??= readJsonFile<Layout[]>(LAYOUTS_FILE, []).then((stored) => {
+    layouts = stored;
+  });
+  return loaded;
+}
+
+function persist() {
+  return writeJsonFile(LAYOUTS_FILE, layouts).catch((error) =>
+    log?.error(error, "failed to persist layouts"),
+  );
+}
+
+function invalid(message: string): never {
+  throw new LayoutValidationError(message);
+}
+
+function check<T extends z.ZodTypeAny>(schema: T, value: unknown): z.output<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    invalid(`${issue.path.join(".") || "body"}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+// Symbols are stored canonical; missing or repeated widget ids get fresh ones.
+function normalizeWidgets(widgets: WidgetInput[]): Widget[] {
+  const seen = new Set<string>();
+  return widgets.map((widget, i) => {
+    const info = resolveSymbol(widget.symbol);
+    if (!info) invalid(`widgets.${i}.symbol: unknown symbol ${widget.symbol}`);
+    const id = widget.id && !seen.has(widget.id) ? widget.id : randomUUID();
+    seen.add(id);
+    return { id, kind: widget.kind, symbol: info.symbol };
+  });
+}
+
+// Own layouts first, then the ones teammates shared, most recently edited first.
+function visibleTo(owner: string | undefined) {
+  return layouts
+    .filter((layout) => layout.owner === owner || layout.shared)
+    .sort(
+      (a, b) =>
+        Number(b.owner === owner) - Number(a.owner === owner) || b.updatedAt - a.updatedAt,
+    );
+}
+
+type LayoutParams = { id: string };
+type LayoutQuery = { owner?: string };
+
+export function registerLayoutRoutes(app: FastifyInstance) {
+  log = app.log;
+
+  ensureLoaded().catch((error) => app.log.error(error, "failed to load layouts"));
+
+  app.get<{ Querystring: LayoutQuery }>("/api/layouts", async (request) => {
+    await ensureLoaded();
+    return { layouts: visibleTo(request.query.owner || undefined) };
+  });
+
+  app.get<{ Params: LayoutParams }>("/api/layouts/:id", async (request, reply) => {
+    await ensureLoaded();
+    const layout = layouts.find((l) => l.id === request.params.id);
+    if (!layout) {
+      reply.code(404);
+      return { error: "not_found" };
+    }
+    return layout;
+  });
+
+  app.post<{ Body: unknown }>("/api/layouts", async (request, reply) => {
+    await ensureLoaded();
+    try {
+      const input = check(LayoutInputSchema, request.body ?? {});
+      const now = Date.now();
+      const layout: Layout = {
+        id: randomUUID(),
+        name: input.name,
+        owner: input.owner,
+        shared: input.shared,
+        widgets: normalizeWidgets(input.widgets),
+        createdAt: now,
+        updatedAt: now,
+      };
+      layouts.push(layout);
+      await persist();
+      reply.code(201);
+      return layout;
+    } catch (error) {
+      if (!(error instanceof LayoutValidationError)) throw error;
+      reply.code(400);
+      return { error: "invalid_layout", detail: error.message };
+    }
+  });
+
+  // Edits name the acting profile with `?owner=`, so one teammate can't overwrite another's
+  // shared layout by accident.
+  app.patch<{ Params: LayoutParams; Querystring: LayoutQuery; Body: unknown }>(
+    "/api/layouts/:id",
+    async (request, reply) => {
+      await ensureLoaded();
+      const index = layouts.findIndex((l) => l.id === request.params.id);
+      if (index < 0) {
+        reply.code(404);
+        return { error: "not_found" };
+      }
+      const existing = layouts[index];
+      if (existing.owner !== request.query.owner) {
+        reply.code(403);
+        return { error: "not_owner" };
+      }
+      try {
+        const patch = check(LayoutPatchSchema, request.body ?? {});
+        layouts[index] = {
+          ...existing,
+          name: patch.name ?? existing.name,
+          shared: patch.shared ?? existing.shared,
+          widgets: patch.widgets ? normalizeWidgets(patch.widgets) : existing.widgets,
+          updatedAt: Date.now(),
+        };
+        await persist();
+        return layouts[index];
+      } catch (error) {
+        if (!(error instanceof LayoutValidationError)) throw error;
+        reply.code(400);
+        return { error: "invalid_layout", detail: error.message };
+      }
+    },
+  );
+
+  app.delete<{ Params: LayoutParams; Querystring: LayoutQuery }>(
+    "/api/layouts/:id",
+    async (request, reply) => {
+      await ensureLoaded();
+      const index = layouts.findIndex((l) => l.id === request.params.id);
+      if (index < 0) {
+        reply.code(404);
+        return { error: "not_found" };
+      }
+      if (layouts[index].owner !== request.query.owner) {
+        reply.code(403);
+        return { error: "not_owner" };
+      }
+      layouts.splice(index, 1);
+      await persist();
+      reply.code(204);
+      return null;
+    },
+  );
+}
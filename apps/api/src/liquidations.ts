@@ -0,0 +1,320 @@
+import { appendFile, mkdir, readdir, readFile, rm } from "node:fs/promises";
+import path from "node:path";
+import {
+  BinanceForceOrderSchema,
+  LiquidationWindowSchema,
+  type LiquidationBucket,
+  type LiquidationEvent,
+  type LiquidationTotals,
+  type LiquidationWindow,
+  type LiquidationsResponse,
+} from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import WebSocket from "ws";
+import { DATA_DIR } from "./storage";
+import { listSymbols, resolveSymbol } from "./symbols";
+import { parsePayload } from "./upstream";
+
+const BINANCE_FUTURES_STREAM_BASE =
+  process.env.BINANCE_FUTURES_STREAM_BASE || "wss://fstream.binance.com";
+const LIQUIDATION_UPSTREAM: LiquidationsResponse["upstream"] =
+  process.env.LIQUIDATION_UPSTREAM === "fixture" || process.env.LIQUIDATION_UPSTREAM === "off"
+    ? process.env.LIQUIDATION_UPSTREAM
+    : "binance";
+// Replayed fixture events are fake; they get their own directory so real history stays clean.
+const LIQUIDATIONS_DIR = path.join(
+  DATA_DIR,
+  LIQUIDATION_UPSTREAM === "fixture" ? "liquidations-fixture" : "liquidations",
+);
+const LIQUIDATION_FIXTURE = path.resolve(
+  process.env.LIQUIDATION_FIXTURE ||
+    path.join(__dirname, "../fixtures/binance-force-orders.jsonl"),
+);
+const LIQUIDATION_RETENTION_DAYS = Number(process.env.LIQUIDATION_RETENTION_DAYS || 7);
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WINDOW_MS: Record<LiquidationWindow, number> = { "1h": HOUR_MS, "4h": 4 * HOUR_MS, "24h": DAY_MS };
+const RECONNECT_MS = 10_000;
+const FIXTURE_INTERVAL_MS = 1000;
+const PRUNE_INTERVAL_MS = 6 * HOUR_MS;
+const RECENT_LIMIT = 50;
+// Auto bucket width aims for roughly this fraction of the last traded price.
+const AUTO_BUCKET_FRACTION = 0.0025;
+
+const buffers = new Map<string, LiquidationEvent[]>();
+let socket: WebSocket | null = null;
+let socketOpen = false;
+let reconnectTimer: NodeJS.Timeout | null = null;
+let fixtureTimer: NodeJS.Timeout | null = null;
+let pruneTimer: NodeJS.Timeout | null = null;
+// Set once the server closes so a late restore or socket close doesn't start anything again.
+let stopped = false;
+let log: FastifyInstance["log"] | null = null;
+
+function dayKey(ts: number) {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+function symbolDir(symbol: string) {
+  return path.join(LIQUIDATIONS_DIR, symbol);
+}
+
+function trim(events: LiquidationEvent[], now: number) {
+  while (events.length && events[0].ts < now - DAY_MS) events.shift();
+}
+
+export function recordLiquidation(event: LiquidationEvent, persist = true) {
+  const events = buffers.get(event.symbol) ?? [];
+  events.push(event);
+  // Stream events arrive in order; a restored or late event is rare enough to sort in place.
+  if (events.length > 1 && events[events.length - 2].ts > event.ts) {
+    events.sort((a, b) => a.ts - b.ts);
+  }
+  trim(events, Date.now());
+  buffers.set(event.symbol, events);
+
+  if (!persist) return;
+  const dir = symbolDir(event.symbol);
+  mkdir(dir, { recursive: true })
+    .then(() => appendFile(path.join(dir, `${dayKey(event.ts)}.jsonl`), `${JSON.stringify(event)}\n`))
+    .catch((error) => log?.warn(error, `failed to persist ${event.symbol} liquidation`));
+}
+
+// A SELL force order closes a long. Null for symbols we don't track or orders with no fill; throws
+// on malformed messages.
+export function parseForceOrder(raw: WebSocket.RawData | string, ts?: number) {
+  const { o } = parsePayload(BinanceForceOrderSchema, JSON.parse(raw.toString()), "forceOrder");
+  const info = resolveSymbol(o.s);
+  if (!info || !(o.z > 0)) return null;
+
+  const event: LiquidationEvent = {
+    symbol: info.symbol,
+    side: o.S === "SELL" ? "long" : "short",
+    price: o.ap,
+    qty: o.z,
+    notional: o.ap * o.z,
+    ts: ts ?? o.T,
+  };
+  return event;
+}
+
+function handleForceOrder(raw: WebSocket.RawData | string, ts?: number) {
+  try {
+    const event = parseForceOrder(raw, ts);
+    if (event) recordLiquidation(event);
+  } catch (error) {
+    log?.warn(error, "failed to parse forceOrder message");
+  }
+}
+
+function connectUpstream() {
+  if (socket || stopped) return;
+
+  const streams = listSymbols()
+    .map((info) => `${info.binance.toLowerCase()}@forceOrder`)
+    .join("/");
+  const ws = new WebSocket(`${BINANCE_FUTURES_STREAM_BASE}/stream?streams=${streams}`);
+  socket = ws;
+
+  ws.on("open", () => {
+    socketOpen = true;
+    log?.info("binance forceOrder stream connected");
+  });
+  ws.on("message", (raw) => handleForceOrder(raw));
+  ws.on("error", (error) => {
+    log?.warn(error, "binance forceOrder stream error");
+  });
+  ws.on("close", () => {
+    socket = null;
+    socketOpen = false;
+    if (stopped || reconnectTimer) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connectUpstream();
+    }, RECONNECT_MS);
+    reconnectTimer.unref();
+  });
+}
+
+// Replays recorded stream messages in a loop, restamped to now, for offline development.
+async function startFixture() {
+  const raw = await readFile(LIQUIDATION_FIXTURE, "utf8");
+  const messages = raw.split("\n").filter(Boolean);
+  if (messages.length === 0 || stopped) return;
+
+  let next = 0;
+  fixtureTimer = setInterval(() => {
+    handleForceOrder(messages[next], Date.now());
+    next = (next + 1) % messages.length;
+  }, FIXTURE_INTERVAL_MS);
+  fixtureTimer.unref();
+  log?.info(`replaying ${messages.length} liquidations from ${LIQUIDATION_FIXTURE}`);
+}
+
+function stopUpstream() {
+  stopped = true;
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  if (fixtureTimer) clearInterval(fixtureTimer);
+  if (pruneTimer) clearInterval(pruneTimer);
+  reconnectTimer = fixtureTimer = pruneTimer = null;
+  if (socket) {
+    socket.close();
+    socket = null;
+    socketOpen = false;
+  }
+}
+
+async function restoreBuffers() {
+  const now = Date.now();
+  const days = new Set([dayKey(now - DAY_MS), dayKey(now)]);
+
+  for (const { symbol } of listSymbols()) {
+    for (const day of days) {
+      const raw = await readFile(path.join(symbolDir(symbol), `${day}.jsonl`), "utf8").catch(
+        () => "",
+      );
+      for (const line of raw.split("\n")) {
+        if (!line) continue;
+        try {
+          const event = JSON.parse(line) as LiquidationEvent;
+          if (event.ts >= now - DAY_MS) recordLiquidation(event, false);
+        } catch {
+          // A torn write from a crash only loses that one line.
+        }
+      }
+    }
+  }
+}
+
+async function pruneFiles() {
+  const cutoff = dayKey(Date.now() - LIQUIDATION_RETENTION_DAYS * DAY_MS);
+  const symbols = await readdir(LIQUIDATIONS_DIR).catch(() => [] as string[]);
+  for (const symbol of symbols) {
+    const files = await readdir(symbolDir(symbol)).catch(() => [] as string[]);
+    for (const file of files) {
+      if (file.replace(/\.jsonl$/, "") < cutoff) {
+        await rm(path.join(symbolDir(symbol), file), { force: true });
+      }
+    }
+  }
+}
+
+function emptyTotals(): LiquidationTotals {
+  return {
+    long: { count: 0, qty: 0, notional: 0 },
+    short: { count: 0, qty: 0, notional: 0 },
+  };
+}
+
+export function liquidationTotals(events: readonly LiquidationEvent[], from: number) {
+  const totals = emptyTotals();
+  for (const event of events) {
+    if (event.ts < from) continue;
+    const side = totals[event.side];
+    side.count += 1;
+    side.qty += event.qty;
+    side.notional += event.notional;
+  }
+  return totals;
+}
+
+// Rounds to a 1/2/5 step so bucket edges read cleanly (e.g. 100, 200, 500).
+export function autoBucketSize(price: number) {
+  const target = price * AUTO_BUCKET_FRACTION;
+  if (!(target > 0)) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(target));
+  const step = [1, 2, 5, 10].find((m) => m * magnitude >= target) ?? 10;
+  return step * magnitude;
+}
+
+export function bucketLiquidations(
+  events: readonly LiquidationEvent[],
+  from: number,
+  bucketSize: number,
+): LiquidationBucket[] {
+  const buckets = new Map<number, LiquidationBucket>();
+  for (const event of events) {
+    if (event.ts < from) continue;
+    // Round the edge to the bucket's precision so float noise doesn't split buckets.
+    const edge = Number((Math.floor(event.price / bucketSize) * bucketSize).toPrecision(12));
+    const bucket = buckets.get(edge) ?? { price: edge, longNotional: 0, shortNotional: 0, count: 0 };
+    if (event.side === "long") bucket.longNotional += event.notional;
+    else bucket.shortNotional += event.notional;
+    bucket.count += 1;
+    buckets.set(edge, bucket);
+  }
+  return [...buckets.values()].sort((a, b) => b.price - a.price);
+}
+
+type LiquidationParams = { symbol: string };
+type LiquidationQuery = { window?: string; bucket?: string };
+
+export function registerLiquidationRoutes(app: FastifyInstance) {
+  log = app.log;
+  stopped = false;
+
+  restoreBuffers()
+    .catch((error) => app.log.warn(error, "failed to restore liquidations"))
+    .then(() => {
+      if (LIQUIDATION_UPSTREAM === "binance") connectUpstream();
+      if (LIQUIDATION_UPSTREAM === "fixture") {
+        return startFixture().catch((error) =>
+          app.log.error(error, "failed to load liquidation fixture"),
+        );
+      }
+    });
+
+  void pruneFiles();
+  pruneTimer = setInterval(() => void pruneFiles(), PRUNE_INTERVAL_MS);
+  pruneTimer.unref();
+  app.addHook("onClose", async () => {
+    stopUpstream();
+  });
+
+  app.get<{ Params: LiquidationParams; Querystring: LiquidationQuery }>(
+    "/api/market/:symbol/liquidations",
+    async (request, reply) => {
+      const info = resolveSymbol(request.params.symbol);
+      if (!info) {
+        reply.code(404);
+        return { error: "unknown_symbol" };
+      }
+
+      const window = LiquidationWindowSchema.safeParse(request.query.window ?? "24h");
+      if (!window.success) {
+        reply.code(400);
+        return { error: "invalid_window", windows: LiquidationWindowSchema.options };
+      }
+
+      const now = Date.now();
+      const events = buffers.get(info.symbol) ?? [];
+      trim(events, now);
+
+      const bucketSize =
+        request.query.bucket !== undefined
+          ? Number(request.query.bucket)
+          : autoBucketSize(events[events.length - 1]?.price ?? 0);
+      if (!(bucketSize > 0)) {
+        reply.code(400);
+        return { error: "invalid_bucket" };
+      }
+
+      const body: LiquidationsResponse = {
+        symbol: info.symbol,
+        totals: {
+          "1h": liquidationTotals(events, now - WINDOW_MS["1h"]),
+          "4h": liquidationTotals(events, now - WINDOW_MS["4h"]),
+          "24h": liquidationTotals(events, now - WINDOW_MS["24h"]),
+        },
+        window: window.data,
+        bucketSize,
+        buckets: bucketLiquidations(events, now - WINDOW_MS[window.data], bucketSize),
+        recent: events.slice(-RECENT_LIMIT).reverse(),
+        upstream: LIQUIDATION_UPSTREAM,
+        connected: LIQUIDATION_UPSTREAM === "fixture" || socketOpen,
+        ts: now,
+      };
+      return body;
+    },
+  );
+}
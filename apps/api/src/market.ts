@@ -0,0 +1,263 @@
+import {
+  type PremiumLeg,
+  type PremiumLegs,
+  type PremiumPayload,
+  type PricePayload,
+  type RiskPayload,
+} from "@bit-auto/shared";
+import { cached, refreshCached, writeCached, type CachePolicy, type CacheResult } from "./cache";
+import { binance, coinbase, upbit, type ExchangeAdapter } from "./exchanges";
+import { fetchFxRate } from "./fx";
+import { recordSample } from "./history";
+import { observeMarketUpdate } from "./metrics";
+import { evaluateLiveRisk } from "./risk-rules";
+import type { SymbolInfo } from "./symbols";
+
+export const CACHE_TTL_MS = 5000;
+// A spot leg that keeps failing is still used for this long before its premium goes blank.
+const PREMIUM_LEG_MAX_AGE_MS = Number(process.env.PREMIUM_LEG_MAX_AGE_MS || 10 * 60_000);
+
+export type {
+  PremiumLeg,
+  PremiumLegs,
+  PremiumPayload,
+  PricePayload,
+  RiskPayload,
+} from "@bit-auto/shared";
+
+type PriceValue = Omit<PricePayload, "cached" | "stale">;
+
+type RiskValue = Omit<RiskPayload, "source">;
+
+type SpotLeg = Exclude<keyof PremiumLegs, "usdKrw">;
+
+// Background refresh cadence per source; each cache TTL allows for one missed run.
+export const REFRESH_MS = {
+  price: 2000,
+  premium: 5000,
+  risk: 30_000,
+} as const;
+
+const PRICE_POLICY: CachePolicy = { ttlMs: CACHE_TTL_MS };
+
+const RISK_POLICY: CachePolicy = { ttlMs: 2 * REFRESH_MS.risk };
+
+const SPOT_LEG_POLICY: CachePolicy = {
+  ttlMs: 2 * REFRESH_MS.premium,
+  staleIfErrorMs: PREMIUM_LEG_MAX_AGE_MS,
+};
+
+const SPOT_LEG_VENUES: Record<SpotLeg, ExchangeAdapter> = {
+  upbitKrw: upbit,
+  binanceUsd: binance,
+  coinbaseUsd: coinbase,
+};
+
+// Newest input fetch already reported per `<SYMBOL>:<premium>`.
+const premiumReportedAt = new Map<string, number>();
+
+export type MarketUpdate =
+  | { kind: "price"; symbol: string; data: PricePayload }
+  | { kind: "risk"; symbol: string; data: RiskPayload }
+  | { kind: "premium"; symbol: string; data: PremiumPayload };
+
+type MarketListener = (update: MarketUpdate) => void;
+
+const listeners = new Set<MarketListener>();
+
+// Fired once per fresh upstream value, never for cache hits or stale fallbacks.
+// Premium updates carry `null` for whichever premium had no fresh inputs this round.
+export function onMarketUpdate(listener: MarketListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function emitUpdate(update: MarketUpdate) {
+  observeMarketUpdate(update);
+  for (const listener of listeners) {
+    try {
+      listener(update);
+    } catch {
+      // A misbehaving listener must not break the fetch path.
+    }
+  }
+}
+
+function publishPrice(info: SymbolInfo, value: PriceValue) {
+  recordSample(info.symbol, "price", value.price, value.fetchedAt);
+  const payload = { ...value, cached: false, stale: false };
+  emitUpdate({ kind: "price", symbol: info.symbol, data: payload });
+  return payload;
+}
+
+function priceValue(info: SymbolInfo, price: number, fetchedAt: number): PriceValue {
+  return { symbol: info.symbol, currency: "USDT", price, source: "binance", fetchedAt };
+}
+
+// Also used by the stream upstream so websocket ticks keep the REST cache warm.
+export function storePrice(info: SymbolInfo, price: number, fetchedAt: number): PricePayload {
+  const value = priceValue(info, price, fetchedAt);
+  void writeCached(`price:${info.symbol}`, value, fetchedAt, PRICE_POLICY);
+  return publishPrice(info, value);
+}
+
+async function loadPrice(info: SymbolInfo) {
+  const { price } = await binance.fetchSpot(info);
+  const value = priceValue(info, price, Date.now());
+  publishPrice(info, value);
+  return value;
+}
+
+export async function fetchPrice(info: SymbolInfo): Promise<PricePayload> {
+  const result = await cached(`price:${info.symbol}`, PRICE_POLICY, () => loadPrice(info));
+  return { ...result.value, cached: result.cached, stale: result.stale };
+}
+
+// Background refreshes skip values another instance wrote within half a cadence; `force` doesn't.
+export function refreshPrice(info: SymbolInfo, force = false) {
+  const minAgeMs = force ? 0 : REFRESH_MS.price / 2;
+  return refreshCached(`price:${info.symbol}`, PRICE_POLICY, () => loadPrice(info), minAgeMs);
+}
+
+async function loadRisk(info: SymbolInfo): Promise<RiskValue> {
+  const [funding, oi] = await Promise.all([
+    binance.fetchFunding!(info),
+    binance.fetchOpenInterest!(info),
+  ]);
+
+  const fundingRate = funding.rate;
+  const openInterest = oi.openInterest;
+  const { level, reasons, score } = evaluateLiveRisk(info.symbol, fundingRate, openInterest);
+  const risk = { level, reasons, score };
+
+  const ts = Date.now();
+  const value = { symbol: info.binance, fundingRate, openInterest, risk, ts };
+  recordSample(info.symbol, "funding", fundingRate, ts);
+  recordSample(info.symbol, "openInterest", openInterest, ts);
+  emitUpdate({ kind: "risk", symbol: info.symbol, data: { ...value, source: "binance" } });
+  return value;
+}
+
+export async function fetchRisk(info: SymbolInfo): Promise<RiskPayload> {
+  const result = await cached(`risk:${info.symbol}`, RISK_POLICY, () => loadRisk(info));
+  const source = !result.cached ? "binance" : result.stale ? "stale-cache" : "cache";
+  return { ...result.value, source };
+}
+
+export function refreshRisk(info: SymbolInfo, force = false) {
+  const minAgeMs = force ? 0 : REFRESH_MS.risk / 2;
+  return refreshCached(`risk:${info.symbol}`, RISK_POLICY, () => loadRisk(info), minAgeMs);
+}
+
+async function toLeg(read: Promise<CacheResult<number>>): Promise<PremiumLeg> {
+  try {
+    const result = await read;
+    return {
+      value: result.value,
+      fetchedAt: result.fetchedAt,
+      ageMs: Date.now() - result.fetchedAt,
+      cached: result.cached,
+      stale: result.stale,
+      error: result.error,
+    };
+  } catch (error) {
+    return {
+      value: null,
+      fetchedAt: null,
+      ageMs: null,
+      cached: false,
+      stale: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function loadLeg(key: string, policy: CachePolicy, load: () => Promise<number>) {
+  return toLeg(cached(`premium:${key}`, policy, load));
+}
+
+function spotLegLoader(info: SymbolInfo, leg: SpotLeg) {
+  return () => SPOT_LEG_VENUES[leg].fetchSpot(info).then((quote) => quote.price);
+}
+
+// New once every input is usable and at least one was fetched after the last report.
+function isNewPremium(key: string, ...legs: PremiumLeg[]) {
+  if (!legs.every((leg) => leg.value !== null && !leg.stale)) return false;
+  const newest = Math.max(...legs.map((leg) => leg.fetchedAt ?? 0));
+  if (newest <= (premiumReportedAt.get(key) ?? 0)) return false;
+  premiumReportedAt.set(key, newest);
+  return true;
+}
+
+export async function fetchPremium(info: SymbolInfo): Promise<PremiumPayload> {
+  // Each leg is cached and falls back on its own, so one broken venue only blanks the premium it feeds.
+  const [upbitKrw, binanceUsd, coinbaseUsd, usdKrw] = await Promise.all([
+    loadLeg(`upbitKrw:${info.symbol}`, SPOT_LEG_POLICY, spotLegLoader(info, "upbitKrw")),
+    loadLeg(`binanceUsd:${info.symbol}`, SPOT_LEG_POLICY, spotLegLoader(info, "binanceUsd")),
+    loadLeg(`coinbaseUsd:${info.symbol}`, SPOT_LEG_POLICY, spotLegLoader(info, "coinbaseUsd")),
+    toLeg(fetchFxRate("KRW")),
+  ]);
+  const legs = { upbitKrw, binanceUsd, coinbaseUsd, usdKrw };
+
+  const kimchiPremium =
+    upbitKrw.value !== null && binanceUsd.value !== null && usdKrw.value !== null
+      ? upbitKrw.value / (binanceUsd.value * usdKrw.value) - 1
+      : null;
+  const coinbasePremium =
+    coinbaseUsd.value !== null && binanceUsd.value !== null
+      ? coinbaseUsd.value / binanceUsd.value - 1
+      : null;
+
+  const ts = Date.now();
+  const used = Object.values(legs).filter((leg) => leg.value !== null);
+  const payload: PremiumPayload = {
+    symbol: info.symbol,
+    kimchiPremium,
+    coinbasePremium,
+    legs,
+    source: "binance+upbit+coinbase",
+    ts,
+    cached: used.length > 0 && used.every((leg) => leg.cached),
+    stale: used.some((leg) => leg.stale),
+  };
+
+  const kimchiFresh =
+    kimchiPremium !== null && isNewPremium(`${info.symbol}:kimchi`, upbitKrw, binanceUsd, usdKrw);
+  const coinbaseFresh =
+    coinbasePremium !== null && isNewPremium(`${info.symbol}:coinbase`, coinbaseUsd, binanceUsd);
+  if (kimchiFresh) recordSample(info.symbol, "kimchiPremium", kimchiPremium, ts);
+  if (coinbaseFresh) recordSample(info.symbol, "coinbasePremium", coinbasePremium, ts);
+  if (kimchiFresh || coinbaseFresh) {
+    emitUpdate({
+      kind: "premium",
+      symbol: info.symbol,
+      data: {
+        ...payload,
+        kimchiPremium: kimchiFresh ? kimchiPremium : null,
+        coinbasePremium: coinbaseFresh ? coinbasePremium : null,
+      },
+    });
+  }
+  return payload;
+}
+
+// Refreshes the spot legs, then recomputes so new premiums are sampled and published.
+export async function refreshPremium(info: SymbolInfo, force = false) {
+  const legs = Object.keys(SPOT_LEG_VENUES) as SpotLeg[];
+  const results = await Promise.allSettled(
+    legs.map((leg) =>
+      refreshCached(
+        `premium:${leg}:${info.symbol}`,
+        SPOT_LEG_POLICY,
+        spotLegLoader(info, leg),
+        force ? 0 : REFRESH_MS.premium / 2,
+      ),
+    ),
+  );
+  await fetchPremium(info);
+
+  const failed = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+  if (failed) throw failed.reason;
+}
@@ -0,0 +1,194 @@
+import type { FastifyInstance } from "fastify";
+import type { MarketUpdate } from "./market";
+
+// Kept free of runtime imports from other app modules: cache and upstream record into it, so
+// importing anything that depends on them would be a cycle.
+
+const PREFIX = "bit_auto_";
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const RISK_LEVEL_VALUES = { OK: 0, WARN: 1, DANGER: 2 } as const;
+
+export type Labels = Record<string, string>;
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  lines(): string[];
+};
+
+const registry = new Map<string, Metric>();
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function register(metric: Metric) {
+  if (registry.has(metric.name)) throw new Error(`metric ${metric.name} registered twice`);
+  registry.set(metric.name, metric);
+}
+
+function valueLines(name: string, series: Map<string, { labels: Labels; value: number }>) {
+  return [...series.values()].map((s) => `${name}${formatLabels(s.labels)} ${s.value}`);
+}
+
+// Series are keyed by label values, so callers must pass labels in a consistent order.
+function seriesKey(labels: Labels) {
+  return JSON.stringify(labels);
+}
+
+export function counter(name: string, help: string) {
+  const fullName = PREFIX + name;
+  const series = new Map<string, { labels: Labels; value: number }>();
+  register({
+    name: fullName,
+    help,
+    type: "counter",
+    lines: () => valueLines(fullName, series),
+  });
+
+  return {
+    inc(labels: Labels = {}, by = 1) {
+      const key = seriesKey(labels);
+      const entry = series.get(key);
+      if (entry) entry.value += by;
+      else series.set(key, { labels, value: by });
+    },
+  };
+}
+
+export function gauge(name: string, help: string) {
+  const fullName = PREFIX + name;
+  const series = new Map<string, { labels: Labels; value: number }>();
+  register({
+    name: fullName,
+    help,
+    type: "gauge",
+    lines: () => valueLines(fullName, series),
+  });
+
+  return {
+    set(labels: Labels, value: number) {
+      if (!Number.isFinite(value)) return;
+      series.set(seriesKey(labels), { labels, value });
+    },
+  };
+}
+
+export function histogram(name: string, help: string, buckets = DEFAULT_BUCKETS) {
+  const fullName = PREFIX + name;
+  type Series = { labels: Labels; counts: number[]; sum: number; count: number };
+  const series = new Map<string, Series>();
+  const bucketLine = (s: Series, le: string, count: number) =>
+    `${fullName}_bucket${formatLabels({ ...s.labels, le })} ${count}`;
+  register({
+    name: fullName,
+    help,
+    type: "histogram",
+    lines: () =>
+      [...series.values()].flatMap((s) => [
+        ...buckets.map((le, i) => bucketLine(s, String(le), s.counts[i])),
+        bucketLine(s, "+Inf", s.count),
+        `${fullName}_sum${formatLabels(s.labels)} ${s.sum}`,
+        `${fullName}_count${formatLabels(s.labels)} ${s.count}`,
+      ]),
+  });
+
+  return {
+    observe(labels: Labels, value: number) {
+      const key = seriesKey(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      // Buckets are cumulative: every bucket at or above the value counts it.
+      buckets.forEach((le, i) => {
+        if (value <= le) entry.counts[i] += 1;
+      });
+      entry.sum += value;
+      entry.count += 1;
+    },
+  };
+}
+
+const httpRequests = counter("http_requests_total", "HTTP requests served, by route and status.");
+const httpDuration = histogram("http_request_duration_seconds", "HTTP response time by route.");
+const processMemory = gauge("process_resident_memory_bytes", "Resident set size.");
+const processHeap = gauge("process_heap_used_bytes", "V8 heap in use.");
+const processUptime = gauge("process_uptime_seconds", "Seconds since the process started.");
+
+const marketPrice = gauge("market_price_usd", "Latest Binance spot price.");
+const marketFunding = gauge("market_funding_rate", "Latest perpetual funding rate.");
+const marketOpenInterest = gauge("market_open_interest", "Latest open interest, in coins.");
+const marketRiskLevel = gauge("market_risk_level", "Latest risk level: 0 OK, 1 WARN, 2 DANGER.");
+const marketRiskScore = gauge("market_risk_score", "Latest risk rule score.");
+const marketPremium = gauge("market_premium_ratio", "Latest premium vs Binance, e.g. 0.02 = 2%.");
+const marketUpdatedAt = gauge(
+  "market_last_update_timestamp_seconds",
+  "When each kind of market data was last fetched fresh.",
+);
+
+// Fed from market.ts for every fresh upstream value, never for cache hits.
+export function observeMarketUpdate(update: MarketUpdate) {
+  const { symbol } = update;
+  switch (update.kind) {
+    case "price":
+      marketPrice.set({ symbol }, update.data.price);
+      marketUpdatedAt.set({ symbol, kind: "price" }, update.data.fetchedAt / 1000);
+      break;
+    case "risk":
+      marketFunding.set({ symbol }, update.data.fundingRate);
+      marketOpenInterest.set({ symbol }, update.data.openInterest);
+      marketRiskLevel.set({ symbol }, RISK_LEVEL_VALUES[update.data.risk.level]);
+      marketRiskScore.set({ symbol }, update.data.risk.score);
+      marketUpdatedAt.set({ symbol, kind: "risk" }, update.data.ts / 1000);
+      break;
+    case "premium":
+      if (update.data.kimchiPremium !== null) {
+        marketPremium.set({ symbol, premium: "kimchi" }, update.data.kimchiPremium);
+      }
+      if (update.data.coinbasePremium !== null) {
+        marketPremium.set({ symbol, premium: "coinbase" }, update.data.coinbasePremium);
+      }
+      marketUpdatedAt.set({ symbol, kind: "premium" }, update.data.ts / 1000);
+      break;
+  }
+}
+
+// Prometheus text exposition format 0.0.4.
+export function renderMetrics() {
+  const memory = process.memoryUsage();
+  processMemory.set({}, memory.rss);
+  processHeap.set({}, memory.heapUsed);
+  processUptime.set({}, process.uptime());
+
+  const blocks = [...registry.values()].map((metric) =>
+    [
+      `# HELP ${metric.name} ${metric.help}`,
+      `# TYPE ${metric.name} ${metric.type}`,
+      ...metric.lines(),
+    ].join("\n"),
+  );
+  return `${blocks.join("\n")}\n`;
+}
+
+// Register before other routes so the response hook sees every request.
+export function registerMetricsRoutes(app: FastifyInstance) {
+  app.addHook("onResponse", async (request, reply) => {
+    // Route patterns, not raw URLs, so ids and symbols in paths don't explode the series count.
+    const route = request.routeOptions.url ?? "unmatched";
+    httpRequests.inc({ method: request.method, route, status: String(reply.statusCode) });
+    httpDuration.observe({ method: request.method, route }, reply.elapsedTime / 1000);
+  });
+
+  app.get("/metrics", async (_request, reply) => {
+    reply.type("text/plain; version=0.0.4; charset=utf-8");
+    return renderMetrics();
+  });
+}
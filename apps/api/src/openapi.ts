@@ -0,0 +1,464 @@
+import {
+  AlertInputSchema,
+  AlertListResponseSchema,
+  AlertPatchSchema,
+  AlertTriggerListResponseSchema,
+  ApiKeyCreatedSchema,
+  ApiKeyInputSchema,
+  ApiKeyListResponseSchema,
+  BacktestRequestSchema,
+  BacktestResultSchema,
+  ChartResponseSchema,
+  CompositePricePayloadSchema,
+  DepthResponseSchema,
+  ErrorResponseSchema,
+  FuturesResponseSchema,
+  FxResponseSchema,
+  HistoryResponseSchema,
+  LayoutInputSchema,
+  LayoutListResponseSchema,
+  LayoutPatchSchema,
+  LayoutSchema,
+  LiquidationsResponseSchema,
+  PortfolioResponseSchema,
+  PositionInputSchema,
+  PositionPatchSchema,
+  PositionSchema,
+  PositionViewSchema,
+  PremiumPayloadSchema,
+  PricePayloadSchema,
+  RiskExplainResponseSchema,
+  RiskPayloadSchema,
+  RiskRulesStatusSchema,
+  SchedulerJobStatusSchema,
+  SchedulerStatusSchema,
+  SignalsResponseSchema,
+  StreamEventSchema,
+  SymbolsResponseSchema,
+  UpstreamHealthResponseSchema,
+  UsageResponseSchema,
+  UserAlertSchema,
+  VenueSnapshotResponseSchema,
+} from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import type { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+type Param = { name: string; in: "path" | "query"; required?: boolean; description?: string };
+
+type Operation = {
+  method: "get" | "post" | "patch" | "delete";
+  path: string;
+  summary: string;
+  params?: Param[];
+  body?: z.ZodTypeAny;
+  // Needs an API key with the `admin` scope.
+  admin?: boolean;
+  // Status code -> response schema; `null` means an empty body.
+  responses: Record<number, z.ZodTypeAny | null>;
+};
+
+const symbolPath: Param = { name: "symbol", in: "path", required: true };
+const symbolQuery: Param = { name: "symbol", in: "query", description: "기본값 BTC" };
+const idPath: Param = { name: "id", in: "path", required: true };
+
+const OPERATIONS: Operation[] = [
+  {
+    method: "get",
+    path: "/api/symbols",
+    summary: "지원 심볼 목록",
+    responses: { 200: SymbolsResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/price/{symbol}",
+    summary: "현재가 (mode=binance|median|vwap)",
+    params: [symbolPath, { name: "mode", in: "query" }],
+    responses: {
+      200: PricePayloadSchema.or(CompositePricePayloadSchema),
+      400: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      502: ErrorResponseSchema,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/market/{symbol}/venues",
+    summary: "거래소별 현물/호가/펀딩/OI 스냅샷",
+    params: [symbolPath],
+    responses: { 200: VenueSnapshotResponseSchema, 404: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/market/{symbol}/risk",
+    summary: "펀딩·OI 기반 리스크",
+    params: [symbolPath],
+    responses: { 200: RiskPayloadSchema, 404: ErrorResponseSchema, 502: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/market/{symbol}/risk/explain",
+    summary: "룰별 리스크 평가 내역",
+    params: [symbolPath],
+    responses: {
+      200: RiskExplainResponseSchema,
+      404: ErrorResponseSchema,
+      502: ErrorResponseSchema,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/market/{symbol}/premium",
+    summary: "김치/코인베이스 프리미엄",
+    params: [symbolPath],
+    responses: { 200: PremiumPayloadSchema, 404: ErrorResponseSchema, 502: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/market/{symbol}/futures",
+    summary: "거래소별 펀딩(현재/예상/히스토리), 베이시스, 롱숏 비율",
+    params: [symbolPath],
+    responses: { 200: FuturesResponseSchema, 404: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/market/{symbol}/depth",
+    summary: "거래소별/통합 호가 스프레드, ±0.5/1/2% 뎁스, 주문 규모별 슬리피지",
+    params: [
+      symbolPath,
+      { name: "size", in: "query", description: "슬리피지 추정 주문 규모 (USD, 기본 100000)" },
+    ],
+    responses: { 200: DepthResponseSchema, 400: ErrorResponseSchema, 404: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/fx",
+    summary: "USD 기준 환율 (KRW/JPY/EUR, 제공처 합의값과 이상치 제외 내역)",
+    responses: { 200: FxResponseSchema, 502: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/market/{symbol}/liquidations",
+    summary: "강제 청산 합계(1h/4h/24h)와 가격 구간별 집계",
+    params: [
+      symbolPath,
+      { name: "window", in: "query", description: "1h | 4h | 24h (기본 24h)" },
+      { name: "bucket", in: "query", description: "가격 구간 크기 (기본 자동)" },
+    ],
+    responses: {
+      200: LiquidationsResponseSchema,
+      400: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/stream",
+    summary: "SSE 스트림 (text/event-stream, 각 이벤트의 data)",
+    params: [symbolQuery],
+    responses: { 200: StreamEventSchema, 404: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/signals",
+    summary: "펀딩/OI/프리미엄 다이버전스 시그널",
+    params: [
+      { name: "symbol", in: "query" },
+      { name: "type", in: "query" },
+      { name: "active", in: "query", description: "true면 진행 중인 시그널만" },
+    ],
+    responses: { 200: SignalsResponseSchema, 400: ErrorResponseSchema, 404: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/health/upstreams",
+    summary: "업스트림 호스트별 서킷 상태, 지연 백분위, 최근 오류",
+    responses: { 200: UpstreamHealthResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/scheduler",
+    summary: "백그라운드 갱신 작업별 주기, 최근 실행/오류, 다음 실행 시각",
+    responses: { 200: SchedulerStatusSchema },
+  },
+  {
+    method: "post",
+    path: "/api/scheduler/{job}/run",
+    summary: "갱신 작업 즉시 실행 (price | premium | risk | fx | futures)",
+    params: [{ name: "job", in: "path", required: true }],
+    admin: true,
+    responses: { 200: SchedulerJobStatusSchema, 404: ErrorResponseSchema, 409: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/market/{symbol}/history",
+    summary: "차트용 구간 히스토리 (1h | 24h | 7d | 30d, 바이낸스 백필 + 리스크 구간)",
+    params: [symbolPath, { name: "range", in: "query" }],
+    responses: {
+      200: ChartResponseSchema,
+      400: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      502: ErrorResponseSchema,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/history/{metric}",
+    summary: "지표 히스토리",
+    params: [
+      { name: "metric", in: "path", required: true },
+      symbolQuery,
+      { name: "from", in: "query" },
+      { name: "to", in: "query" },
+      { name: "interval", in: "query" },
+      { name: "agg", in: "query" },
+    ],
+    responses: { 200: HistoryResponseSchema, 400: ErrorResponseSchema, 404: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/risk/rules",
+    summary: "로드된 리스크 룰",
+    responses: { 200: RiskRulesStatusSchema },
+  },
+  {
+    method: "post",
+    path: "/api/risk/rules/reload",
+    summary: "리스크 룰 다시 읽기",
+    admin: true,
+    responses: { 200: RiskRulesStatusSchema, 422: ErrorResponseSchema },
+  },
+  {
+    method: "post",
+    path: "/api/backtest",
+    summary: "리스크 룰/시그널 백테스트 (text/csv 업로드 시 옵션은 쿼리로)",
+    params: [
+      symbolQuery,
+      { name: "step", in: "query", description: "text/csv 전용, 분 단위" },
+      { name: "horizons", in: "query", description: "text/csv 전용, 예: 60,240,1440" },
+      { name: "move", in: "query", description: "text/csv 전용, 기본값 0.02" },
+    ],
+    body: BacktestRequestSchema,
+    admin: true,
+    responses: { 200: BacktestResultSchema, 400: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/alerts",
+    summary: "사용자 알림 목록",
+    params: [
+      { name: "owner", in: "query" },
+      symbolQuery,
+      { name: "status", in: "query" },
+    ],
+    responses: { 200: AlertListResponseSchema },
+  },
+  {
+    method: "post",
+    path: "/api/alerts",
+    summary: "알림 생성",
+    body: AlertInputSchema,
+    admin: true,
+    responses: { 201: UserAlertSchema, 400: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/alerts/triggers",
+    summary: "최근 알림 발동 기록",
+    params: [{ name: "owner", in: "query" }],
+    responses: { 200: AlertTriggerListResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/alerts/{id}",
+    summary: "알림 조회",
+    params: [idPath],
+    responses: { 200: UserAlertSchema, 404: ErrorResponseSchema },
+  },
+  {
+    method: "patch",
+    path: "/api/alerts/{id}",
+    summary: "알림 수정",
+    params: [idPath],
+    body: AlertPatchSchema,
+    admin: true,
+    responses: { 200: UserAlertSchema, 400: ErrorResponseSchema, 404: ErrorResponseSchema },
+  },
+  {
+    method: "delete",
+    path: "/api/alerts/{id}",
+    summary: "알림 삭제",
+    params: [idPath],
+    admin: true,
+    responses: { 204: null, 404: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/portfolio",
+    summary: "포트폴리오 포지션과 평가손익",
+    params: [{ name: "owner", in: "query" }, symbolQuery],
+    responses: { 200: PortfolioResponseSchema },
+  },
+  {
+    method: "post",
+    path: "/api/portfolio",
+    summary: "포지션 추가",
+    body: PositionInputSchema,
+    responses: { 201: PositionSchema, 400: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/portfolio/{id}",
+    summary: "포지션 조회",
+    params: [idPath],
+    responses: { 200: PositionViewSchema, 404: ErrorResponseSchema },
+  },
+  {
+    method: "patch",
+    path: "/api/portfolio/{id}",
+    summary: "포지션 수정",
+    params: [idPath],
+    body: PositionPatchSchema,
+    responses: { 200: PositionSchema, 400: ErrorResponseSchema, 404: ErrorResponseSchema },
+  },
+  {
+    method: "delete",
+    path: "/api/portfolio/{id}",
+    summary: "포지션 삭제",
+    params: [idPath],
+    responses: { 204: null, 404: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/layouts",
+    summary: "대시보드 레이아웃 목록 (owner의 레이아웃 + 공유된 레이아웃)",
+    params: [{ name: "owner", in: "query" }],
+    responses: { 200: LayoutListResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/layouts/{id}",
+    summary: "레이아웃 단건",
+    params: [idPath],
+    responses: { 200: LayoutSchema, 404: ErrorResponseSchema },
+  },
+  {
+    method: "post",
+    path: "/api/layouts",
+    summary: "레이아웃 저장",
+    body: LayoutInputSchema,
+    responses: { 201: LayoutSchema, 400: ErrorResponseSchema },
+  },
+  {
+    method: "patch",
+    path: "/api/layouts/{id}",
+    summary: "레이아웃 수정 (owner 본인만)",
+    params: [idPath, { name: "owner", in: "query", required: true }],
+    body: LayoutPatchSchema,
+    responses: {
+      200: LayoutSchema,
+      400: ErrorResponseSchema,
+      403: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/layouts/{id}",
+    summary: "레이아웃 삭제 (owner 본인만)",
+    params: [idPath, { name: "owner", in: "query", required: true }],
+    responses: { 204: null, 403: ErrorResponseSchema, 404: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/admin/keys",
+    summary: "API 키 목록 (해시·원문 제외)",
+    admin: true,
+    responses: { 200: ApiKeyListResponseSchema },
+  },
+  {
+    method: "post",
+    path: "/api/admin/keys",
+    summary: "API 키 발급 (원문은 응답에서 한 번만 제공)",
+    admin: true,
+    body: ApiKeyInputSchema,
+    responses: { 201: ApiKeyCreatedSchema, 400: ErrorResponseSchema },
+  },
+  {
+    method: "delete",
+    path: "/api/admin/keys/{id}",
+    summary: "API 키 폐기",
+    params: [idPath],
+    admin: true,
+    responses: { 204: null, 404: ErrorResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/admin/usage",
+    summary: "키별 요청 수, 오늘 사용량/쿼터, 레이트 리밋 거절 수, 라우트별 호출 수",
+    admin: true,
+    responses: { 200: UsageResponseSchema },
+  },
+];
+
+function jsonSchema(schema: z.ZodTypeAny) {
+  return zodToJsonSchema(schema, { target: "openApi3", $refStrategy: "none" });
+}
+
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const op of OPERATIONS) {
+    const responses: Record<string, unknown> = {};
+    for (const [status, schema] of Object.entries(op.responses)) {
+      responses[status] = schema
+        ? { description: status, content: { "application/json": { schema: jsonSchema(schema) } } }
+        : { description: status };
+    }
+    // Anonymous callers may only read, so every write needs a key too.
+    const needsKey = op.admin || op.method !== "get";
+    if (needsKey) {
+      responses["401"] = { description: "401 (api_key_required | invalid_api_key)" };
+    }
+    if (op.admin) responses["403"] = { description: "403 (forbidden)" };
+
+    paths[op.path] ??= {};
+    paths[op.path][op.method] = {
+      summary: op.summary,
+      parameters: (op.params ?? []).map((p) => ({
+        name: p.name,
+        in: p.in,
+        required: p.required ?? false,
+        description: p.description,
+        schema: { type: "string" },
+      })),
+      requestBody: op.body
+        ? { required: true, content: { "application/json": { schema: jsonSchema(op.body) } } }
+        : undefined,
+      security: needsKey ? [{ apiKey: [] }] : undefined,
+      responses,
+    };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: { title: "bit-auto API", version: "0.0.0" },
+    components: {
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+    },
+    // Anonymous calls work unless the server runs with API_AUTH=required.
+    security: [{}, { apiKey: [] }],
+    paths,
+  };
+}
+
+export function registerOpenApiRoutes(app: FastifyInstance) {
+  let document: ReturnType<typeof buildOpenApiDocument> | null = null;
+
+  app.get("/api/docs", async () => {
+    document ??= buildOpenApiDocument();
+    return document;
+  });
+}
@@ -0,0 +1,345 @@
+import { randomUUID } from "node:crypto";
+import {
+  PositionInputSchema,
+  PositionPatchSchema,
+  type PortfolioResponse,
+  type PortfolioTotals,
+  type Position,
+  type PositionSide,
+  type PositionView,
+} from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import type { z } from "zod";
+import { binance } from "./exchanges";
+import type { FundingHistoryPoint } from "./exchanges/types";
+import { fetchPrice, fetchRisk, onMarketUpdate } from "./market";
+import { readJsonFile, writeJsonFile } from "./storage";
+import { resolveSymbol } from "./symbols";
+
+const PORTFOLIO_FILE = "portfolio.json";
+// Binance perps settle funding at 00:00, 08:00 and 16:00 UTC.
+const FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+// Binance's maximum per call, about 333 days of settlements; older gaps catch up on later calls.
+const FUNDING_HISTORY_LIMIT = 1000;
+
+export type {
+  PortfolioResponse,
+  PortfolioTotals,
+  Position,
+  PositionKind,
+  PositionSide,
+  PositionView,
+} from "@bit-auto/shared";
+
+type MaintenanceTier = { maxNotional: number; rate: number; amount: number };
+
+// Binance USDT-M BTCUSDT brackets, applied to every symbol as an estimate. `amount` is the
+// maintenance deduction that keeps the requirement continuous across bracket edges.
+const MAINTENANCE_TIERS: MaintenanceTier[] = [
+  { maxNotional: 50_000, rate: 0.004, amount: 0 },
+  { maxNotional: 500_000, rate: 0.005, amount: 50 },
+  { maxNotional: 8_000_000, rate: 0.01, amount: 2_550 },
+  { maxNotional: 50_000_000, rate: 0.025, amount: 122_550 },
+  { maxNotional: 80_000_000, rate: 0.05, amount: 1_372_550 },
+  { maxNotional: 100_000_000, rate: 0.1, amount: 5_372_550 },
+  { maxNotional: 200_000_000, rate: 0.125, amount: 7_872_550 },
+  { maxNotional: 300_000_000, rate: 0.15, amount: 12_872_550 },
+  { maxNotional: 500_000_000, rate: 0.25, amount: 42_872_550 },
+  { maxNotional: Infinity, rate: 0.5, amount: 167_872_550 },
+];
+
+class PositionValidationError extends Error {}
+
+let positions: Position[] = [];
+let loaded: Promise<void> | null = null;
+const markPrices = new Map<string, number>();
+const fundingRates = new Map<string, number>();
+// One history fetch per symbol at a time, however many updates ask for it.
+const settling = new Map<string, Promise<void>>();
+let log: FastifyInstance["log"] | null = null;
+
+function ensureLoaded() {
+  loaded ??= readJsonFile<Position[]>(PORTFOLIO_FILE, []).then((stored) => {
+    positions = stored;
+  });
+  return loaded;
+}
+
+function persist() {
+  return writeJsonFile(PORTFOLIO_FILE, positions).catch((error) =>
+    log?.error(error, "failed to persist portfolio"),
+  );
+}
+
+function invalid(message: string): never {
+  throw new PositionValidationError(message);
+}
+
+function check<T extends z.ZodTypeAny>(schema: T, value: unknown): z.output<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    invalid(`${issue.path.join(".") || "body"}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+// A PATCH is checked on its own first, then merged and checked again as a full position.
+function validate(body: unknown, existing?: Position): Omit<Position, "id"> {
+  const now = Date.now();
+  const input = check(
+    PositionInputSchema,
+    existing ? { ...existing, ...check(PositionPatchSchema, body) } : body,
+  );
+
+  const info = resolveSymbol(input.symbol);
+  if (!info) invalid("symbol is unknown");
+  const openedAt = input.openedAt ?? existing?.openedAt ?? now;
+
+  return {
+    owner: input.owner || null,
+    symbol: info.symbol,
+    kind: input.kind,
+    side: input.side,
+    entryPrice: input.entryPrice,
+    size: input.size,
+    leverage: input.leverage,
+    note: input.note || null,
+    openedAt,
+    fundingPaid: existing?.fundingPaid ?? 0,
+    fundingSettledAt: existing?.fundingSettledAt ?? openedAt,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+function direction(side: PositionSide) {
+  return side === "long" ? 1 : -1;
+}
+
+export function maintenanceTier(notional: number) {
+  return MAINTENANCE_TIERS.find((tier) => notional <= tier.maxNotional)!;
+}
+
+/**
+ * Isolated-margin liquidation price, from Binance's one-way formula
+ * `(margin + amount - side * size * entry) / (size * rate - side * size)`.
+ * The bracket is picked from the entry notional. Null when the position can't be liquidated
+ * (e.g. a 1x long).
+ */
+export function liquidationPrice(
+  side: PositionSide,
+  entryPrice: number,
+  size: number,
+  margin: number,
+) {
+  const { rate, amount } = maintenanceTier(entryPrice * size);
+  const dir = direction(side);
+  const price = (margin + amount - dir * size * entryPrice) / (size * rate - dir * size);
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+function settlementDue(position: Position, now: number) {
+  const intervals = Math.floor(position.fundingSettledAt / FUNDING_INTERVAL_MS) + 1;
+  const next = intervals * FUNDING_INTERVAL_MS;
+  return position.kind === "perp" && next <= now;
+}
+
+// Applies each settlement after the last one at its own rate and mark, so time the server was down
+// is back-filled with what Binance actually charged. Rows without a mark fall back to the latest.
+function settleFunding(position: Position, history: FundingHistoryPoint[], now: number) {
+  let changed = false;
+  for (const { rate, ts, markPrice } of history) {
+    if (ts <= position.fundingSettledAt || ts > now) continue;
+    const mark = markPrice ?? markPrices.get(position.symbol);
+    if (mark === undefined) break;
+    // Longs pay positive funding, shorts receive it.
+    position.fundingPaid -= direction(position.side) * position.size * mark * rate;
+    position.fundingSettledAt = ts;
+    changed = true;
+  }
+  return changed;
+}
+
+async function settleSymbol(symbol: string, now: number) {
+  const due = positions.filter((p) => p.symbol === symbol && settlementDue(p, now));
+  const info = resolveSymbol(symbol);
+  if (!due.length || !info) return;
+
+  // If the history can't be read, positions stay unsettled until the next try instead of guessing.
+  const since = Math.min(...due.map((p) => p.fundingSettledAt)) + 1;
+  const history = await binance.fetchFundingHistory!(info, FUNDING_HISTORY_LIMIT, since);
+  let changed = false;
+  for (const position of due) {
+    if (settleFunding(position, history, now)) changed = true;
+  }
+  if (changed) await persist();
+}
+
+function settleAll(symbol: string, now: number) {
+  let pending = settling.get(symbol);
+  if (!pending) {
+    pending = settleSymbol(symbol, now)
+      .catch((error) => log?.warn(error, `failed to settle ${symbol} funding`))
+      .finally(() => settling.delete(symbol));
+    settling.set(symbol, pending);
+  }
+  return pending;
+}
+
+export function positionView(position: Position): PositionView {
+  const mark = markPrices.get(position.symbol) ?? null;
+  const fundingRate = position.kind === "perp" ? (fundingRates.get(position.symbol) ?? null) : null;
+  const cost = position.entryPrice * position.size;
+  const margin = position.kind === "perp" ? cost / position.leverage : cost;
+  const unrealizedPnl =
+    mark !== null ? direction(position.side) * (mark - position.entryPrice) * position.size : null;
+
+  return {
+    ...position,
+    markPrice: mark,
+    notional: mark !== null ? mark * position.size : null,
+    margin,
+    unrealizedPnl,
+    unrealizedPnlPct: unrealizedPnl !== null ? unrealizedPnl / margin : null,
+    liquidationPrice:
+      position.kind === "perp"
+        ? liquidationPrice(
+            position.side,
+            position.entryPrice,
+            position.size,
+            margin + position.fundingPaid,
+          )
+        : null,
+    maintenanceMarginRate: position.kind === "perp" ? maintenanceTier(cost).rate : null,
+    fundingRate,
+  };
+}
+
+function totalsFor(views: PositionView[]): PortfolioTotals {
+  const totals: PortfolioTotals = {
+    spotValue: 0,
+    perpNotional: 0,
+    margin: 0,
+    unrealizedPnl: 0,
+    fundingPaid: 0,
+  };
+  for (const view of views) {
+    if (view.kind === "spot") totals.spotValue += view.notional ?? 0;
+    else totals.perpNotional += view.notional ?? 0;
+    totals.margin += view.margin;
+    totals.unrealizedPnl += view.unrealizedPnl ?? 0;
+    totals.fundingPaid += view.fundingPaid;
+  }
+  return totals;
+}
+
+// Reads the cached price and funding rate for each held symbol; a failed read leaves the last value.
+async function refreshMarks(symbols: string[]) {
+  await Promise.allSettled(
+    symbols.map(async (symbol) => {
+      const info = resolveSymbol(symbol);
+      if (!info) return;
+      const [price, risk] = await Promise.allSettled([fetchPrice(info), fetchRisk(info)]);
+      if (price.status === "fulfilled") markPrices.set(symbol, price.value.price);
+      if (risk.status === "fulfilled") fundingRates.set(symbol, risk.value.fundingRate);
+    }),
+  );
+}
+
+type PositionParams = { id: string };
+type PortfolioQuery = { owner?: string; symbol?: string };
+
+export function registerPortfolioRoutes(app: FastifyInstance) {
+  log = app.log;
+
+  ensureLoaded().catch((error) => app.log.error(error, "failed to load portfolio"));
+  onMarketUpdate((update) => {
+    if (update.kind === "price") markPrices.set(update.symbol, update.data.price);
+    if (update.kind !== "risk") return;
+    fundingRates.set(update.symbol, update.data.fundingRate);
+    ensureLoaded()
+      .then(() => settleAll(update.symbol, update.data.ts))
+      .catch((error) => app.log.error(error, "failed to settle funding"));
+  });
+
+  app.get<{ Querystring: PortfolioQuery }>("/api/portfolio", async (request) => {
+    await ensureLoaded();
+    const { owner, symbol } = request.query;
+    const selected = positions.filter(
+      (p) =>
+        (!owner || p.owner === owner) &&
+        (!symbol || p.symbol === resolveSymbol(symbol)?.symbol),
+    );
+
+    const symbols = [...new Set(selected.map((p) => p.symbol))];
+    await refreshMarks(symbols);
+    const now = Date.now();
+    await Promise.all(symbols.map((s) => settleAll(s, now)));
+
+    const views = selected.map(positionView);
+    const body: PortfolioResponse = { positions: views, totals: totalsFor(views), ts: now };
+    return body;
+  });
+
+  app.get<{ Params: PositionParams }>("/api/portfolio/:id", async (request, reply) => {
+    await ensureLoaded();
+    const position = positions.find((p) => p.id === request.params.id);
+    if (!position) {
+      reply.code(404);
+      return { error: "not_found" };
+    }
+    await refreshMarks([position.symbol]);
+    return positionView(position);
+  });
+
+  app.post<{ Body: unknown }>("/api/portfolio", async (request, reply) => {
+    await ensureLoaded();
+    try {
+      const position: Position = { id: randomUUID(), ...validate(request.body ?? {}) };
+      positions.push(position);
+      await persist();
+      reply.code(201);
+      return position;
+    } catch (error) {
+      if (!(error instanceof PositionValidationError)) throw error;
+      reply.code(400);
+      return { error: "invalid_position", detail: error.message };
+    }
+  });
+
+  app.patch<{ Params: PositionParams; Body: unknown }>(
+    "/api/portfolio/:id",
+    async (request, reply) => {
+      await ensureLoaded();
+      const index = positions.findIndex((p) => p.id === request.params.id);
+      if (index < 0) {
+        reply.code(404);
+        return { error: "not_found" };
+      }
+      try {
+        const existing = positions[index];
+        positions[index] = { id: existing.id, ...validate(request.body ?? {}, existing) };
+        await persist();
+        return positions[index];
+      } catch (error) {
+        if (!(error instanceof PositionValidationError)) throw error;
+        reply.code(400);
+        return { error: "invalid_position", detail: error.message };
+      }
+    },
+  );
+
+  app.delete<{ Params: PositionParams }>("/api/portfolio/:id", async (request, reply) => {
+    await ensureLoaded();
+    const index = positions.findIndex((p) => p.id === request.params.id);
+    if (index < 0) {
+      reply.code(404);
+      return { error: "not_found" };
+    }
+    positions.splice(index, 1);
+    await persist();
+    reply.code(204);
+    return null;
+  });
+}
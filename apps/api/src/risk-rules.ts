@@ -0,0 +1,277 @@
+import { watchFile } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  RiskRuleConfigSchema,
+  RuleMetricSchema,
+  RuleOpSchema,
+  type ResolvedRuleSet,
+  type RiskEvaluation,
+  type RiskLevel,
+  type RiskRule,
+  type RiskRuleConfig,
+  type RuleOp,
+  type RuleResult,
+} from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import YAML from "yaml";
+import { recentSamples, type HistoryMetric, type HistoryPoint } from "./history";
+
+export const RISK_RULES_PATH = path.resolve(
+  process.env.RISK_RULES_PATH || path.join(__dirname, "../config/risk-rules.json"),
+);
+// Latest premium/price samples older than this are treated as missing.
+const FRESH_SAMPLE_MS = 5 * 60 * 1000;
+
+export const RULE_METRICS = RuleMetricSchema.options;
+
+export const RULE_OPS = RuleOpSchema.options;
+
+export type {
+  ResolvedRuleSet,
+  RiskEvaluation,
+  RiskLevel,
+  RiskLevels,
+  RiskRule,
+  RiskRuleConfig,
+  RuleMetric,
+  RuleOp,
+  RuleResult,
+} from "@bit-auto/shared";
+
+export type RuleInputs = {
+  fundingRate: number;
+  openInterest: number;
+  price?: number;
+  kimchiPremium?: number;
+  coinbasePremium?: number;
+  // Value of a series `windowMs` ago, or undefined when there isn't a usable sample.
+  valueAgo(metric: "openInterest" | "price", windowMs: number): number | undefined;
+};
+
+const DEFAULT_CONFIG: RiskRuleConfig = {
+  levels: { WARN: 1, DANGER: 2 },
+  rules: [
+    {
+      id: "funding-elevated",
+      metric: "fundingRate",
+      op: "abs>=",
+      threshold: 0.0005,
+      weight: 1,
+      reason: "Funding rate is elevated",
+    },
+    {
+      id: "oi-jump",
+      metric: "openInterestChange",
+      op: ">=",
+      threshold: 0.1,
+      windowMinutes: 5,
+      weight: 1,
+      reason: "Open interest jumped >= 10%",
+    },
+  ],
+};
+
+let config: RiskRuleConfig = DEFAULT_CONFIG;
+let loadedAt = 0;
+let lastLoadError: string | null = null;
+
+function fail(message: string): never {
+  throw new Error(`Invalid risk rule config: ${message}`);
+}
+
+export function parseRiskConfig(raw: unknown): RiskRuleConfig {
+  const result = RiskRuleConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    fail(`${issue.path.join(".") || "root"}: ${issue.message}`);
+  }
+
+  const symbols: NonNullable<RiskRuleConfig["symbols"]> = {};
+  for (const [symbol, entry] of Object.entries(result.data.symbols ?? {})) {
+    symbols[symbol.toUpperCase()] = entry;
+  }
+  return { ...result.data, symbols };
+}
+
+export function resolveRuleSet(cfg: RiskRuleConfig, symbol: string): ResolvedRuleSet {
+  const entry = cfg.symbols?.[symbol];
+  const rules = cfg.rules.map((rule) => ({ ...rule, ...entry?.overrides?.[rule.id] }));
+  return {
+    levels: { ...cfg.levels, ...entry?.levels },
+    rules: [...rules, ...(entry?.rules ?? [])],
+  };
+}
+
+function metricValue(rule: RiskRule, inputs: RuleInputs): number | undefined {
+  const windowMs = (rule.windowMinutes ?? 0) * 60_000;
+  switch (rule.metric) {
+    case "fundingRate":
+      return inputs.fundingRate;
+    case "kimchiPremium":
+      return inputs.kimchiPremium;
+    case "coinbasePremium":
+      return inputs.coinbasePremium;
+    case "openInterestChange": {
+      const prev = inputs.valueAgo("openInterest", windowMs);
+      return prev && prev > 0 ? (inputs.openInterest - prev) / prev : undefined;
+    }
+    case "priceChange": {
+      const prev = inputs.valueAgo("price", windowMs);
+      return prev && prev > 0 && inputs.price !== undefined
+        ? (inputs.price - prev) / prev
+        : undefined;
+    }
+  }
+}
+
+function matches(op: RuleOp, value: number, threshold: number) {
+  if (op === ">=") return value >= threshold;
+  if (op === "<=") return value <= threshold;
+  return Math.abs(value) >= threshold;
+}
+
+export function evaluateRules(ruleSet: ResolvedRuleSet, inputs: RuleInputs): RiskEvaluation {
+  const results: RuleResult[] = [];
+  let score = 0;
+
+  for (const rule of ruleSet.rules) {
+    const base = {
+      id: rule.id,
+      metric: rule.metric,
+      op: rule.op,
+      threshold: rule.threshold,
+      weight: rule.weight,
+      reason: rule.reason,
+    };
+    if (rule.enabled === false) {
+      results.push({ ...base, value: null, fired: false, skipped: "disabled" });
+      continue;
+    }
+
+    const value = metricValue(rule, inputs);
+    if (value === undefined || !Number.isFinite(value)) {
+      results.push({ ...base, value: null, fired: false, skipped: "no_data" });
+      continue;
+    }
+
+    const fired = matches(rule.op, value, rule.threshold);
+    if (fired) score += rule.weight;
+    results.push({ ...base, value, fired });
+  }
+
+  const level: RiskLevel =
+    score >= ruleSet.levels.DANGER ? "DANGER" : score >= ruleSet.levels.WARN ? "WARN" : "OK";
+  const reasons = results.filter((r) => r.fired).map((r) => r.reason);
+
+  return { level, reasons, score, rules: results };
+}
+
+// Index of the last sample at or before `ts`, or -1. Samples are sorted by time.
+function indexAtOrBefore(samples: readonly HistoryPoint[], ts: number) {
+  let lo = 0;
+  let hi = samples.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].t <= ts) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Latest sample at or before `now`, ignoring it once it is older than `maxAgeMs`.
+export function sampleAt(
+  samples: readonly HistoryPoint[],
+  now: number,
+  maxAgeMs = FRESH_SAMPLE_MS,
+) {
+  const i = indexAtOrBefore(samples, now);
+  return i >= 0 && now - samples[i].t <= maxAgeMs ? samples[i].v : undefined;
+}
+
+// Latest sample at or before `now - windowMs`, ignoring it if it is more than a window older.
+function sampleAgo(samples: readonly HistoryPoint[], now: number, windowMs: number) {
+  return sampleAt(samples, now - windowMs, windowMs);
+}
+
+// Evaluates a rule set at `now` against time-sorted series. Samples after `now` are ignored, so
+// backtests can pass whole imported series; live scoring passes the recent in-memory window.
+export function evaluateSeriesRisk(
+  ruleSet: ResolvedRuleSet,
+  series: (metric: HistoryMetric) => readonly HistoryPoint[],
+  now: number,
+  fundingRate: number,
+  openInterest: number,
+  maxAgeMs = FRESH_SAMPLE_MS,
+) {
+  return evaluateRules(ruleSet, {
+    fundingRate,
+    openInterest,
+    price: sampleAt(series("price"), now, maxAgeMs),
+    kimchiPremium: sampleAt(series("kimchiPremium"), now, maxAgeMs),
+    coinbasePremium: sampleAt(series("coinbasePremium"), now, maxAgeMs),
+    valueAgo: (metric, windowMs) => sampleAgo(series(metric), now, windowMs),
+  });
+}
+
+export function evaluateLiveRisk(symbol: string, fundingRate: number, openInterest: number) {
+  return evaluateSeriesRisk(
+    ruleSetFor(symbol),
+    (metric) => recentSamples(symbol, metric),
+    Date.now(),
+    fundingRate,
+    openInterest,
+  );
+}
+
+export async function loadRiskRules() {
+  try {
+    const raw = await readFile(RISK_RULES_PATH, "utf8");
+    const parsed = /\.ya?ml$/i.test(RISK_RULES_PATH) ? YAML.parse(raw) : JSON.parse(raw);
+    config = parseRiskConfig(parsed);
+    loadedAt = Date.now();
+    lastLoadError = null;
+  } catch (error) {
+    // Keep serving the previous rule set; a bad edit shouldn't take risk scoring down.
+    lastLoadError = error instanceof Error ? error.message : String(error);
+    throw error;
+  }
+}
+
+export function ruleSetFor(symbol: string) {
+  return resolveRuleSet(config, symbol);
+}
+
+export function riskRulesStatus() {
+  return { path: RISK_RULES_PATH, loadedAt, lastLoadError, config };
+}
+
+export function registerRiskRuleRoutes(app: FastifyInstance) {
+  loadRiskRules()
+    .then(() => app.log.info(`loaded risk rules from ${RISK_RULES_PATH}`))
+    .catch((error) => app.log.warn(error, "using default risk rules"));
+
+  watchFile(RISK_RULES_PATH, { interval: 2000 }, (curr, prev) => {
+    if (curr.mtimeMs === prev.mtimeMs) return;
+    loadRiskRules()
+      .then(() => app.log.info("reloaded risk rules"))
+      .catch((error) => app.log.error(error, "failed to reload risk rules"));
+  }).unref();
+
+  app.get("/api/risk/rules", async () => riskRulesStatus());
+
+  app.post("/api/risk/rules/reload", { config: { scope: "admin" } }, async (_request, reply) => {
+    try {
+      await loadRiskRules();
+      return riskRulesStatus();
+    } catch {
+      reply.code(422);
+      return { error: "invalid_config", detail: lastLoadError };
+    }
+  });
+}
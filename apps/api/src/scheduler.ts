@@ -0,0 +1,179 @@
+import {
+  SchedulerJobIdSchema,
+  type SchedulerJobId,
+  type SchedulerJobStatus,
+  type SchedulerStatus,
+} from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import { FUTURES_REFRESH_MS, refreshFutures } from "./futures";
+import { FX_REFRESH_MS, refreshFx } from "./fx";
+import { REFRESH_MS, refreshPremium, refreshPrice, refreshRisk } from "./market";
+import { listSymbols, type SymbolInfo } from "./symbols";
+
+const SCHEDULER_ENABLED = process.env.SCHEDULER !== "off";
+
+export type { SchedulerJobId, SchedulerJobStatus, SchedulerStatus } from "@bit-auto/shared";
+
+type Job = Omit<SchedulerJobStatus, "running"> & {
+  run: (force: boolean) => Promise<unknown>;
+  current: Promise<void> | null;
+  timer: NodeJS.Timeout | null;
+};
+
+let started = false;
+let log: FastifyInstance["log"] | null = null;
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Refreshes every symbol in parallel; one failing symbol fails the run but doesn't stop the others.
+async function forEachSymbol(
+  refresh: (info: SymbolInfo, force: boolean) => Promise<unknown>,
+  force: boolean,
+) {
+  const symbols = listSymbols();
+  const results = await Promise.allSettled(symbols.map((info) => refresh(info, force)));
+  const errors = results.flatMap((result, i) =>
+    result.status === "rejected" ? [`${symbols[i].symbol}: ${errorMessage(result.reason)}`] : [],
+  );
+  if (errors.length) throw new Error(errors.join("; "));
+}
+
+function job(id: SchedulerJobId, intervalMs: number, run: Job["run"]): Job {
+  return {
+    id,
+    intervalMs,
+    run,
+    current: null,
+    timer: null,
+    runs: 0,
+    failures: 0,
+    lastRunAt: null,
+    lastDurationMs: null,
+    lastSuccessAt: null,
+    lastError: null,
+    nextRunAt: null,
+  };
+}
+
+const jobs: Job[] = [
+  job("price", REFRESH_MS.price, (force) => forEachSymbol(refreshPrice, force)),
+  job("premium", REFRESH_MS.premium, (force) => forEachSymbol(refreshPremium, force)),
+  job("risk", REFRESH_MS.risk, (force) => forEachSymbol(refreshRisk, force)),
+  job("fx", FX_REFRESH_MS, (force) => refreshFx(force)),
+  job("futures", FUTURES_REFRESH_MS, (force) => forEachSymbol(refreshFutures, force)),
+];
+
+function runJob(job: Job, force = false) {
+  if (job.current) return job.current;
+
+  const startedAt = Date.now();
+  job.runs += 1;
+  job.lastRunAt = startedAt;
+  job.current = job
+    .run(force)
+    .then(
+      () => {
+        job.lastSuccessAt = Date.now();
+        job.lastError = null;
+      },
+      (error) => {
+        const message = errorMessage(error);
+        // Log when the failure changes, not on every tick of a long outage.
+        if (message !== job.lastError) {
+          log?.warn({ job: job.id, error: message }, "scheduled refresh failed");
+        }
+        job.failures += 1;
+        job.lastError = message;
+      },
+    )
+    .finally(() => {
+      job.lastDurationMs = Date.now() - startedAt;
+      job.current = null;
+    });
+  return job.current;
+}
+
+// Chained timeouts rather than setInterval, so a slow run delays the next one instead of overlapping it.
+function schedule(job: Job, delayMs: number) {
+  if (job.timer) clearTimeout(job.timer);
+  job.timer = null;
+  job.nextRunAt = null;
+  if (!started) return;
+
+  job.nextRunAt = Date.now() + delayMs;
+  job.timer = setTimeout(() => {
+    job.timer = null;
+    job.nextRunAt = null;
+    void runJob(job).then(() => schedule(job, job.intervalMs));
+  }, delayMs);
+}
+
+function startScheduler() {
+  if (started) return;
+  started = true;
+  for (const job of jobs) schedule(job, 0);
+  log?.info(`scheduler started with ${jobs.length} jobs`);
+}
+
+function stopScheduler() {
+  started = false;
+  for (const job of jobs) schedule(job, 0);
+}
+
+function jobStatus(job: Job): SchedulerJobStatus {
+  return {
+    id: job.id,
+    intervalMs: job.intervalMs,
+    running: job.current !== null,
+    runs: job.runs,
+    failures: job.failures,
+    lastRunAt: job.lastRunAt,
+    lastDurationMs: job.lastDurationMs,
+    lastSuccessAt: job.lastSuccessAt,
+    lastError: job.lastError,
+    nextRunAt: job.nextRunAt,
+  };
+}
+
+export function schedulerStatus(): SchedulerStatus {
+  return { enabled: SCHEDULER_ENABLED, jobs: jobs.map(jobStatus), ts: Date.now() };
+}
+
+type JobParams = { job: string };
+
+export function registerSchedulerRoutes(app: FastifyInstance) {
+  log = app.log;
+
+  if (SCHEDULER_ENABLED) {
+    app.addHook("onReady", async () => startScheduler());
+    app.addHook("onClose", async () => stopScheduler());
+  }
+
+  app.get("/api/scheduler", async () => schedulerStatus());
+
+  // Runs a job now and restarts its cadence from the end of this run.
+  app.post<{ Params: JobParams }>(
+    "/api/scheduler/:job/run",
+    { config: { scope: "admin" } },
+    async (request, reply) => {
+      const id = SchedulerJobIdSchema.safeParse(request.params.job);
+      const job = id.success ? jobs.find((j) => j.id === id.data) : undefined;
+      if (!job) {
+        reply.code(404);
+        return { error: "unknown_job", jobs: SchedulerJobIdSchema.options };
+      }
+      if (job.current) {
+        reply.code(409);
+        return { error: "job_running" };
+      }
+
+      if (job.timer) clearTimeout(job.timer);
+      job.timer = null;
+      await runJob(job, true);
+      schedule(job, job.intervalMs);
+      return jobStatus(job);
+    },
+  );
+}
@@ -0,0 +1,278 @@
+import { randomUUID } from "node:crypto";
+import { SignalTypeSchema, type Signal } from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import { onMarketUpdate, type MarketUpdate } from "./market";
+import { resolveSymbol } from "./symbols";
+
+const HOUR_MS = 60 * 60 * 1000;
+// Samples closer together than this overwrite each other, so a busy stream can't blow up the window.
+const SAMPLE_MS = 60_000;
+const WINDOW_MS = 24 * HOUR_MS;
+const SIGNAL_LOG_LIMIT = 200;
+
+const OI_LOOKBACK_MS = HOUR_MS;
+const OI_RISE_THRESHOLD = 0.02;
+const PRICE_DROP_THRESHOLD = 0.005;
+// A flip stays reported until the next funding interval would have settled it.
+const FUNDING_FLIP_WINDOW_MS = 8 * HOUR_MS;
+const FUNDING_FLIP_SCALE = 0.0001;
+const COINBASE_POSITIVE_HOURS = Number(process.env.SIGNAL_COINBASE_POSITIVE_HOURS || 2);
+const KIMCHI_Z_THRESHOLD = 2;
+const KIMCHI_MIN_SAMPLES = 30;
+
+export type { Signal, SignalDirection, SignalType } from "@bit-auto/shared";
+
+const SERIES = ["price", "fundingRate", "openInterest", "kimchiPremium", "coinbasePremium"] as const;
+
+type SeriesKey = (typeof SERIES)[number];
+
+type Point = { t: number; v: number };
+
+export type SignalSeries = Record<SeriesKey, Point[]>;
+
+export type SignalCandidate = Pick<
+  Signal,
+  "type" | "direction" | "message" | "confidence" | "values"
+>;
+
+const series = new Map<string, SignalSeries>();
+const active = new Map<string, Signal>();
+const signalLog: Signal[] = [];
+let log: FastifyInstance["log"] | null = null;
+
+export function createSignalSeries(): SignalSeries {
+  return { price: [], fundingRate: [], openInterest: [], kimchiPremium: [], coinbasePremium: [] };
+}
+
+function seriesFor(symbol: string) {
+  let entry = series.get(symbol);
+  if (!entry) {
+    entry = createSignalSeries();
+    series.set(symbol, entry);
+  }
+  return entry;
+}
+
+export function addSample(points: Point[], t: number, v: number | null) {
+  if (v === null || !Number.isFinite(v)) return;
+  const last = points[points.length - 1];
+  if (last && t - last.t < SAMPLE_MS) {
+    last.v = v;
+  } else {
+    points.push({ t, v });
+  }
+  while (points.length && points[0].t < t - WINDOW_MS) points.shift();
+}
+
+function sampleUpdate(update: MarketUpdate) {
+  const s = seriesFor(update.symbol);
+  switch (update.kind) {
+    case "price":
+      addSample(s.price, update.data.fetchedAt, update.data.price);
+      break;
+    case "risk":
+      addSample(s.fundingRate, update.data.ts, update.data.fundingRate);
+      addSample(s.openInterest, update.data.ts, update.data.openInterest);
+      break;
+    case "premium":
+      addSample(s.kimchiPremium, update.data.ts, update.data.kimchiPremium);
+      addSample(s.coinbasePremium, update.data.ts, update.data.coinbasePremium);
+      break;
+  }
+}
+
+// 0.5 right at the threshold, rising to 1 at three times the threshold.
+function confidenceFor(value: number, threshold: number) {
+  const ratio = Math.abs(value) / Math.abs(threshold);
+  return Math.min(1, Math.max(0, 0.5 + 0.25 * (ratio - 1)));
+}
+
+function latest(points: Point[]) {
+  return points[points.length - 1];
+}
+
+function valueAt(points: Point[], target: number) {
+  for (let i = points.length - 1; i >= 0; i--) {
+    if (points[i].t <= target) return points[i].v;
+  }
+  return undefined;
+}
+
+function oiUpPriceDown(s: SignalSeries, now: number): SignalCandidate | null {
+  const oi = latest(s.openInterest);
+  const price = latest(s.price);
+  const oiPrev = valueAt(s.openInterest, now - OI_LOOKBACK_MS);
+  const pricePrev = valueAt(s.price, now - OI_LOOKBACK_MS);
+  if (!oi || !price || !oiPrev || !pricePrev) return null;
+
+  const oiChange = (oi.v - oiPrev) / oiPrev;
+  const priceChange = (price.v - pricePrev) / pricePrev;
+  if (oiChange < OI_RISE_THRESHOLD || priceChange > -PRICE_DROP_THRESHOLD) return null;
+
+  return {
+    type: "oiUpPriceDown",
+    direction: "bearish",
+    message: `Open interest up ${(oiChange * 100).toFixed(1)}% while price fell ${Math.abs(
+      priceChange * 100,
+    ).toFixed(1)}% over 1h`,
+    confidence:
+      (confidenceFor(oiChange, OI_RISE_THRESHOLD) +
+        confidenceFor(priceChange, PRICE_DROP_THRESHOLD)) /
+      2,
+    values: { oiChange, priceChange },
+  };
+}
+
+function fundingFlip(s: SignalSeries, now: number): SignalCandidate | null {
+  const points = s.fundingRate;
+  const current = latest(points);
+  if (!current || current.v === 0) return null;
+
+  const negative = current.v < 0;
+  // Walk back to the last sample on the other side of zero.
+  for (let i = points.length - 2; i >= 0; i--) {
+    if ((points[i].v < 0) === negative) continue;
+    if (now - points[i + 1].t > FUNDING_FLIP_WINDOW_MS) return null;
+
+    return {
+      type: negative ? "fundingFlipNegative" : "fundingFlipPositive",
+      direction: negative ? "bearish" : "bullish",
+      message: `Funding flipped ${negative ? "negative" : "positive"} (${(current.v * 100).toFixed(
+        4,
+      )}%)`,
+      confidence: confidenceFor(current.v, FUNDING_FLIP_SCALE),
+      values: { fundingRate: current.v, previous: points[i].v, flippedAt: points[i + 1].t },
+    };
+  }
+  return null;
+}
+
+function coinbasePremiumPositive(s: SignalSeries, now: number): SignalCandidate | null {
+  const points = s.coinbasePremium;
+  let start = -1;
+  for (let i = points.length - 1; i >= 0 && points[i].v > 0; i--) start = i;
+  if (start < 0) return null;
+
+  const hours = (now - points[start].t) / HOUR_MS;
+  if (hours < COINBASE_POSITIVE_HOURS) return null;
+
+  const run = points.slice(start);
+  const mean = run.reduce((sum, p) => sum + p.v, 0) / run.length;
+  return {
+    type: "coinbasePremiumPositive",
+    direction: "bullish",
+    message: `Coinbase premium positive for ${hours.toFixed(1)}h (avg ${(mean * 100).toFixed(3)}%)`,
+    confidence: confidenceFor(hours, COINBASE_POSITIVE_HOURS),
+    values: { hours, mean },
+  };
+}
+
+function kimchiPremiumZScore(s: SignalSeries): SignalCandidate | null {
+  const points = s.kimchiPremium;
+  if (points.length < KIMCHI_MIN_SAMPLES) return null;
+
+  const mean = points.reduce((sum, p) => sum + p.v, 0) / points.length;
+  const variance = points.reduce((sum, p) => sum + (p.v - mean) ** 2, 0) / points.length;
+  const std = Math.sqrt(variance);
+  if (!(std > 0)) return null;
+
+  const current = latest(points).v;
+  const z = (current - mean) / std;
+  if (Math.abs(z) <= KIMCHI_Z_THRESHOLD) return null;
+
+  return {
+    type: "kimchiPremiumZScore",
+    direction: "neutral",
+    message: `Kimchi premium ${(current * 100).toFixed(2)}% is ${z.toFixed(1)}σ from its 24h mean`,
+    confidence: confidenceFor(z, KIMCHI_Z_THRESHOLD),
+    values: { zScore: z, kimchiPremium: current, mean, std },
+  };
+}
+
+export function detectSignals(s: SignalSeries, now: number): SignalCandidate[] {
+  return [
+    oiUpPriceDown(s, now),
+    fundingFlip(s, now),
+    coinbasePremiumPositive(s, now),
+    kimchiPremiumZScore(s),
+  ].filter((c): c is SignalCandidate => c !== null);
+}
+
+function applyCandidates(symbol: string, candidates: SignalCandidate[], now: number) {
+  const seen = new Set<string>();
+
+  for (const candidate of candidates) {
+    const key = `${symbol}:${candidate.type}`;
+    seen.add(key);
+    const current = active.get(key);
+    if (current) {
+      Object.assign(current, candidate, { lastSeen: now });
+      continue;
+    }
+
+    const signal: Signal = {
+      id: randomUUID(),
+      symbol,
+      ...candidate,
+      active: true,
+      firstSeen: now,
+      lastSeen: now,
+    };
+    active.set(key, signal);
+    signalLog.push(signal);
+    if (signalLog.length > SIGNAL_LOG_LIMIT) signalLog.shift();
+    log?.info({ symbol, type: signal.type, confidence: signal.confidence }, "signal raised");
+  }
+
+  for (const [key, signal] of active) {
+    if (signal.symbol === symbol && !seen.has(key)) {
+      signal.active = false;
+      active.delete(key);
+    }
+  }
+}
+
+export function evaluateSignals(update: MarketUpdate, now = Date.now()) {
+  sampleUpdate(update);
+  applyCandidates(update.symbol, detectSignals(seriesFor(update.symbol), now), now);
+}
+
+type SignalsQuery = { symbol?: string; type?: string; active?: string };
+
+export function registerSignalRoutes(app: FastifyInstance) {
+  log = app.log;
+
+  onMarketUpdate((update) => {
+    try {
+      evaluateSignals(update);
+    } catch (error) {
+      app.log.error(error, "failed to evaluate signals");
+    }
+  });
+
+  app.get<{ Querystring: SignalsQuery }>("/api/signals", async (request, reply) => {
+    const { type } = request.query;
+    const info = request.query.symbol ? resolveSymbol(request.query.symbol) : null;
+    if (request.query.symbol && !info) {
+      reply.code(404);
+      return { error: "unknown_symbol" };
+    }
+    if (type && !SignalTypeSchema.safeParse(type).success) {
+      reply.code(400);
+      return { error: "invalid_type", types: SignalTypeSchema.options };
+    }
+    const onlyActive = request.query.active === "true";
+
+    return {
+      signals: signalLog
+        .filter(
+          (s) =>
+            (!info || s.symbol === info.symbol) &&
+            (!type || s.type === type) &&
+            (!onlyActive || s.active),
+        )
+        .sort((a, b) => b.lastSeen - a.lastSeen),
+      ts: Date.now(),
+    };
+  });
+}
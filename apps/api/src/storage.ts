@@ -0,0 +1,22 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export const DATA_DIR = path.resolve(process.env.DATA_DIR || "data");
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path.join(DATA_DIR, name), "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+// Temp file + rename so a crash mid-write never leaves a truncated document behind.
+export async function writeJsonFile(name: string, value: unknown) {
+  const filePath = path.join(DATA_DIR, name);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(value, null, 2));
+  await rename(tmp, filePath);
+}
@@ -0,0 +1,223 @@
+import { BinanceWsTickerSchema, type StreamEvent } from "@bit-auto/shared";
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import WebSocket from "ws";
+import {
+  fetchPremium,
+  fetchPrice,
+  fetchRisk,
+  storePrice,
+} from "./market";
+import { listSymbols, resolveSymbol, type SymbolInfo } from "./symbols";
+import { parsePayload } from "./upstream";
+
+const BINANCE_STREAM_BASE =
+  process.env.BINANCE_STREAM_BASE || "wss://stream.binance.com:9443";
+const STREAM_UPSTREAM = process.env.STREAM_UPSTREAM === "poll" ? "poll" : "binance";
+const POLL_INTERVAL_MS = 5000;
+const RECONNECT_MS = 10_000;
+const HEARTBEAT_MS = 15_000;
+
+export type { StreamEvent } from "@bit-auto/shared";
+
+type Subscriber = (event: StreamEvent) => void;
+
+const subscribers = new Map<string, Set<Subscriber>>();
+const lastSent = new Map<string, string>();
+
+let socket: WebSocket | null = null;
+let socketOpen = false;
+let reconnectTimer: NodeJS.Timeout | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+let log: FastifyInstance["log"] | null = null;
+
+function subscriberCount() {
+  let total = 0;
+  for (const set of subscribers.values()) total += set.size;
+  return total;
+}
+
+// What identifies the value an event carries. Premium payloads are assembled on every call, so
+// their `ts` always moves; the legs' fetch times only change when a venue returned a new quote.
+function eventVersion(event: StreamEvent) {
+  switch (event.type) {
+    case "price":
+      return String(event.data.fetchedAt);
+    case "risk":
+      return String(event.data.ts);
+    case "premium":
+      return Object.values(event.data.legs)
+        .map((leg) => leg.fetchedAt ?? leg.error ?? "")
+        .join("|");
+  }
+}
+
+// Cached reads return the same payload until the TTL expires; only forward new values.
+function publish(symbol: string, event: StreamEvent) {
+  const key = `${symbol}:${event.type}`;
+  const version = eventVersion(event);
+  if (lastSent.get(key) === version) return;
+  lastSent.set(key, version);
+
+  for (const send of subscribers.get(symbol) ?? []) {
+    send(event);
+  }
+}
+
+async function pollSymbol(info: SymbolInfo) {
+  const tasks: Promise<unknown>[] = [
+    fetchRisk(info).then((data) => publish(info.symbol, { type: "risk", data })),
+    fetchPremium(info).then((data) => publish(info.symbol, { type: "premium", data })),
+  ];
+  if (!socketOpen) {
+    tasks.push(fetchPrice(info).then((data) => publish(info.symbol, { type: "price", data })));
+  }
+
+  const results = await Promise.allSettled(tasks);
+  for (const result of results) {
+    if (result.status === "rejected") {
+      log?.warn(result.reason, `stream poll failed for ${info.symbol}`);
+    }
+  }
+}
+
+function pollAll() {
+  for (const symbol of subscribers.keys()) {
+    const info = resolveSymbol(symbol);
+    if (info) void pollSymbol(info);
+  }
+}
+
+function handleTicker(raw: WebSocket.RawData) {
+  try {
+    const ticker = parsePayload(BinanceWsTickerSchema, JSON.parse(raw.toString()), "ticker");
+    const info = resolveSymbol(ticker.s);
+    if (!info) return;
+
+    const payload = storePrice(info, ticker.c, ticker.E ?? Date.now());
+    publish(info.symbol, { type: "price", data: payload });
+  } catch (error) {
+    log?.warn(error, "failed to parse ticker message");
+  }
+}
+
+function connectUpstream() {
+  if (STREAM_UPSTREAM !== "binance" || socket) return;
+
+  const streams = listSymbols()
+    .map((info) => `${info.binance.toLowerCase()}@ticker`)
+    .join("/");
+  const ws = new WebSocket(`${BINANCE_STREAM_BASE}/stream?streams=${streams}`);
+  socket = ws;
+
+  ws.on("open", () => {
+    socketOpen = true;
+    log?.info("binance ticker stream connected");
+  });
+  ws.on("message", handleTicker);
+  ws.on("error", (error) => {
+    log?.warn(error, "binance ticker stream error");
+  });
+  ws.on("close", () => {
+    socket = null;
+    socketOpen = false;
+    if (subscriberCount() > 0 && !reconnectTimer) {
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connectUpstream();
+      }, RECONNECT_MS);
+    }
+  });
+}
+
+function startUpstream() {
+  connectUpstream();
+  if (!pollTimer) {
+    pollTimer = setInterval(pollAll, POLL_INTERVAL_MS);
+  }
+}
+
+function stopUpstream() {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (socket) {
+    socket.close();
+    socket = null;
+    socketOpen = false;
+  }
+  lastSent.clear();
+}
+
+function subscribe(symbol: string, send: Subscriber) {
+  let set = subscribers.get(symbol);
+  if (!set) {
+    set = new Set();
+    subscribers.set(symbol, set);
+  }
+  set.add(send);
+  startUpstream();
+
+  return () => {
+    set.delete(send);
+    if (set.size === 0) subscribers.delete(symbol);
+    if (subscriberCount() === 0) stopUpstream();
+  };
+}
+
+async function streamHandler(
+  request: FastifyRequest<{ Querystring: { symbol?: string } }>,
+  reply: FastifyReply,
+) {
+  const info = resolveSymbol(request.query.symbol);
+  if (!info) {
+    reply.code(404);
+    return { error: "unknown_symbol" };
+  }
+
+  // Hijacking skips Fastify's header pipeline, so carry over what hooks (cors) already set.
+  reply.hijack();
+  reply.raw.writeHead(200, {
+    ...(reply.getHeaders() as Record<string, string>),
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  const send: Subscriber = (event) => {
+    if (reply.raw.destroyed) return;
+    reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  };
+  reply.raw.write(`retry: ${RECONNECT_MS}\n\n`);
+
+  const unsubscribe = subscribe(info.symbol, send);
+  const heartbeat = setInterval(() => reply.raw.write(": ping\n\n"), HEARTBEAT_MS);
+
+  reply.raw.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  // Send the current snapshot straight away instead of waiting for the next tick.
+  const [price, risk, premium] = await Promise.allSettled([
+    fetchPrice(info),
+    fetchRisk(info),
+    fetchPremium(info),
+  ]);
+  if (price.status === "fulfilled") send({ type: "price", data: price.value });
+  if (risk.status === "fulfilled") send({ type: "risk", data: risk.value });
+  if (premium.status === "fulfilled") send({ type: "premium", data: premium.value });
+}
+
+export function registerStreamRoutes(app: FastifyInstance) {
+  log = app.log;
+  app.get("/api/stream", streamHandler);
+  app.addHook("onClose", async () => {
+    stopUpstream();
+  });
+}
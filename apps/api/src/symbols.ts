@@ -0,0 +1,60 @@
+import type { SymbolInfo } from "@bit-auto/shared";
+
+export type { SymbolInfo } from "@bit-auto/shared";
+
+const SYMBOLS: Record<string, SymbolInfo> = {
+  BTC: {
+    symbol: "BTC",
+    binance: "BTCUSDT",
+    upbit: "KRW-BTC",
+    coinbase: "BTC-USD",
+    bybit: "BTCUSDT",
+    okx: "BTC-USDT",
+  },
+  ETH: {
+    symbol: "ETH",
+    binance: "ETHUSDT",
+    upbit: "KRW-ETH",
+    coinbase: "ETH-USD",
+    bybit: "ETHUSDT",
+    okx: "ETH-USDT",
+  },
+  SOL: {
+    symbol: "SOL",
+    binance: "SOLUSDT",
+    upbit: "KRW-SOL",
+    coinbase: "SOL-USD",
+    bybit: "SOLUSDT",
+    okx: "SOL-USDT",
+  },
+  XRP: {
+    symbol: "XRP",
+    binance: "XRPUSDT",
+    upbit: "KRW-XRP",
+    coinbase: "XRP-USD",
+    bybit: "XRPUSDT",
+    okx: "XRP-USDT",
+  },
+};
+
+export const DEFAULT_SYMBOL = "BTC";
+
+export function listSymbols() {
+  return Object.values(SYMBOLS);
+}
+
+// Accepts "btc", "BTC", "BTCUSDT" or "KRW-BTC" style inputs.
+export function resolveSymbol(input: string | undefined | null): SymbolInfo | null {
+  const raw = (input ?? DEFAULT_SYMBOL).trim().toUpperCase();
+  if (!raw) return SYMBOLS[DEFAULT_SYMBOL];
+  if (SYMBOLS[raw]) return SYMBOLS[raw];
+  return (
+    Object.values(SYMBOLS).find(
+      (info) =>
+        info.binance === raw ||
+        info.upbit === raw ||
+        info.coinbase === raw ||
+        info.okx === raw,
+    ) ?? null
+  );
+}
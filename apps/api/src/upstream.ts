@@ -0,0 +1,286 @@
+import type { CircuitState, UpstreamHealthResponse, UpstreamHostHealth } from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import type { z } from "zod";
+import { counter, histogram } from "./metrics";
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.UPSTREAM_TIMEOUT_MS || 5000);
+// `host=ms` pairs, comma separated, e.g. `api.binance.com=3000,open.er-api.com=2000`.
+const HOST_TIMEOUT_MS = parseHostTimeouts(process.env.UPSTREAM_HOST_TIMEOUTS);
+const RETRIES = Number(process.env.UPSTREAM_RETRIES ?? 2);
+const RETRY_BASE_MS = 200;
+const BREAKER_THRESHOLD = Number(process.env.UPSTREAM_BREAKER_THRESHOLD || 5);
+const BREAKER_COOLDOWN_MS = Number(process.env.UPSTREAM_BREAKER_COOLDOWN_MS || 30_000);
+const LATENCY_SAMPLES = 200;
+
+export type { CircuitState, UpstreamHealthResponse, UpstreamHostHealth } from "@bit-auto/shared";
+
+class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    // Metrics label: `timeout`, `network`, `invalid_json` or `http_<status>`.
+    readonly reason: string,
+  ) {
+    super(message);
+  }
+}
+
+class CircuitOpenError extends Error {}
+
+const upstreamDuration = histogram(
+  "upstream_request_duration_seconds",
+  "Upstream request attempts by host and endpoint path, including failed ones.",
+);
+const upstreamErrors = counter(
+  "upstream_errors_total",
+  "Failed upstream calls by host, endpoint path and reason.",
+);
+
+type HostState = {
+  host: string;
+  state: CircuitState;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  retries: number;
+  coalesced: number;
+  latencies: number[];
+  lastError: { message: string; ts: number } | null;
+  lastSuccessAt: number | null;
+  openUntil: number | null;
+  // Half-open lets exactly one probe through; everyone else keeps failing fast.
+  probing: boolean;
+};
+
+const hosts = new Map<string, HostState>();
+const inflight = new Map<string, ReturnType<typeof fetchWithRetries>>();
+let log: FastifyInstance["log"] | null = null;
+
+function parseHostTimeouts(raw: string | undefined) {
+  const timeouts = new Map<string, number>();
+  for (const pair of (raw ?? "").split(",")) {
+    const [host, ms] = pair.split("=").map((s) => s.trim());
+    if (host && Number(ms) > 0) timeouts.set(host, Number(ms));
+  }
+  return timeouts;
+}
+
+function hostState(host: string) {
+  let state = hosts.get(host);
+  if (!state) {
+    state = {
+      host,
+      state: "closed",
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      retries: 0,
+      coalesced: 0,
+      latencies: [],
+      lastError: null,
+      lastSuccessAt: null,
+      openUntil: null,
+      probing: false,
+    };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+function timeoutFor(host: string) {
+  return HOST_TIMEOUT_MS.get(host) ?? DEFAULT_TIMEOUT_MS;
+}
+
+function acquire(h: HostState, now: number) {
+  if (h.state === "open" && h.openUntil !== null && now >= h.openUntil) {
+    h.state = "halfOpen";
+  }
+  if (h.state === "open" || (h.state === "halfOpen" && h.probing)) {
+    throw new CircuitOpenError(`Circuit open for ${h.host}`);
+  }
+  if (h.state === "halfOpen") h.probing = true;
+}
+
+function recordSuccess(h: HostState, latencyMs: number, now: number) {
+  if (h.state !== "closed") log?.info({ host: h.host }, "upstream circuit closed");
+  h.state = "closed";
+  h.probing = false;
+  h.openUntil = null;
+  h.consecutiveFailures = 0;
+  h.lastSuccessAt = now;
+  h.latencies.push(latencyMs);
+  if (h.latencies.length > LATENCY_SAMPLES) h.latencies.shift();
+}
+
+function recordFailure(h: HostState, error: unknown, now: number) {
+  const message = error instanceof Error ? error.message : String(error);
+  h.failures += 1;
+  h.lastError = { message, ts: now };
+
+  // A 4xx means the host answered; only transport failures and 5xx/429 count toward tripping.
+  if (error instanceof UpstreamError && !error.retryable) {
+    if (h.state === "halfOpen") {
+      h.state = "closed";
+      h.probing = false;
+      h.openUntil = null;
+    }
+    return;
+  }
+
+  h.consecutiveFailures += 1;
+  if (h.state === "halfOpen" || h.consecutiveFailures >= BREAKER_THRESHOLD) {
+    h.state = "open";
+    h.probing = false;
+    h.openUntil = now + BREAKER_COOLDOWN_MS;
+    log?.warn({ host: h.host, error: message }, "upstream circuit opened");
+  }
+}
+
+async function attempt(url: string, timeoutMs: number) {
+  try {
+    const res = await fetch(url, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!res.ok) {
+      const body = await res.text();
+      throw new UpstreamError(
+        `Upstream error ${res.status}: ${body}`,
+        res.status >= 500 || res.status === 429,
+        `http_${res.status}`,
+      );
+    }
+    return await res.json();
+  } catch (error) {
+    if (error instanceof UpstreamError) throw error;
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new UpstreamError(`Upstream timeout after ${timeoutMs}ms`, true, "timeout");
+    }
+    if (error instanceof SyntaxError) {
+      throw new UpstreamError(error.message, false, "invalid_json");
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new UpstreamError(message, true, "network");
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Paths only: query strings carry symbols and limits that would multiply the series.
+function endpointLabels(url: string) {
+  const { host, pathname } = new URL(url);
+  return { host, endpoint: pathname };
+}
+
+async function fetchWithRetries(url: string, h: HostState) {
+  const timeoutMs = timeoutFor(h.host);
+  const labels = endpointLabels(url);
+
+  for (let i = 0; ; i++) {
+    try {
+      acquire(h, Date.now());
+    } catch (error) {
+      upstreamErrors.inc({ ...labels, reason: "circuit_open" });
+      throw error;
+    }
+    const started = Date.now();
+    h.requests += 1;
+    try {
+      const json = await attempt(url, timeoutMs);
+      upstreamDuration.observe(labels, (Date.now() - started) / 1000);
+      recordSuccess(h, Date.now() - started, Date.now());
+      return json;
+    } catch (error) {
+      upstreamDuration.observe(labels, (Date.now() - started) / 1000);
+      const reason = error instanceof UpstreamError ? error.reason : "network";
+      upstreamErrors.inc({ ...labels, reason });
+      recordFailure(h, error, Date.now());
+      const retryable = error instanceof UpstreamError && error.retryable;
+      if (!retryable || i >= RETRIES) throw error;
+      h.retries += 1;
+      // Full jitter keeps a burst of callers from retrying in lockstep.
+      await sleep(Math.random() * RETRY_BASE_MS * 2 ** i);
+    }
+  }
+}
+
+// Concurrent calls for the same URL share one upstream request.
+export async function fetchJson(url: string) {
+  const h = hostState(new URL(url).host);
+  const pending = inflight.get(url);
+  if (pending) {
+    h.coalesced += 1;
+    return pending;
+  }
+
+  const request = fetchWithRetries(url, h).finally(() => inflight.delete(url));
+  inflight.set(url, request);
+  return request;
+}
+
+export function parsePayload<T extends z.ZodTypeAny>(
+  schema: T,
+  value: unknown,
+  label: string,
+): z.output<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const where = issue.path.length ? issue.path.join(".") : "payload";
+    throw new Error(`Invalid ${label} response: ${where} ${issue.message}`);
+  }
+  return result.data;
+}
+
+export async function fetchParsed<T extends z.ZodTypeAny>(url: string, schema: T, label: string) {
+  const json = await fetchJson(url);
+  try {
+    return parsePayload(schema, json, label);
+  } catch (error) {
+    upstreamErrors.inc({ ...endpointLabels(url), reason: "invalid_payload" });
+    throw error;
+  }
+}
+
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+export function upstreamHealth(now = Date.now()): UpstreamHealthResponse {
+  const upstreams = [...hosts.values()]
+    .sort((a, b) => a.host.localeCompare(b.host))
+    .map((h): UpstreamHostHealth => {
+      const sorted = [...h.latencies].sort((a, b) => a - b);
+      // An expired open circuit is reported as half-open even before the next call probes it.
+      const state =
+        h.state === "open" && h.openUntil !== null && now >= h.openUntil ? "halfOpen" : h.state;
+      return {
+        host: h.host,
+        state,
+        timeoutMs: timeoutFor(h.host),
+        requests: h.requests,
+        failures: h.failures,
+        consecutiveFailures: h.consecutiveFailures,
+        retries: h.retries,
+        coalesced: h.coalesced,
+        latencyMs: {
+          p50: percentile(sorted, 0.5),
+          p90: percentile(sorted, 0.9),
+          p99: percentile(sorted, 0.99),
+        },
+        lastError: h.lastError,
+        lastSuccessAt: h.lastSuccessAt,
+        openUntil: state === "open" ? h.openUntil : null,
+      };
+    });
+  return { upstreams, ts: now };
+}
+
+export function registerUpstreamRoutes(app: FastifyInstance) {
+  log = app.log;
+
+  app.get("/api/health/upstreams", async () => upstreamHealth());
+}
@@ -0,0 +1,40 @@
+import { cached, type CachePolicy } from "./cache";
+import { listExchanges, type ExchangeAdapter } from "./exchanges";
+import type { SymbolInfo } from "./symbols";
+
+// One snapshot is ~20 upstream calls, so every caller within the TTL shares the same one.
+const VENUES_POLICY: CachePolicy = { ttlMs: 5000, staleWhileRevalidateMs: 10_000 };
+
+export type Settled<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export async function settle<T>(task: (() => Promise<T>) | undefined): Promise<Settled<T> | null> {
+  if (!task) return null;
+  try {
+    return { ok: true, value: await task() };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function snapshotVenue(adapter: ExchangeAdapter, info: SymbolInfo) {
+  const [spot, orderbook, funding, openInterest] = await Promise.all([
+    settle(() => adapter.fetchSpot(info)),
+    settle(() => adapter.fetchOrderbookTop(info)),
+    settle(adapter.fetchFunding && (() => adapter.fetchFunding!(info))),
+    settle(adapter.fetchOpenInterest && (() => adapter.fetchOpenInterest!(info))),
+  ]);
+  return { venue: adapter.id, quote: adapter.quote, spot, orderbook, funding, openInterest };
+}
+
+async function loadVenueSnapshot(info: SymbolInfo) {
+  const venues = await Promise.all(listExchanges().map((a) => snapshotVenue(a, info)));
+  return { symbol: info.symbol, venues, ts: Date.now() };
+}
+
+// Per-venue breakdown of everything the adapters expose; `null` means the venue has no such market.
+export async function fetchVenueSnapshot(info: SymbolInfo) {
+  const result = await cached(`venues:${info.symbol}`, VENUES_POLICY, () =>
+    loadVenueSnapshot(info),
+  );
+  return { ...result.value, cached: result.cached };
+}
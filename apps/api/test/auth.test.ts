@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import type { FastifyInstance } from "fastify";
+
+const ADMIN_KEY = "test-admin-key";
+let auth: typeof import("../src/auth");
+let app: FastifyInstance;
+let readKey: string;
+
+const position = { symbol: "BTC", kind: "spot", side: "long", entryPrice: 60_000, size: 1 };
+const alert = { symbol: "BTC", metric: "price", condition: "above", threshold: 70_000 };
+
+before(async () => {
+  process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "bit-auto-auth-"));
+  process.env.API_AUTH = "optional";
+  process.env.ADMIN_API_KEY = ADMIN_KEY;
+
+  // Imported late so the modules read the env above.
+  auth = await import("../src/auth");
+  const { registerAlertRoutes } = await import("../src/alerts");
+  const { registerPortfolioRoutes } = await import("../src/portfolio");
+  const { default: Fastify } = await import("fastify");
+  app = Fastify();
+  auth.registerAuthRoutes(app);
+  registerAlertRoutes(app);
+  registerPortfolioRoutes(app);
+  await app.ready();
+
+  const created = await app.inject({
+    method: "POST",
+    url: "/api/admin/keys",
+    headers: { "x-api-key": ADMIN_KEY },
+    payload: { name: "reader" },
+  });
+  assert.equal(created.statusCode, 201);
+  readKey = created.json().key;
+});
+
+after(() => app.close());
+
+test("anonymous callers can read but never write", async () => {
+  assert.equal((await app.inject({ url: "/api/portfolio" })).statusCode, 200);
+
+  const res = await app.inject({ method: "POST", url: "/api/portfolio", payload: position });
+  assert.equal(res.statusCode, 401);
+  assert.equal(res.json().error, "api_key_required");
+});
+
+test("a read key may write positions but only admin keys change alerts", async () => {
+  const headers = { "x-api-key": readKey };
+  const added = await app.inject({
+    method: "POST",
+    url: "/api/portfolio",
+    headers,
+    payload: position,
+  });
+  assert.equal(added.statusCode, 201);
+  const removed = await app.inject({
+    method: "DELETE",
+    url: `/api/portfolio/${added.json().id}`,
+    headers,
+  });
+  assert.equal(removed.statusCode, 204);
+
+  const forbidden = await app.inject({
+    method: "POST",
+    url: "/api/alerts",
+    headers,
+    payload: alert,
+  });
+  assert.equal(forbidden.statusCode, 403);
+
+  const created = await app.inject({
+    method: "POST",
+    url: "/api/alerts",
+    headers: { "x-api-key": ADMIN_KEY },
+    payload: alert,
+  });
+  assert.equal(created.statusCode, 201);
+});
+
+test("every apiKey in a logged URL is redacted", () => {
+  assert.equal(
+    auth.redactApiKey("/api/stream?apiKey=one&symbol=BTC&apiKey=two"),
+    "/api/stream?apiKey=[redacted]&symbol=BTC&apiKey=[redacted]",
+  );
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { startFakeRedis } from "./helpers/fake-redis";
+
+let redis: Awaited<ReturnType<typeof startFakeRedis>>;
+let cache: typeof import("../src/cache");
+
+const PREFIX = "test:";
+const POLICY = { ttlMs: 100, staleWhileRevalidateMs: 200, staleIfErrorMs: 1000 };
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+before(async () => {
+  redis = await startFakeRedis();
+  process.env.CACHE_BACKEND = "redis";
+  process.env.REDIS_URL = redis.url;
+  process.env.CACHE_PREFIX = PREFIX;
+  // Imported late so the module reads the env above.
+  cache = await import("../src/cache");
+  // Commands fail rather than queue until the client is ready, which follows its INFO check.
+  while (!redis.commands.some(([name]) => name.toUpperCase() === "INFO")) await sleep(10);
+  await sleep(20);
+});
+
+after(async () => {
+  await cache.closeCache();
+  await redis.close();
+});
+
+test("values round-trip through redis under the prefix and expire after every stale window", async () => {
+  let calls = 0;
+  const load = async () => ({ price: 100 + ++calls });
+
+  const miss = await cache.cached("redis:roundtrip", POLICY, load);
+  assert.deepEqual(miss.value, { price: 101 });
+  assert.equal(miss.cached, false);
+
+  const stored = redis.get(`${PREFIX}redis:roundtrip`);
+  assert.ok(stored);
+  assert.deepEqual(JSON.parse(stored), { value: { price: 101 }, fetchedAt: miss.fetchedAt });
+  const set = redis.commands.find((c) => c[0] === "set" && c[1] === `${PREFIX}redis:roundtrip`);
+  assert.deepEqual(set?.slice(3), ["PX", String(POLICY.ttlMs + POLICY.staleIfErrorMs)]);
+
+  const hit = await cache.cached("redis:roundtrip", POLICY, load);
+  assert.equal(hit.cached, true);
+  assert.equal(calls, 1);
+  // The refresh lock is released once the value is stored.
+  assert.equal(redis.get(`${PREFIX}lock:redis:roundtrip`), null);
+});
+
+test("stale-while-revalidate refreshes the redis value in the background", async () => {
+  let calls = 0;
+  const load = async () => ++calls;
+  await cache.cached("redis:swr", POLICY, load);
+  await sleep(POLICY.ttlMs + 20);
+
+  const served = await cache.cached("redis:swr", POLICY, load);
+  assert.equal(served.value, 1);
+  assert.equal(served.cached, true);
+
+  await sleep(50);
+  assert.equal(calls, 2);
+  assert.equal(JSON.parse(redis.get(`${PREFIX}redis:swr`) ?? "null").value, 2);
+});
+
+test("a miss waits for the instance holding the lock instead of loading itself", async () => {
+  redis.set(`${PREFIX}lock:redis:locked`, "other-instance", 10_000);
+  // The other instance publishes its value a little later.
+  setTimeout(() => {
+    redis.set(`${PREFIX}redis:locked`, JSON.stringify({ value: "theirs", fetchedAt: Date.now() }));
+  }, 250);
+
+  let calls = 0;
+  const result = await cache.cached("redis:locked", POLICY, async () => {
+    calls += 1;
+    return "ours";
+  });
+  assert.equal(result.value, "theirs");
+  assert.equal(result.cached, true);
+  assert.equal(calls, 0);
+  // Someone else's lock is never released by us.
+  assert.equal(redis.get(`${PREFIX}lock:redis:locked`), "other-instance");
+
+  assert.equal(await cache.refreshCached("redis:locked", POLICY, async () => "ours"), false);
+});
+
+test("an unreachable redis degrades to loading on every read", async () => {
+  await redis.close();
+  await sleep(50);
+
+  let calls = 0;
+  const load = async () => ++calls;
+  assert.equal((await cache.cached("redis:down", POLICY, load)).value, 1);
+  assert.equal((await cache.cached("redis:down", POLICY, load)).value, 2);
+});
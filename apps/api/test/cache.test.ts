@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+
+let cache: typeof import("../src/cache");
+
+const POLICY = { ttlMs: 100, staleWhileRevalidateMs: 200, staleIfErrorMs: 1000 };
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// A loader that counts its calls and answers with the call number.
+function counting(delayMs = 0) {
+  const loader = async () => {
+    loader.calls += 1;
+    const call = loader.calls;
+    await sleep(delayMs);
+    return call;
+  };
+  loader.calls = 0;
+  return loader;
+}
+
+before(async () => {
+  process.env.CACHE_BACKEND = "memory";
+  // Imported late so the module reads the env above.
+  cache = await import("../src/cache");
+});
+
+after(() => cache.closeCache());
+
+test("concurrent misses share one load, later reads hit", async () => {
+  const load = counting(50);
+  const results = await Promise.all(
+    Array.from({ length: 5 }, () => cache.cached("memory:coalesce", POLICY, load)),
+  );
+
+  assert.equal(load.calls, 1);
+  assert.deepEqual(
+    results.map((r) => r.value),
+    [1, 1, 1, 1, 1],
+  );
+  assert.equal(results.filter((r) => !r.cached).length, 1);
+
+  const hit = await cache.cached("memory:coalesce", POLICY, load);
+  assert.equal(hit.value, 1);
+  assert.equal(hit.cached, true);
+  assert.equal(load.calls, 1);
+});
+
+test("stale-while-revalidate serves the old value and refreshes once in the background", async () => {
+  const load = counting(30);
+  await cache.cached("memory:swr", POLICY, load);
+  await sleep(POLICY.ttlMs + 20);
+
+  const served = await Promise.all([
+    cache.cached("memory:swr", POLICY, load),
+    cache.cached("memory:swr", POLICY, load),
+  ]);
+  assert.deepEqual(
+    served.map((r) => [r.value, r.cached, r.stale]),
+    [
+      [1, true, false],
+      [1, true, false],
+    ],
+  );
+
+  await sleep(60);
+  assert.equal(load.calls, 2);
+  assert.equal((await cache.cached("memory:swr", POLICY, load)).value, 2);
+});
+
+test("a failed refresh past the revalidate window falls back to the old value", async () => {
+  await cache.cached("memory:sie", POLICY, async () => "old");
+  await sleep(POLICY.ttlMs + POLICY.staleWhileRevalidateMs + 20);
+
+  const result = await cache.cached("memory:sie", POLICY, async () => {
+    throw new Error("upstream down");
+  });
+  assert.equal(result.value, "old");
+  assert.equal(result.stale, true);
+  assert.equal(result.error, "upstream down");
+
+  const policy = { ...POLICY, staleIfErrorMs: 0 };
+  await assert.rejects(
+    cache.cached("memory:sie", policy, async () => {
+      throw new Error("upstream down");
+    }),
+    /upstream down/,
+  );
+});
+
+test("refreshCached skips values younger than minAgeMs and refreshes already running", async () => {
+  const load = counting(50);
+  assert.equal(await cache.refreshCached("memory:refresh", POLICY, load), true);
+  assert.equal(await cache.refreshCached("memory:refresh", POLICY, load, 60_000), false);
+
+  const [first, second] = await Promise.all([
+    cache.refreshCached("memory:refresh", POLICY, load),
+    cache.refreshCached("memory:refresh", POLICY, load),
+  ]);
+  assert.deepEqual([first, second], [true, false]);
+  assert.equal(load.calls, 2);
+});
@@ -0,0 +1,107 @@
+import net from "node:net";
+import type { AddressInfo } from "node:net";
+
+type Entry = { value: string; expiresAt: number };
+
+function bulk(value: string | null) {
+  return value === null ? "$-1\r\n" : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+// Reads one RESP array of bulk strings from `buffer`, or null if it hasn't fully arrived yet.
+function parseCommand(buffer: Buffer): { args: string[]; rest: Buffer } | null {
+  let offset = 0;
+  function line() {
+    const end = buffer.indexOf("\r\n", offset);
+    if (end < 0) return null;
+    const text = buffer.toString("utf8", offset, end);
+    offset = end + 2;
+    return text;
+  }
+
+  const header = line();
+  if (header === null) return null;
+  const args: string[] = [];
+  for (let i = 0; i < Number(header.slice(1)); i++) {
+    const size = line();
+    if (size === null) return null;
+    const length = Number(size.slice(1));
+    if (buffer.length < offset + length + 2) return null;
+    args.push(buffer.toString("utf8", offset, offset + length));
+    offset += length + 2;
+  }
+  return { args, rest: buffer.subarray(offset) };
+}
+
+// Just enough of the Redis protocol for the cache store: GET, SET with PX/NX, and the unlock
+// script run through EVAL. `data` is exposed so tests can play another instance.
+export async function startFakeRedis() {
+  const data = new Map<string, Entry>();
+  const commands: string[][] = [];
+  const sockets = new Set<net.Socket>();
+
+  function get(key: string) {
+    const entry = data.get(key);
+    if (entry && Date.now() >= entry.expiresAt) data.delete(key);
+    return data.get(key)?.value ?? null;
+  }
+
+  function run([name, ...args]: string[]) {
+    switch (name.toUpperCase()) {
+      case "INFO":
+        return bulk("# Server\r\nredis_version:7.2.0\r\nloading:0\r\n");
+      case "GET":
+        return bulk(get(args[0]));
+      case "SET": {
+        const [key, value, ...options] = args;
+        const flags = options.map((option) => option.toUpperCase());
+        if (flags.includes("NX") && get(key) !== null) return bulk(null);
+        const px = flags.indexOf("PX");
+        const ttl = px >= 0 ? Number(options[px + 1]) : Infinity;
+        data.set(key, { value, expiresAt: Date.now() + ttl });
+        return "+OK\r\n";
+      }
+      case "EVAL": {
+        // Only the compare-and-delete unlock script is ever sent.
+        const [, , key, token] = args;
+        if (get(key) !== token) return ":0\r\n";
+        data.delete(key);
+        return ":1\r\n";
+      }
+      case "CLIENT":
+        return "+OK\r\n";
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  }
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    let pending: Buffer = Buffer.alloc(0);
+    socket.on("data", (chunk: Buffer) => {
+      pending = Buffer.concat([pending, chunk]);
+      for (let parsed = parseCommand(pending); parsed; parsed = parseCommand(pending)) {
+        pending = parsed.rest;
+        commands.push(parsed.args);
+        socket.write(run(parsed.args));
+      }
+    });
+  });
+  server.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    data,
+    commands,
+    get,
+    set(key: string, value: string, ttlMs = Infinity) {
+      data.set(key, { value, expiresAt: Date.now() + ttlMs });
+    },
+    close() {
+      for (const socket of sockets) socket.destroy();
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
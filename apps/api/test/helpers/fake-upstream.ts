@@ -0,0 +1,48 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type FakeReply = { status?: number; body: unknown };
+
+type Handler = (url: URL) => FakeReply;
+
+// Stands in for the exchange/FX hosts: `fetch` calls to any https host are rerouted to a local
+// server that answers from `routes`, keyed by `<host><path>`. Unknown routes answer 404.
+export async function startFakeUpstream() {
+  const routes = new Map<string, Handler>();
+  const calls: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://fake");
+    const [, host, ...rest] = url.pathname.split("/");
+    const upstream = new URL(`https://${host}/${rest.join("/")}${url.search}`);
+    const key = `${upstream.host}${upstream.pathname}`;
+    calls.push(key);
+
+    const handler = routes.get(key);
+    const reply = handler ? handler(upstream) : { status: 404, body: { error: "not found" } };
+    res.writeHead(reply.status ?? 200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(reply.body));
+  });
+  server.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    if (url.protocol !== "https:") return realFetch(input, init);
+    return realFetch(`http://127.0.0.1:${port}/${url.host}${url.pathname}${url.search}`, init);
+  };
+
+  return {
+    calls,
+    route(key: string, handler: Handler | FakeReply) {
+      routes.set(key, typeof handler === "function" ? handler : () => handler);
+    },
+    async close() {
+      globalThis.fetch = realFetch;
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import http from "node:http";
+
+export type SseEvent = { event: string; data: unknown };
+
+// Minimal EventSource for tests: collects every event and lets a test wait for a matching one.
+export function openSse(url: string) {
+  const events: SseEvent[] = [];
+  const waiters = new Set<() => void>();
+  let buffer = "";
+
+  const request = http.get(url, (res) => {
+    res.setEncoding("utf8");
+    res.on("data", (chunk: string) => {
+      buffer += chunk;
+      let end;
+      while ((end = buffer.indexOf("\n\n")) >= 0) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const event = /^event: (.*)$/m.exec(block)?.[1];
+        const data = /^data: (.*)$/m.exec(block)?.[1];
+        if (event && data) events.push({ event, data: JSON.parse(data) });
+      }
+      for (const wake of waiters) wake();
+    });
+  });
+  request.on("error", () => {});
+
+  function waitFor(match: (e: SseEvent) => boolean, timeoutMs = 5000) {
+    return new Promise<SseEvent>((resolve, reject) => {
+      const check = () => {
+        const found = events.find(match);
+        if (!found) return;
+        cleanup();
+        resolve(found);
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error(`no matching event within ${timeoutMs}ms`));
+      }, timeoutMs);
+      const cleanup = () => {
+        clearTimeout(timer);
+        waiters.delete(check);
+      };
+      waiters.add(check);
+      check();
+    });
+  }
+
+  return { events, waitFor, close: () => request.destroy() };
+}
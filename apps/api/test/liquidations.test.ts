@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import type { LiquidationsResponse } from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+
+const FIXTURE = path.join(__dirname, "../fixtures/binance-force-orders.jsonl");
+const dataDir = mkdtempSync(path.join(tmpdir(), "bit-auto-liquidations-"));
+let liquidations: typeof import("../src/liquidations");
+let app: FastifyInstance;
+
+before(async () => {
+  process.env.DATA_DIR = dataDir;
+  process.env.LIQUIDATION_UPSTREAM = "fixture";
+  process.env.LIQUIDATION_FIXTURE = FIXTURE;
+  // Imported late so the module reads the env above.
+  liquidations = await import("../src/liquidations");
+  const { default: Fastify } = await import("fastify");
+  app = Fastify();
+  liquidations.registerLiquidationRoutes(app);
+  await app.ready();
+});
+
+after(() => app.close());
+
+test("every recorded forceOrder message parses into a liquidation", () => {
+  const lines = readFileSync(FIXTURE, "utf8").split("\n").filter(Boolean);
+  assert.ok(lines.length > 0);
+
+  for (const line of lines) {
+    const { o } = JSON.parse(line).data;
+    const event = liquidations.parseForceOrder(line);
+    assert.ok(event, line);
+    assert.equal(`${event.symbol}USDT`, o.s);
+    assert.equal(event.side, o.S === "SELL" ? "long" : "short");
+    assert.equal(event.price, Number(o.ap));
+    assert.equal(event.qty, Number(o.z));
+    assert.equal(event.notional, Number(o.ap) * Number(o.z));
+    assert.equal(event.ts, o.T);
+  }
+});
+
+test("unknown symbols and unfilled orders are ignored, malformed messages throw", () => {
+  const line = readFileSync(FIXTURE, "utf8").split("\n")[0];
+  const message = JSON.parse(line);
+
+  message.data.o.s = "DOGEUSDT";
+  assert.equal(liquidations.parseForceOrder(JSON.stringify(message)), null);
+  message.data.o.s = "BTCUSDT";
+  message.data.o.z = "0";
+  assert.equal(liquidations.parseForceOrder(JSON.stringify(message)), null);
+  assert.throws(() => liquidations.parseForceOrder(JSON.stringify({ data: { o: {} } })));
+  assert.equal(liquidations.parseForceOrder(line, 42)?.ts, 42);
+});
+
+test("fixture replay feeds the API and stays out of the real history directory", async () => {
+  // The fixture plays one message a second; the first few cover SOL.
+  await new Promise((resolve) => setTimeout(resolve, 2500));
+
+  const res = await app.inject({ url: "/api/market/SOL/liquidations?window=1h" });
+  const body = res.json() as LiquidationsResponse;
+  assert.equal(res.statusCode, 200);
+  assert.equal(body.upstream, "fixture");
+  assert.ok(body.totals["1h"].long.count >= 1);
+  assert.ok(body.buckets.length >= 1);
+
+  assert.ok(existsSync(path.join(dataDir, "liquidations-fixture", "SOL")));
+  assert.ok(!existsSync(path.join(dataDir, "liquidations")));
+});
+
+function storedBytes(dir: string) {
+  return readdirSync(dir, { recursive: true, encoding: "utf8" })
+    .map((name) => path.join(dir, name))
+    .filter((file) => statSync(file).isFile())
+    .reduce((sum, file) => sum + statSync(file).size, 0);
+}
+
+test("closing the server stops the replay", async () => {
+  await app.close();
+  // Let any write that was already in flight land.
+  await new Promise((resolve) => setTimeout(resolve, 200));
+  const before = storedBytes(path.join(dataDir, "liquidations-fixture"));
+
+  await new Promise((resolve) => setTimeout(resolve, 2500));
+  assert.equal(storedBytes(path.join(dataDir, "liquidations-fixture")), before);
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import type { PortfolioResponse, Position } from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import { startFakeUpstream } from "./helpers/fake-upstream";
+
+const HOUR_MS = 60 * 60 * 1000;
+const INTERVAL_MS = 8 * HOUR_MS;
+const CURRENT_MARK = 61_000;
+
+let upstream: Awaited<ReturnType<typeof startFakeUpstream>>;
+let app: FastifyInstance;
+let fundingUp = false;
+const settlements: { fundingTime: number; fundingRate: string; markPrice: string }[] = [];
+
+before(async () => {
+  upstream = await startFakeUpstream();
+  upstream.route("api.binance.com/api/v3/ticker/24hr", {
+    body: { lastPrice: String(CURRENT_MARK), volume: "1" },
+  });
+  upstream.route("fapi.binance.com/fapi/v1/fundingRate", (url) => {
+    if (!fundingUp) return { status: 500, body: { msg: "down" } };
+    const since = Number(url.searchParams.get("startTime") ?? 0);
+    return { body: settlements.filter((row) => row.fundingTime >= since) };
+  });
+  process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "bit-auto-portfolio-"));
+  process.env.UPSTREAM_RETRIES = "0";
+
+  // Imported late so the module reads the env above.
+  const { registerPortfolioRoutes } = await import("../src/portfolio");
+  const { default: Fastify } = await import("fastify");
+  app = Fastify();
+  registerPortfolioRoutes(app);
+  await app.ready();
+});
+
+after(async () => {
+  await app.close();
+  await upstream.close();
+});
+
+async function portfolio() {
+  const res = await app.inject({ url: "/api/portfolio" });
+  assert.equal(res.statusCode, 200);
+  return res.json() as PortfolioResponse;
+}
+
+test("missed funding is back-filled from settled history, not guessed", async () => {
+  const now = Date.now();
+  const openedAt = now - 2 * 24 * HOUR_MS;
+  const created = await app.inject({
+    method: "POST",
+    url: "/api/portfolio",
+    payload: {
+      symbol: "BTC",
+      kind: "perp",
+      side: "long",
+      entryPrice: 60_000,
+      size: 2,
+      leverage: 5,
+      openedAt,
+    },
+  });
+  assert.equal(created.statusCode, 201);
+
+  // Binance stamps settlements a few ms after each 8h boundary.
+  const first = Math.ceil(openedAt / INTERVAL_MS) * INTERVAL_MS;
+  for (let t = first, i = 0; t <= now; t += INTERVAL_MS, i++) {
+    settlements.push({
+      fundingTime: t + 3,
+      fundingRate: i % 2 ? "-0.0002" : "0.0001",
+      // Older rows sometimes come back without a mark.
+      markPrice: i === 0 ? "" : String(60_000 + i * 100),
+    });
+  }
+
+  // With the history unreadable nothing is charged.
+  const pending = (await portfolio()).positions[0];
+  assert.equal(pending.fundingPaid, 0);
+  assert.equal(pending.fundingSettledAt, openedAt);
+
+  fundingUp = true;
+  const expected = settlements.reduce((sum, row) => {
+    const mark = row.markPrice ? Number(row.markPrice) : CURRENT_MARK;
+    return sum - 2 * mark * Number(row.fundingRate);
+  }, 0);
+  const settled: Position = (await portfolio()).positions[0];
+  assert.ok(Math.abs(settled.fundingPaid - expected) < 1e-9);
+  assert.equal(settled.fundingSettledAt, settlements[settlements.length - 1].fundingTime);
+
+  // Already settled intervals are not charged again.
+  const again = (await portfolio()).positions[0];
+  assert.equal(again.fundingPaid, settled.fundingPaid);
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import type { PremiumPayload } from "@bit-auto/shared";
+import type { FastifyInstance } from "fastify";
+import { WebSocketServer, type WebSocket } from "ws";
+import { startFakeUpstream } from "./helpers/fake-upstream";
+import { openSse } from "./helpers/sse";
+
+let upstream: Awaited<ReturnType<typeof startFakeUpstream>>;
+let wss: WebSocketServer;
+let app: FastifyInstance;
+let base: string;
+let spotPrice = 60_000;
+
+function ticker(symbol: string, price: number, ts: number) {
+  const data = { s: symbol, c: String(price), E: ts };
+  return JSON.stringify({ stream: `${symbol.toLowerCase()}@ticker`, data });
+}
+
+function nextConnection() {
+  return new Promise<WebSocket>((resolve) => wss.once("connection", resolve));
+}
+
+before(async () => {
+  upstream = await startFakeUpstream();
+  upstream.route("api.binance.com/api/v3/ticker/24hr", () => ({
+    body: { lastPrice: String(spotPrice), volume: "1" },
+  }));
+
+  wss = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await new Promise((resolve) => wss.once("listening", resolve));
+  process.env.BINANCE_STREAM_BASE = `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`;
+  process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "bit-auto-stream-"));
+  process.env.UPSTREAM_RETRIES = "0";
+
+  // Imported late so the module reads the env above.
+  const { default: Fastify } = await import("fastify");
+  const { registerStreamRoutes } = await import("../src/stream");
+  app = Fastify();
+  registerStreamRoutes(app);
+  await app.listen({ port: 0, host: "127.0.0.1" });
+  base = `http://127.0.0.1:${(app.server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await app.close();
+  wss.close();
+  await upstream.close();
+});
+
+test("ticker messages fan out to every subscriber of the symbol, once per value", async (t) => {
+  const connected = nextConnection();
+  const first = openSse(`${base}/api/stream?symbol=BTC`);
+  const second = openSse(`${base}/api/stream?symbol=BTC`);
+  const other = openSse(`${base}/api/stream?symbol=ETH`);
+  t.after(() => [first, second, other].forEach((client) => client.close()));
+  const socket = await connected;
+
+  const ts = Date.now();
+  const isTick = (e: { event: string; data: unknown }) =>
+    e.event === "price" && (e.data as { price: number }).price === 61_000;
+  socket.send(ticker("BTCUSDT", 61_000, ts));
+  socket.send(ticker("BTCUSDT", 61_000, ts));
+  await Promise.all([first.waitFor(isTick), second.waitFor(isTick)]);
+  await new Promise((resolve) => setTimeout(resolve, 200));
+
+  assert.equal(first.events.filter(isTick).length, 1);
+  assert.equal(second.events.filter(isTick).length, 1);
+  assert.equal(other.events.filter(isTick).length, 0);
+});
+
+test("polls REST prices while the ticker stream is down", async (t) => {
+  const connected = nextConnection();
+  const client = openSse(`${base}/api/stream?symbol=BTC`);
+  t.after(() => client.close());
+  const socket = await connected;
+
+  spotPrice = 62_000;
+  socket.terminate();
+  const polled = await client.waitFor(
+    (e) => e.event === "price" && (e.data as { price: number }).price === 62_000,
+    12_000,
+  );
+  assert.equal((polled.data as { source: string }).source, "binance");
+  assert.ok(upstream.calls.includes("api.binance.com/api/v3/ticker/24hr"));
+
+  await new Promise((resolve) => setTimeout(resolve, 5500));
+  const premiums = client.events.filter((e) => e.event === "premium");
+  // Premium legs keep failing the same way; a premium only goes out again once a leg refetched.
+  const versions = premiums.slice(1).map((e) => {
+    const legs = Object.values((e.data as PremiumPayload).legs);
+    return legs.map((leg) => leg.fetchedAt).join("|");
+  });
+  assert.equal(new Set(versions).size, versions.length);
+});
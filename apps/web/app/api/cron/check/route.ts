@@ -1,81 +1,167 @@
+import { randomUUID } from "node:crypto";
+import { RiskPayloadSchema } from "@bit-auto/shared";
 import { NextResponse } from "next/server";
-import crypto from "node:crypto";
+import { alertStateStore, transition } from "@/lib/alert-state";
+import { parseApi } from "@/lib/api";
+import { cronRunStore, verifyCronRequest, type CronRun, type CronTrigger } from "@/lib/cron";
+import { NOTIFY_MAX_MS, notify, type DeliveryRecord } from "@/lib/notifier";
+import { FETCH_TIMEOUT_MS, fetchUpstream } from "@/lib/upstream";
 
-const COOLDOWN_MS = 10 * 60 * 1000;
-
-type RiskResponse = {
-  fundingRate: number;
-  openInterest: number;
-  risk?: { level?: string; reasons?: string[] };
-};
-
-const lastAlerts = new Map<string, number>();
+const JOB = "check";
+// Slack for the state store reads and writes around the upstream call and the notifications.
+const LOCK_MARGIN_MS = 15_000;
+// Longest a run may hold the lock. Never shorter than a run can take, or a second invocation could
+// take the lock while the first is still sending and alert twice.
+const LOCK_TTL_MS = Math.max(
+  Number(process.env.CRON_LOCK_TTL_MS || 60_000),
+  FETCH_TIMEOUT_MS + NOTIFY_MAX_MS + LOCK_MARGIN_MS,
+);
 
 function nowMs() {
   return Date.now();
 }
 
-function alertKey(level: string, reasons: string[]) {
-  const raw = `${level}:${reasons.join("|")}`;
-  return crypto.createHash("sha256").update(raw).digest("hex");
+async function recordRun(run: CronRun) {
+  try {
+    await cronRunStore().record(run);
+  } catch (error) {
+    console.error("[CRON] failed to record run", error);
+  }
 }
 
-function parseNumber(value: unknown, label: string) {
-  const n = typeof value === "string" ? Number.parseFloat(value) : Number(value);
-  if (!Number.isFinite(n)) {
-    throw new Error(`Invalid ${label} value`);
+async function acquireLock() {
+  try {
+    return await cronRunStore().lock(JOB, LOCK_TTL_MS);
+  } catch (error) {
+    // Without a reachable lock the run goes ahead; a possible double alert beats a missed one.
+    console.warn("[CRON] lock unavailable, running unlocked", error);
+    return "";
   }
-  return n;
 }
 
-export async function GET(request: Request) {
-  try {
-    const url = new URL("/api/market/btc-risk", request.url);
-    const res = await fetch(url, { cache: "no-store" });
-    if (!res.ok) {
-      throw new Error(`Risk API HTTP ${res.status}`);
-    }
+async function checkRisk(run: CronRun) {
+  const data = parseApi(
+    RiskPayloadSchema,
+    await fetchUpstream("/api/market/btc-risk"),
+    "Risk API",
+  );
+  const { level, reasons } = data.risk;
+  const { fundingRate, openInterest, symbol } = data;
+  run.values = { symbol, level, fundingRate, openInterest, reasons };
 
-    const data = (await res.json()) as RiskResponse;
-    const level = data.risk?.level;
-    const reasons = data.risk?.reasons ?? [];
-    if (!level || !Array.isArray(reasons)) {
-      throw new Error("Invalid risk payload");
-    }
+  const store = alertStateStore();
+  const prev = await store.get(symbol);
+  const now = nowMs();
+  const next = transition(prev, symbol, level, reasons, now);
+  run.event = next.event;
 
-    const fundingRate = parseNumber(data.fundingRate, "fundingRate");
-    const openInterest = parseNumber(data.openInterest, "openInterest");
+  let deliveries: DeliveryRecord[] = [];
+  if (next.notify) {
+    const title =
+      next.event === "resolved"
+        ? `[OK] ${symbol} risk back to normal`
+        : `[${level}] ${symbol} risk ${next.event === "escalated" ? "escalated" : "alert"}`;
+    console.log(
+      `[ALERT] event=${next.event} level=${level} funding=${fundingRate} oi=${openInterest} reasons=${next.state.reasons.join(
+        ";",
+      )}`,
+    );
+    deliveries = await notify(
+      {
+        level,
+        title,
+        text: [
+          `Funding rate: ${(fundingRate * 100).toFixed(4)}%`,
+          `Open interest: ${openInterest}`,
+          `Reasons: ${next.state.reasons.length ? next.state.reasons.join(", ") : "-"}`,
+        ].join("\n"),
+        symbol,
+        fundingRate,
+        openInterest,
+        reasons: next.state.reasons,
+        ts: now,
+      },
+      undefined,
+      next.event === "resolved" ? (prev?.lastNotifiedLevel ?? level) : level,
+    );
+  }
+  await store.set(next.state);
 
-    let alerted = false;
-    let lastAlertTs: number | undefined;
+  const sent = deliveries.filter((record) => !record.skipped);
+  run.deliveries = sent.length;
+  run.failedDeliveries = sent.filter((record) => !record.ok).length;
+  run.outcome = next.notify ? "alerted" : "ok";
 
-    if (level === "WARN" || level === "DANGER") {
-      const key = alertKey(level, reasons);
-      const last = lastAlerts.get(key);
-      const now = nowMs();
-      if (!last || now - last >= COOLDOWN_MS) {
-        console.log(
-          `[ALERT] level=${level} funding=${fundingRate} oi=${openInterest} reasons=${reasons.join(
-            ";",
-          )}`,
-        );
-        lastAlerts.set(key, now);
-        alerted = true;
-        lastAlertTs = now;
-      } else {
-        lastAlertTs = last;
-      }
-    }
+  return {
+    ok: true,
+    alerted: next.notify,
+    lastAlertTs: next.state.lastNotifiedAt ?? undefined,
+    alert: {
+      event: next.event,
+      level: next.state.level,
+      since: next.state.since,
+      reasons: next.state.reasons,
+      lastNotifiedLevel: next.state.lastNotifiedLevel,
+      lastNotifiedAt: next.state.lastNotifiedAt,
+      store: store.kind,
+    },
+    deliveries,
+  };
+}
 
-    return NextResponse.json({
-      ok: true,
-      alerted,
-      lastAlertTs,
-    });
+function startRun(method: string, trigger: CronTrigger): CronRun {
+  const startedAt = nowMs();
+  return {
+    id: randomUUID(),
+    job: JOB,
+    trigger,
+    method,
+    startedAt,
+    finishedAt: startedAt,
+    durationMs: 0,
+    outcome: "error",
+    values: null,
+    event: null,
+    deliveries: 0,
+    failedDeliveries: 0,
+    error: null,
+  };
+}
+
+function finishRun(run: CronRun) {
+  run.finishedAt = nowMs();
+  run.durationMs = run.finishedAt - run.startedAt;
+  return run;
+}
+
+async function handle(request: Request) {
+  const body = request.method === "POST" ? await request.text() : "";
+  const auth = verifyCronRequest(request.headers, body);
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error }, { status: auth.status });
+  }
+
+  const run = startRun(request.method, auth.trigger);
+  const token = await acquireLock();
+  if (token === null) {
+    run.outcome = "skipped";
+    await recordRun(finishRun(run));
+    return NextResponse.json({ ok: false, error: "cron_running", runId: run.id }, { status: 409 });
+  }
+
+  try {
+    const result = await checkRisk(run);
+    return NextResponse.json({ ...result, runId: run.id });
   } catch (err) {
-    return NextResponse.json(
-      { ok: false, error: err instanceof Error ? err.message : "Server error" },
-      { status: 502 },
-    );
+    run.outcome = "error";
+    run.error = err instanceof Error ? err.message : "Server error";
+    return NextResponse.json({ ok: false, error: run.error, runId: run.id }, { status: 502 });
+  } finally {
+    if (token) await cronRunStore().unlock(JOB, token).catch(() => undefined);
+    await recordRun(finishRun(run));
   }
 }
+
+// Vercel Cron issues GET with `Authorization: Bearer <CRON_SECRET>`; other schedulers can POST.
+export const GET = handle;
+export const POST = handle;
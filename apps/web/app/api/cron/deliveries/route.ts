@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/cron";
+import { recentDeliveries } from "@/lib/notifier";
+
+// Delivery records carry channel targets and upstream errors, so reads need the cron secret too.
+export async function GET(request: Request) {
+  const auth = verifyCronRequest(request.headers, "");
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ deliveries: recentDeliveries() });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { cronRunStore, summarizeSchedule, verifyCronRequest } from "@/lib/cron";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// Run records include error messages from the check, so reads need the cron secret too.
+export async function GET(request: Request) {
+  const auth = verifyCronRequest(request.headers, "");
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error }, { status: auth.status });
+  }
+  const limitParam = Number(new URL(request.url).searchParams.get("limit") ?? DEFAULT_LIMIT);
+  const limit = Number.isInteger(limitParam)
+    ? Math.min(Math.max(limitParam, 1), MAX_LIMIT)
+    : DEFAULT_LIMIT;
+
+  try {
+    const store = cronRunStore();
+    const runs = await store.list(limit);
+    return NextResponse.json({ runs, schedule: summarizeSchedule(runs), store: store.kind });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import type { ReactNode } from "react";
+import { CurrencyProvider } from "@/lib/currency";
 import "./globals.css";
 
 const themeScript = `
@@ -20,7 +21,9 @@ export default function RootLayout({ children }: { children: ReactNode }) {
       <head>
         <script dangerouslySetInnerHTML={{ __html: themeScript }} />
       </head>
-      <body>{children}</body>
+      <body>
+        <CurrencyProvider>{children}</CurrencyProvider>
+      </body>
     </html>
   );
 }
@@ -1,77 +1,54 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-
-type PricePayload = {
-  symbol: "BTC";
-  currency: "USD";
-  price: number;
-  source: string;
-  cached: boolean;
-  stale: boolean;
-  fetchedAt: number;
-};
-
-type RiskPayload = {
-  symbol: "BTCUSDT";
-  fundingRate: number;
-  openInterest: number;
-  risk: { level: "OK" | "WARN" | "DANGER"; reasons: string[] };
-  source: "binance" | "cache" | "stale-cache";
-  ts: number;
-};
-
-type PremiumPayload = {
-  symbol: "BTC";
-  kimchiPremium: number;
-  coinbasePremium: number;
-  source: string;
-  cached: boolean;
-  stale: boolean;
-  ts: number;
-};
+import {
+  FiatCurrencySchema,
+  PremiumPayloadSchema,
+  PricePayloadSchema,
+  RiskPayloadSchema,
+  type PremiumPayload,
+  type PricePayload,
+  type RiskPayload,
+} from "@bit-auto/shared";
+import AlertsPanel from "@/components/AlertsPanel";
+import Dashboard from "@/components/Dashboard";
+import DepthPanel from "@/components/DepthPanel";
+import FuturesPanel from "@/components/FuturesPanel";
+import HistoryPanel from "@/components/HistoryPanel";
+import LiquidationsPanel from "@/components/LiquidationsPanel";
+import PortfolioPanel from "@/components/PortfolioPanel";
+import SignalsPanel from "@/components/SignalsPanel";
+import { parseApi, readApiKey, readHeaders, saveApiKey, streamKeyParam } from "@/lib/api";
+import { useCurrency } from "@/lib/currency";
+import {
+  formatKST,
+  formatLeg,
+  formatNumber,
+  formatPercent,
+  PREMIUM_LEG_LABELS,
+  PREMIUM_LEGS,
+} from "@/lib/format";
 
 type Theme = "light" | "dark";
-type TabKey = "overview" | "risk" | "notes";
+type TabKey = "overview" | "risk" | "alerts" | "portfolio" | "notes";
 type CategoryKey = "overview" | "market" | "futures" | "signals" | "liquidations";
 
-function formatUSD(n: number) {
-  try {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-      maximumFractionDigits: 2,
-    }).format(n);
-  } catch {
-    return String(n);
-  }
-}
-
-function formatPercent(n: number) {
-  if (!Number.isFinite(n)) return String(n);
-  return `${(n * 100).toFixed(3)}%`;
-}
+const SYMBOLS = ["BTC", "ETH", "SOL", "XRP"] as const;
+type SymbolKey = (typeof SYMBOLS)[number];
+type FeedMode = "stream" | "poll";
 
-function formatNumber(n: number) {
-  try {
-    return new Intl.NumberFormat("en-US", {
-      maximumFractionDigits: 0,
-    }).format(n);
-  } catch {
-    return String(n);
-  }
-}
+const CURRENCIES = FiatCurrencySchema.options;
 
-function formatKST(ts: number) {
-  const ms = ts < 10_000_000_000 ? ts * 1000 : ts;
-  const d = new Date(ms);
-  return d.toLocaleString("ko-KR", { timeZone: "Asia/Seoul" });
-}
+const POLL_INTERVAL_MS = 5000;
+const STREAM_RETRY_MS = 30_000;
 
 export default function Page() {
   const [theme, setTheme] = useState<Theme>("light");
   const [tab, setTab] = useState<TabKey>("overview");
   const [category, setCategory] = useState<CategoryKey>("market");
+  const [symbol, setSymbol] = useState<SymbolKey>("BTC");
+  const [feedMode, setFeedMode] = useState<FeedMode>("poll");
+  const { currency, setCurrency, formatMoney } = useCurrency();
 
   const apiBase = process.env.NEXT_PUBLIC_API_BASE ?? "";
   const [data, setData] = useState<PricePayload | null>(null);
@@ -81,8 +58,9 @@ export default function Page() {
   const [riskError, setRiskError] = useState<string | null>(null);
   const [premiumData, setPremiumData] = useState<PremiumPayload | null>(null);
   const [premiumError, setPremiumError] = useState<string | null>(null);
+  const [apiKey, setApiKey] = useState("");
 
-  const prettyPrice = useMemo(() => (data ? formatUSD(data.price) : ""), [data]);
+  const prettyPrice = useMemo(() => (data ? formatMoney(data.price) : ""), [data, formatMoney]);
   const prettyFunding = useMemo(
     () => (riskData ? formatPercent(riskData.fundingRate) : ""),
     [riskData],
@@ -92,11 +70,11 @@ export default function Page() {
     [riskData],
   );
   const prettyKimchi = useMemo(
-    () => (premiumData ? formatPercent(premiumData.kimchiPremium) : ""),
+    () => (premiumData?.kimchiPremium != null ? formatPercent(premiumData.kimchiPremium) : "-"),
     [premiumData],
   );
   const prettyCoinbase = useMemo(
-    () => (premiumData ? formatPercent(premiumData.coinbasePremium) : ""),
+    () => (premiumData?.coinbasePremium != null ? formatPercent(premiumData.coinbasePremium) : "-"),
     [premiumData],
   );
 
@@ -106,6 +84,18 @@ export default function Page() {
     setTheme(t);
   }, []);
 
+  useEffect(() => {
+    setApiKey(readApiKey());
+  }, []);
+
+  // 알림·포트폴리오·레이아웃을 바꾸려면 API 키가 필요하다. 비워서 확인하면 키를 지운다.
+  function editApiKey() {
+    const next = window.prompt("API 키 (비우면 삭제)", readApiKey());
+    if (next === null) return;
+    saveApiKey(next.trim());
+    setApiKey(next.trim());
+  }
+
   function toggleTheme() {
     const next: Theme = theme === "light" ? "dark" : "light";
     setTheme(next);
@@ -115,20 +105,29 @@ export default function Page() {
 
   useEffect(() => {
     let alive = true;
+    let pollId: ReturnType<typeof setInterval> | null = null;
+    let retryId: ReturnType<typeof setTimeout> | null = null;
+    let source: EventSource | null = null;
 
     async function load() {
       try {
         const [priceRes, riskRes, premiumRes] = await Promise.all([
-          fetch(`${apiBase}/api/btc`, { cache: "no-store" }),
-          fetch(`${apiBase}/api/market/btc-risk`, { cache: "no-store" }),
-          fetch(`${apiBase}/api/market/premium`, { cache: "no-store" }),
+          fetch(`${apiBase}/api/price/${symbol}`, { cache: "no-store", headers: readHeaders() }),
+          fetch(`${apiBase}/api/market/${symbol}/risk`, {
+            cache: "no-store",
+            headers: readHeaders(),
+          }),
+          fetch(`${apiBase}/api/market/${symbol}/premium`, {
+            cache: "no-store",
+            headers: readHeaders(),
+          }),
         ]);
         if (!priceRes.ok) throw new Error(`가격 API HTTP ${priceRes.status}`);
         if (!riskRes.ok) throw new Error(`리스크 API HTTP ${riskRes.status}`);
         if (!premiumRes.ok) throw new Error(`프리미엄 API HTTP ${premiumRes.status}`);
-        const json = (await priceRes.json()) as PricePayload;
-        const riskJson = (await riskRes.json()) as RiskPayload;
-        const premiumJson = (await premiumRes.json()) as PremiumPayload;
+        const json = parseApi(PricePayloadSchema, await priceRes.json(), "가격");
+        const riskJson = parseApi(RiskPayloadSchema, await riskRes.json(), "리스크");
+        const premiumJson = parseApi(PremiumPayloadSchema, await premiumRes.json(), "프리미엄");
         if (alive) {
           setData(json);
           setRiskData(riskJson);
@@ -149,13 +148,82 @@ export default function Page() {
       }
     }
 
+    function startPolling() {
+      setFeedMode("poll");
+      if (pollId) return;
+      pollId = setInterval(load, POLL_INTERVAL_MS);
+    }
+
+    function stopPolling() {
+      if (pollId) clearInterval(pollId);
+      pollId = null;
+    }
+
+    // 스트림이 끊기면 폴링으로 전환하고, 일정 시간 후 다시 스트림 연결을 시도한다.
+    function connect() {
+      retryId = null;
+      if (!alive) return;
+      if (typeof EventSource === "undefined") {
+        startPolling();
+        return;
+      }
+
+      const es = new EventSource(`${apiBase}/api/stream?symbol=${symbol}${streamKeyParam()}`);
+      source = es;
+      es.addEventListener("open", () => {
+        stopPolling();
+        setFeedMode("stream");
+      });
+      es.addEventListener("price", (e) => {
+        if (!alive) return;
+        const parsed = PricePayloadSchema.safeParse(JSON.parse((e as MessageEvent).data));
+        if (!parsed.success) {
+          setError("가격 스트림 응답 형식 오류");
+          return;
+        }
+        setData(parsed.data);
+        setError(null);
+        setLoading(false);
+      });
+      es.addEventListener("risk", (e) => {
+        if (!alive) return;
+        const parsed = RiskPayloadSchema.safeParse(JSON.parse((e as MessageEvent).data));
+        if (!parsed.success) {
+          setRiskError("리스크 스트림 응답 형식 오류");
+          return;
+        }
+        setRiskData(parsed.data);
+        setRiskError(null);
+      });
+      es.addEventListener("premium", (e) => {
+        if (!alive) return;
+        const parsed = PremiumPayloadSchema.safeParse(JSON.parse((e as MessageEvent).data));
+        if (!parsed.success) {
+          setPremiumError("프리미엄 스트림 응답 형식 오류");
+          return;
+        }
+        setPremiumData(parsed.data);
+        setPremiumError(null);
+      });
+      es.addEventListener("error", () => {
+        es.close();
+        if (source === es) source = null;
+        if (!alive) return;
+        startPolling();
+        if (!retryId) retryId = setTimeout(connect, STREAM_RETRY_MS);
+      });
+    }
+
+    setLoading(true);
     load();
-    const id = setInterval(load, 5000);
+    connect();
     return () => {
       alive = false;
-      clearInterval(id);
+      stopPolling();
+      if (retryId) clearTimeout(retryId);
+      source?.close();
     };
-  }, []);
+  }, [symbol, apiKey]);
 
   return (
     <main className="screen pastel">
@@ -190,6 +258,20 @@ export default function Page() {
               >
                 리스크
               </button>
+              <button
+                className={`topnav__item ${tab === "alerts" ? "topnav__item--active" : ""}`}
+                onClick={() => setTab("alerts")}
+                type="button"
+              >
+                알림
+              </button>
+              <button
+                className={`topnav__item ${tab === "portfolio" ? "topnav__item--active" : ""}`}
+                onClick={() => setTab("portfolio")}
+                type="button"
+              >
+                포트폴리오
+              </button>
               <button
                 className={`topnav__item ${tab === "notes" ? "topnav__item--active" : ""}`}
                 onClick={() => setTab("notes")}
@@ -200,16 +282,36 @@ export default function Page() {
             </nav>
 
             <div className="topbar__right">
+              <div className="segmented" role="group" aria-label="표시 통화">
+                {CURRENCIES.map((c) => (
+                  <button
+                    key={c}
+                    className={`btn btn--ghost ${currency === c ? "btn--active" : ""}`}
+                    onClick={() => setCurrency(c)}
+                    type="button"
+                  >
+                    {c}
+                  </button>
+                ))}
+              </div>
+
               <div className="pill">
                 <span className="pill__dot" aria-hidden />
-                <span className="pill__text">실시간</span>
+                <span className="pill__text">{feedMode === "stream" ? "실시간" : "폴링"}</span>
               </div>
 
               <div className="pill pill--right">
                 <span className="pill__k">갱신</span>
-                <span className="pill__v">5초</span>
+                <span className="pill__v">{feedMode === "stream" ? "스트림" : "5초"}</span>
               </div>
 
+              <button className="themeToggle" onClick={editApiKey} type="button">
+                <span className="themeToggle__icon" aria-hidden>
+                  {apiKey ? "🔑" : "🔒"}
+                </span>
+                <span className="themeToggle__text">{apiKey ? "API 키 등록됨" : "API 키"}</span>
+              </button>
+
               <button className="themeToggle" onClick={toggleTheme} type="button">
                 <span className="themeToggle__icon" aria-hidden>
                   {theme === "dark" ? "🌙" : "☀️"}
@@ -260,120 +362,167 @@ export default function Page() {
                 청산
               </button>
             </div>
+
+            <div className="sidebar__section">
+              <div className="sidebar__label">심볼</div>
+              {SYMBOLS.map((s) => (
+                <button
+                  key={s}
+                  className={`sideitem ${symbol === s ? "sideitem--active" : ""}`}
+                  onClick={() => setSymbol(s)}
+                  type="button"
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
           </aside>
 
           <div className="main">
             <div className="contentGrid">
-              <section className="priceBox">
-                <div className="priceBox__label">현재가 (BTC / USD)</div>
+              {category === "overview" ? (
+                <Dashboard apiBase={apiBase} symbol={symbol} symbols={SYMBOLS} />
+              ) : (
+                <>
+                  <section className="priceBox">
+                    <div className="priceBox__label">현재가 ({symbol} / {currency})</div>
 
-                {loading ? (
-                  <div className="skeleton">
-                    <div className="skeleton__bar" />
-                    <div className="skeleton__bar small" />
-                  </div>
-                ) : error ? (
-                  <div className="notice notice--error">
-                    <div className="notice__title">오류</div>
-                    <div className="notice__msg">{error}</div>
-                  </div>
-                ) : data ? (
-                  <>
-                    <div className="price">{prettyPrice}</div>
-
-                    <div className="chips">
-                      <span className={`chip ${data.cached ? "chip--ok" : ""}`}>
-                        <span className="chip__k">캐시</span>
-                        <span className="chip__v">{String(data.cached)}</span>
-                      </span>
-                      <span className={`chip ${data.stale ? "chip--warn" : ""}`}>
-                        <span className="chip__k">지연</span>
-                        <span className="chip__v">{String(data.stale)}</span>
-                      </span>
-                    </div>
-                  </>
-                ) : (
-                  <div className="notice notice--error">
-                    <div className="notice__title">데이터 없음</div>
-                    <div className="notice__msg">응답 값이 비어 있어요.</div>
-                  </div>
-                )}
-              </section>
-
-              <section className="panel">
-                <div className="panel__title">상태</div>
-                <div className="panel__body">
-                  <div className="row">
-                    <span className="k">카테고리</span>
-                    <span className="v">
-                      {category === "overview"
-                        ? "대시보드"
-                        : category === "market"
-                          ? "현물"
-                          : category === "futures"
-                            ? "선물"
-                            : category === "signals"
-                              ? "시그널"
-                              : "청산"}
-                    </span>
-                  </div>
-                  <div className="row">
-                    <span className="k">소스</span>
-                    <span className="v">{data?.source ?? "-"}</span>
-                  </div>
-                  <div className="row">
-                    <span className="k">업데이트</span>
-                    <span className="v">{data ? formatKST(data.fetchedAt) : "-"}</span>
-                  </div>
-                  <div className="row">
-                    <span className="k">표시</span>
-                    <span className="v">현물 · 스윙</span>
-                  </div>
-                </div>
-              </section>
+                    {loading ? (
+                      <div className="skeleton">
+                        <div className="skeleton__bar" />
+                        <div className="skeleton__bar small" />
+                      </div>
+                    ) : error ? (
+                      <div className="notice notice--error">
+                        <div className="notice__title">오류</div>
+                        <div className="notice__msg">{error}</div>
+                      </div>
+                    ) : data ? (
+                      <>
+                        <div className="price">{prettyPrice}</div>
 
-              <section className="panel">
-                <div className="panel__title">프리미엄</div>
-                <div className="panel__body">
-                  {loading ? (
-                    <div className="row">
-                      <span className="k">상태</span>
-                      <span className="v">로딩 중</span>
-                    </div>
-                  ) : premiumError ? (
-                    <div className="row">
-                      <span className="k">오류</span>
-                      <span className="v">{premiumError}</span>
-                    </div>
-                  ) : premiumData ? (
-                    <>
+                        <div className="chips">
+                          <span className={`chip ${data.cached ? "chip--ok" : ""}`}>
+                            <span className="chip__k">캐시</span>
+                            <span className="chip__v">{String(data.cached)}</span>
+                          </span>
+                          <span className={`chip ${data.stale ? "chip--warn" : ""}`}>
+                            <span className="chip__k">지연</span>
+                            <span className="chip__v">{String(data.stale)}</span>
+                          </span>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="notice notice--error">
+                        <div className="notice__title">데이터 없음</div>
+                        <div className="notice__msg">응답 값이 비어 있어요.</div>
+                      </div>
+                    )}
+                  </section>
+
+                  <section className="panel">
+                    <div className="panel__title">상태</div>
+                    <div className="panel__body">
                       <div className="row">
-                        <span className="k">김치 프리미엄</span>
-                        <span className="v">{prettyKimchi}</span>
+                        <span className="k">카테고리</span>
+                        <span className="v">
+                          {category === "market"
+                            ? "현물"
+                            : category === "futures"
+                              ? "선물"
+                              : category === "signals"
+                                ? "시그널"
+                                : "청산"}
+                        </span>
                       </div>
                       <div className="row">
-                        <span className="k">코인베이스 프리미엄</span>
-                        <span className="v">{prettyCoinbase}</span>
+                        <span className="k">소스</span>
+                        <span className="v">{data?.source ?? "-"}</span>
                       </div>
-                      <div className="chips">
-                        <span className={`chip ${premiumData.cached ? "chip--ok" : ""}`}>
-                          <span className="chip__k">캐시</span>
-                          <span className="chip__v">{String(premiumData.cached)}</span>
-                        </span>
-                        <span className={`chip ${premiumData.stale ? "chip--warn" : ""}`}>
-                          <span className="chip__k">지연</span>
-                          <span className="chip__v">{String(premiumData.stale)}</span>
-                        </span>
+                      <div className="row">
+                        <span className="k">업데이트</span>
+                        <span className="v">{data ? formatKST(data.fetchedAt) : "-"}</span>
                       </div>
-                    </>
-                  ) : (
-                    <div className="row">
-                      <span className="k">데이터</span>
-                      <span className="v">없음</span>
+                      <div className="row">
+                        <span className="k">표시</span>
+                        <span className="v">현물 · 스윙</span>
+                      </div>
+                    </div>
+                  </section>
+
+                  <section className="panel">
+                    <div className="panel__title">프리미엄</div>
+                    <div className="panel__body">
+                      {loading ? (
+                        <div className="row">
+                          <span className="k">상태</span>
+                          <span className="v">로딩 중</span>
+                        </div>
+                      ) : premiumError ? (
+                        <div className="row">
+                          <span className="k">오류</span>
+                          <span className="v">{premiumError}</span>
+                        </div>
+                      ) : premiumData ? (
+                        <>
+                          <div className="row">
+                            <span className="k">김치 프리미엄</span>
+                            <span className="v">{prettyKimchi}</span>
+                          </div>
+                          <div className="row">
+                            <span className="k">코인베이스 프리미엄</span>
+                            <span className="v">{prettyCoinbase}</span>
+                          </div>
+                          {PREMIUM_LEGS.map((name) => {
+                            const leg = premiumData.legs[name];
+                            return (
+                              <div className="row" key={name}>
+                                <span className="k">{PREMIUM_LEG_LABELS[name]}</span>
+                                <span className="v" title={leg.error ?? undefined}>
+                                  {leg.value !== null ? formatLeg(name, leg.value) : "없음"}
+                                  {leg.ageMs !== null
+                                    ? ` · ${Math.round(leg.ageMs / 1000)}초 전`
+                                    : ""}
+                                  {leg.stale ? " · 지연" : ""}
+                                  {leg.value === null && leg.error ? ` · ${leg.error}` : ""}
+                                </span>
+                              </div>
+                            );
+                          })}
+                          <div className="chips">
+                            <span className={`chip ${premiumData.cached ? "chip--ok" : ""}`}>
+                              <span className="chip__k">캐시</span>
+                              <span className="chip__v">{String(premiumData.cached)}</span>
+                            </span>
+                            <span className={`chip ${premiumData.stale ? "chip--warn" : ""}`}>
+                              <span className="chip__k">지연</span>
+                              <span className="chip__v">{String(premiumData.stale)}</span>
+                            </span>
+                          </div>
+                        </>
+                      ) : (
+                        <div className="row">
+                          <span className="k">데이터</span>
+                          <span className="v">없음</span>
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
-              </section>
+                  </section>
+
+                  {category === "market" ? (
+                    <>
+                      <HistoryPanel apiBase={apiBase} symbol={symbol} />
+                      <DepthPanel apiBase={apiBase} symbol={symbol} />
+                    </>
+                  ) : category === "futures" ? (
+                    <FuturesPanel apiBase={apiBase} symbol={symbol} />
+                  ) : category === "liquidations" ? (
+                    <LiquidationsPanel apiBase={apiBase} symbol={symbol} />
+                  ) : category === "signals" ? (
+                    <SignalsPanel apiBase={apiBase} symbol={symbol} />
+                  ) : null}
+                </>
+              )}
 
               {tab === "risk" ? (
                 <section className="panel">
@@ -430,6 +579,10 @@ export default function Page() {
                     )}
                   </div>
                 </section>
+              ) : tab === "alerts" ? (
+                <AlertsPanel apiBase={apiBase} symbol={symbol} />
+              ) : tab === "portfolio" ? (
+                <PortfolioPanel apiBase={apiBase} symbol={symbol} />
               ) : tab === "notes" ? (
                 <section className="panel panel--soft">
                   <div className="panel__title">메모</div>
@@ -0,0 +1,251 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import {
+  AlertListResponseSchema,
+  ErrorResponseSchema,
+  type AlertCondition,
+  type AlertMetric,
+  type UserAlert,
+} from "@bit-auto/shared";
+import { authErrorMessage, parseApi, readHeaders, writeHeaders } from "@/lib/api";
+import { formatKST, formatNumber, formatPercent, formatUSD } from "@/lib/format";
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  price: "가격",
+  fundingRate: "펀딩",
+  openInterest: "오픈인터레스트",
+  kimchiPremium: "김치 프리미엄",
+  coinbasePremium: "코인베이스 프리미엄",
+};
+
+const CONDITION_LABELS: Record<AlertCondition, string> = {
+  above: "이상",
+  below: "이하",
+  crossesAbove: "상향 돌파",
+  crossesBelow: "하향 돌파",
+};
+
+const EXPIRY_OPTIONS = [
+  { label: "없음", hours: 0 },
+  { label: "1시간", hours: 1 },
+  { label: "24시간", hours: 24 },
+  { label: "7일", hours: 24 * 7 },
+];
+
+// 비율 지표는 % 단위로 입력받아 소수로 저장한다.
+function isRatio(metric: AlertMetric) {
+  return metric !== "price" && metric !== "openInterest";
+}
+
+function formatValue(metric: AlertMetric, value: number) {
+  if (metric === "price") return formatUSD(value);
+  if (metric === "openInterest") return formatNumber(value);
+  return formatPercent(value);
+}
+
+export default function AlertsPanel({ apiBase, symbol }: { apiBase: string; symbol: string }) {
+  const [alerts, setAlerts] = useState<UserAlert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [metric, setMetric] = useState<AlertMetric>("price");
+  const [condition, setCondition] = useState<AlertCondition>("crossesAbove");
+  const [threshold, setThreshold] = useState("");
+  const [mode, setMode] = useState<"once" | "recurring">("once");
+  const [expiryHours, setExpiryHours] = useState(0);
+  const [note, setNote] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/api/alerts?symbol=${symbol}`, {
+        cache: "no-store",
+        headers: readHeaders(),
+      });
+      if (!res.ok) throw new Error(`알림 API HTTP ${res.status}`);
+      const json = parseApi(AlertListResponseSchema, await res.json(), "알림");
+      setAlerts(json.alerts);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }, [apiBase, symbol]);
+
+  useEffect(() => {
+    load();
+    const id = setInterval(load, 10_000);
+    return () => clearInterval(id);
+  }, [load]);
+
+  async function request(path: string, init: RequestInit) {
+    try {
+      const res = await fetch(`${apiBase}${path}`, {
+        ...init,
+        headers: writeHeaders(Boolean(init.body)),
+      });
+      if (!res.ok) {
+        const body = ErrorResponseSchema.safeParse(await res.json().catch(() => null));
+        throw new Error(
+          (body.success && (authErrorMessage(body.data.error) ?? body.data.detail)) ||
+            `알림 API HTTP ${res.status}`,
+        );
+      }
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    const raw = Number(threshold);
+    if (!Number.isFinite(raw) || threshold.trim() === "") {
+      setError("기준값을 숫자로 입력해 주세요.");
+      return;
+    }
+    await request("/api/alerts", {
+      method: "POST",
+      body: JSON.stringify({
+        symbol,
+        metric,
+        condition,
+        threshold: isRatio(metric) ? raw / 100 : raw,
+        mode,
+        cooldownMinutes: mode === "recurring" ? 10 : 0,
+        expiresAt: expiryHours ? Date.now() + expiryHours * 3_600_000 : null,
+        note: note.trim() || null,
+      }),
+    });
+    setThreshold("");
+    setNote("");
+  }
+
+  return (
+    <section className="panel">
+      <div className="panel__title">내 알림 · {symbol}</div>
+      <div className="panel__body">
+        <form className="form" onSubmit={onSubmit}>
+          <select
+            className="input"
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as AlertMetric)}
+          >
+            {Object.entries(METRIC_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            className="input"
+            value={condition}
+            onChange={(e) => setCondition(e.target.value as AlertCondition)}
+          >
+            {Object.entries(CONDITION_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            className="input"
+            inputMode="decimal"
+            placeholder={isRatio(metric) ? "기준값 (%)" : "기준값"}
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+          />
+          <select
+            className="input"
+            value={mode}
+            onChange={(e) => setMode(e.target.value as "once" | "recurring")}
+          >
+            <option value="once">1회</option>
+            <option value="recurring">반복</option>
+          </select>
+          <select
+            className="input"
+            value={expiryHours}
+            onChange={(e) => setExpiryHours(Number(e.target.value))}
+          >
+            {EXPIRY_OPTIONS.map((o) => (
+              <option key={o.hours} value={o.hours}>
+                만료 {o.label}
+              </option>
+            ))}
+          </select>
+          <input
+            className="input"
+            placeholder="메모"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <button className="btn" type="submit">
+            추가
+          </button>
+        </form>
+
+        {error ? (
+          <div className="row">
+            <span className="k">오류</span>
+            <span className="v">{error}</span>
+          </div>
+        ) : null}
+
+        {alerts.length === 0 ? (
+          <div className="row">
+            <span className="k">알림</span>
+            <span className="v">없음</span>
+          </div>
+        ) : (
+          alerts.map((alert) => (
+            <div className="listItem" key={alert.id}>
+              <div className="row">
+                <span className="k">
+                  {METRIC_LABELS[alert.metric]} {formatValue(alert.metric, alert.threshold)}{" "}
+                  {CONDITION_LABELS[alert.condition]}
+                  {alert.note ? ` · ${alert.note}` : ""}
+                </span>
+                <span className="v">
+                  {alert.mode === "once" ? "1회" : "반복"} · {alert.status}
+                </span>
+              </div>
+              <div className="row">
+                <span className="k">
+                  {alert.lastTriggeredAt
+                    ? `최근 발동 ${formatKST(alert.lastTriggeredAt)} (${formatValue(
+                        alert.metric,
+                        alert.lastTriggerValue ?? NaN,
+                      )})`
+                    : alert.expiresAt
+                      ? `만료 ${formatKST(alert.expiresAt)}`
+                      : "대기 중"}
+                </span>
+                <span className="listItem__actions">
+                  {alert.status !== "active" ? (
+                    <button
+                      className="btn btn--ghost"
+                      type="button"
+                      onClick={() =>
+                        request(`/api/alerts/${alert.id}`, {
+                          method: "PATCH",
+                          body: JSON.stringify({ status: "active", expiresAt: null }),
+                        })
+                      }
+                    >
+                      재활성화
+                    </button>
+                  ) : null}
+                  <button
+                    className="btn btn--ghost"
+                    type="button"
+                    onClick={() => request(`/api/alerts/${alert.id}`, { method: "DELETE" })}
+                  >
+                    삭제
+                  </button>
+                </span>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useEffect, useState, type FormEvent, type ReactNode } from "react";
+import { WidgetKindSchema, type Widget, type WidgetKind } from "@bit-auto/shared";
+import DepthPanel from "@/components/DepthPanel";
+import FuturesPanel from "@/components/FuturesPanel";
+import HistoryPanel from "@/components/HistoryPanel";
+import PremiumPanel from "@/components/PremiumPanel";
+import PricePanel from "@/components/PricePanel";
+import RiskPanel from "@/components/RiskPanel";
+import { formatKST } from "@/lib/format";
+import { useDashboardLayout, WIDGET_LABELS } from "@/lib/layouts";
+
+const WIDGET_KINDS = WidgetKindSchema.options;
+// 차트/표 위젯은 한 줄을 다 쓴다.
+const WIDE_KINDS: WidgetKind[] = ["funding", "depth", "history"];
+
+function renderWidget(apiBase: string, { kind, symbol }: Widget): ReactNode {
+  switch (kind) {
+    case "price":
+      return <PricePanel apiBase={apiBase} symbol={symbol} />;
+    case "premium":
+      return <PremiumPanel apiBase={apiBase} symbol={symbol} />;
+    case "risk":
+      return <RiskPanel apiBase={apiBase} symbol={symbol} />;
+    case "funding":
+      return <FuturesPanel apiBase={apiBase} symbol={symbol} />;
+    case "depth":
+      return <DepthPanel apiBase={apiBase} symbol={symbol} />;
+    case "history":
+      return <HistoryPanel apiBase={apiBase} symbol={symbol} />;
+  }
+}
+
+export default function Dashboard({
+  apiBase,
+  symbol,
+  symbols,
+}: {
+  apiBase: string;
+  symbol: string;
+  symbols: readonly string[];
+}) {
+  const dashboard = useDashboardLayout(apiBase);
+  const { draft, layouts, profile } = dashboard;
+  const saved = layouts.find((l) => l.id === draft.id);
+  const [profileInput, setProfileInput] = useState(profile);
+  const [kind, setKind] = useState<WidgetKind>("price");
+  const [widgetSymbol, setWidgetSymbol] = useState(symbol);
+
+  useEffect(() => setProfileInput(profile), [profile]);
+  useEffect(() => setWidgetSymbol(symbol), [symbol]);
+
+  function onProfileSubmit(e: FormEvent) {
+    e.preventDefault();
+    const next = profileInput.trim();
+    if (next) dashboard.setProfile(next);
+  }
+
+  function onAdd(e: FormEvent) {
+    e.preventDefault();
+    dashboard.addWidget(kind, widgetSymbol);
+  }
+
+  function onOpen(id: string) {
+    const layout = layouts.find((l) => l.id === id);
+    if (layout) dashboard.open(layout);
+    else dashboard.reset();
+  }
+
+  return (
+    <>
+      <section className="panel panel--wide">
+        <div className="panel__title">대시보드 레이아웃</div>
+        <div className="panel__body">
+          <form className="form" onSubmit={onProfileSubmit}>
+            <input
+              className="input"
+              placeholder="프로필"
+              value={profileInput}
+              onChange={(e) => setProfileInput(e.target.value)}
+            />
+            <button className="btn btn--ghost" type="submit">
+              프로필 전환
+            </button>
+            <select
+              className="input"
+              value={draft.id ?? ""}
+              onChange={(e) => onOpen(e.target.value)}
+            >
+              <option value="">새 레이아웃</option>
+              {layouts.map((l) => (
+                <option key={l.id} value={l.id}>
+                  {l.name}
+                  {l.owner !== profile ? ` · ${l.owner} 공유` : l.shared ? " · 공유 중" : ""}
+                </option>
+              ))}
+            </select>
+          </form>
+
+          <form
+            className="form"
+            onSubmit={(e) => {
+              e.preventDefault();
+              dashboard.save();
+            }}
+          >
+            <input
+              className="input"
+              placeholder="레이아웃 이름"
+              value={draft.name}
+              onChange={(e) => dashboard.rename(e.target.value)}
+            />
+            <label className="check">
+              <input
+                type="checkbox"
+                checked={draft.shared}
+                onChange={(e) => dashboard.setShared(e.target.checked)}
+              />
+              공유
+            </label>
+            <button className="btn" type="submit">
+              {dashboard.owned ? "저장" : "내 레이아웃으로 저장"}
+            </button>
+            {dashboard.owned ? (
+              <button className="btn btn--ghost" type="button" onClick={dashboard.remove}>
+                삭제
+              </button>
+            ) : null}
+          </form>
+
+          <form className="form" onSubmit={onAdd}>
+            <select
+              className="input"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as WidgetKind)}
+            >
+              {WIDGET_KINDS.map((k) => (
+                <option key={k} value={k}>
+                  {WIDGET_LABELS[k]}
+                </option>
+              ))}
+            </select>
+            <select
+              className="input"
+              value={widgetSymbol}
+              onChange={(e) => setWidgetSymbol(e.target.value)}
+            >
+              {symbols.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+            <button className="btn" type="submit">
+              위젯 추가
+            </button>
+          </form>
+
+          <div className="row">
+            <span className="k">
+              {draft.owner !== profile ? `${draft.owner}의 공유 레이아웃 · ` : ""}
+              {draft.id === null ? "저장 안 됨 (이 브라우저에만 보관)" : "서버에 저장됨"}
+            </span>
+            <span className="v">
+              {dashboard.dirty ? "변경 사항 있음" : saved ? formatKST(saved.updatedAt) : "-"}
+            </span>
+          </div>
+
+          {dashboard.error ? (
+            <div className="row">
+              <span className="k">오류</span>
+              <span className="v">{dashboard.error}</span>
+            </div>
+          ) : null}
+        </div>
+      </section>
+
+      {draft.widgets.length === 0 ? (
+        <section className="panel panel--wide">
+          <div className="panel__body">
+            <div className="row">
+              <span className="k">위젯</span>
+              <span className="v">없음 · 위에서 추가해 주세요</span>
+            </div>
+          </div>
+        </section>
+      ) : (
+        draft.widgets.map((w, i) => (
+          <div className={`widget ${WIDE_KINDS.includes(w.kind) ? "widget--wide" : ""}`} key={w.id}>
+            <div className="widget__bar">
+              <span className="widget__label">
+                {WIDGET_LABELS[w.kind]} · {w.symbol}
+              </span>
+              <span className="listItem__actions">
+                <button
+                  className="btn btn--ghost"
+                  type="button"
+                  disabled={i === 0}
+                  onClick={() => dashboard.moveWidget(w.id, -1)}
+                  aria-label="위로"
+                >
+                  ▲
+                </button>
+                <button
+                  className="btn btn--ghost"
+                  type="button"
+                  disabled={i === draft.widgets.length - 1}
+                  onClick={() => dashboard.moveWidget(w.id, 1)}
+                  aria-label="아래로"
+                >
+                  ▼
+                </button>
+                <button
+                  className="btn btn--ghost"
+                  type="button"
+                  onClick={() => dashboard.removeWidget(w.id)}
+                  aria-label="삭제"
+                >
+                  ✕
+                </button>
+              </span>
+            </div>
+            {renderWidget(apiBase, w)}
+          </div>
+        ))
+      )}
+    </>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  DepthResponseSchema,
+  type DepthResponse,
+  type DepthSummary,
+  type SlippageEstimate,
+} from "@bit-auto/shared";
+import { parseApi, readHeaders } from "@/lib/api";
+import { useCurrency } from "@/lib/currency";
+import { formatPercent } from "@/lib/format";
+
+const REFRESH_MS = 10_000;
+// 슬리피지 추정 주문 규모 (USD).
+const SIZES = [10_000, 100_000, 1_000_000];
+
+function DepthChart({ depth }: { depth: DepthSummary }) {
+  const { bids, asks } = depth.curve;
+  const max = Math.max(bids[bids.length - 1]?.notional ?? 0, asks[asks.length - 1]?.notional ?? 0);
+  if (max === 0) return null;
+
+  const width = 320;
+  const height = 96;
+  const half = width / 2;
+  const y = (notional: number) => height - (notional / max) * (height - 4);
+  // 매수 호가는 중앙에서 왼쪽, 매도 호가는 오른쪽으로 누적한다.
+  const area = (points: { notional: number }[], dir: 1 | -1) => {
+    const step = half / points.length;
+    const line = points.map((p, i) => `L${half + dir * (i + 1) * step},${y(p.notional)}`);
+    const start = `M${half},${height} L${half},${y(points[0]?.notional ?? 0)}`;
+    return `${start} ${line.join(" ")} L${half + dir * half},${height} Z`;
+  };
+
+  return (
+    <svg
+      width="100%"
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      aria-hidden
+    >
+      <path d={area(bids, -1)} fill="rgba(134,241,214,0.45)" stroke="rgba(134,241,214,0.9)" />
+      <path d={area(asks, 1)} fill="rgba(255,118,182,0.35)" stroke="rgba(255,118,182,0.9)" />
+      <line x1={half} x2={half} y1={0} y2={height} stroke="currentColor" opacity={0.25} />
+    </svg>
+  );
+}
+
+function formatSlippage(estimate: SlippageEstimate) {
+  if (estimate.slippage === null) return "-";
+  return `${formatPercent(estimate.slippage)}${estimate.filled ? "" : " (호가 부족)"}`;
+}
+
+export default function DepthPanel({ apiBase, symbol }: { apiBase: string; symbol: string }) {
+  const { formatMoney, formatCompactMoney } = useCurrency();
+  const [data, setData] = useState<DepthResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [size, setSize] = useState(SIZES[1]);
+  const [book, setBook] = useState<string>("consolidated");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/api/market/${symbol}/depth?size=${size}`, {
+        cache: "no-store",
+        headers: readHeaders(),
+      });
+      if (!res.ok) throw new Error(`호가 API HTTP ${res.status}`);
+      setData(parseApi(DepthResponseSchema, await res.json(), "호가"));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }, [apiBase, symbol, size]);
+
+  useEffect(() => {
+    load();
+    const id = setInterval(load, REFRESH_MS);
+    return () => clearInterval(id);
+  }, [load]);
+
+  const venue = data?.venues.find((v) => v.venue === book);
+  const selected =
+    book === "consolidated"
+      ? (data?.consolidated ?? null)
+      : venue?.depth?.ok
+        ? venue.depth.value
+        : null;
+
+  return (
+    <section className="panel panel--wide">
+      <div className="panel__title">호가 뎁스 · {symbol}</div>
+      <div className="panel__body">
+        {error ? (
+          <div className="row">
+            <span className="k">오류</span>
+            <span className="v">{error}</span>
+          </div>
+        ) : null}
+
+        {!data && !error ? (
+          <div className="row">
+            <span className="k">상태</span>
+            <span className="v">로딩 중</span>
+          </div>
+        ) : null}
+
+        {data ? (
+          <>
+            <div className="row">
+              <span className="k">주문 규모</span>
+              <span className="segmented">
+                {SIZES.map((s) => (
+                  <button
+                    key={s}
+                    className={`btn btn--ghost ${size === s ? "btn--active" : ""}`}
+                    onClick={() => setSize(s)}
+                    type="button"
+                  >
+                    {formatCompactMoney(s)}
+                  </button>
+                ))}
+              </span>
+            </div>
+            <div className="row">
+              <span className="k">호가창</span>
+              <span className="segmented">
+                {["consolidated", ...data.venues.map((v) => v.venue)].map((id) => (
+                  <button
+                    key={id}
+                    className={`btn btn--ghost ${book === id ? "btn--active" : ""}`}
+                    onClick={() => setBook(id)}
+                    type="button"
+                  >
+                    {id === "consolidated" ? "통합" : id}
+                    {data.venues.find((v) => v.venue === id)?.included === false ? " (통합 제외)" : ""}
+                  </button>
+                ))}
+              </span>
+            </div>
+
+            {selected ? (
+              <>
+                <DepthChart depth={selected} />
+                <div className="row">
+                  <span className="k">중간가 / 스프레드</span>
+                  <span className="v">
+                    {formatMoney(selected.mid)} / {selected.spreadBps.toFixed(1)}bp
+                  </span>
+                </div>
+                {selected.bands.map((band) => (
+                  <div className="row" key={band.band}>
+                    <span className="k">±{(band.band * 100).toFixed(1)}% 뎁스 (매수 / 매도)</span>
+                    <span className="v">
+                      {formatCompactMoney(band.bidNotional)} / {formatCompactMoney(band.askNotional)}
+                      {band.band > Math.min(selected.reach.bids, selected.reach.asks) ? " · 일부" : ""}
+                    </span>
+                  </div>
+                ))}
+              </>
+            ) : (
+              <div className="row">
+                <span className="k">호가</span>
+                <span className="v">
+                  {venue?.depth && !venue.depth.ok ? `오류: ${venue.depth.error}` : "없음"}
+                </span>
+              </div>
+            )}
+
+            {data.venues.map((v) => (
+              <div className="row" key={v.venue}>
+                <span className="k">
+                  {v.venue} 슬리피지 (매수 / 매도)
+                  {v.quote === "KRW" ? " · 원화 환산" : ""}
+                </span>
+                <span className="v">
+                  {v.depth?.ok
+                    ? `${formatSlippage(v.depth.value.slippage.buy)} / ${formatSlippage(
+                        v.depth.value.slippage.sell,
+                      )}`
+                    : `오류: ${v.depth?.error ?? "-"}`}
+                </span>
+              </div>
+            ))}
+            {data.consolidated ? (
+              <div className="row">
+                <span className="k">통합 슬리피지 (매수 / 매도)</span>
+                <span className="v">
+                  {formatSlippage(data.consolidated.slippage.buy)} /{" "}
+                  {formatSlippage(data.consolidated.slippage.sell)}
+                </span>
+              </div>
+            ) : null}
+          </>
+        ) : null}
+      </div>
+    </section>
+  );
+}
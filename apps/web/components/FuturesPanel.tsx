@@ -0,0 +1,172 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  FuturesResponseSchema,
+  type FundingHistoryPoint,
+  type FuturesResponse,
+  type LongShortRatio,
+} from "@bit-auto/shared";
+import { parseApi, readHeaders } from "@/lib/api";
+import { useCurrency } from "@/lib/currency";
+import { formatCountdown, formatPercent } from "@/lib/format";
+
+const REFRESH_MS = 30_000;
+
+const RATIO_LABELS: Record<LongShortRatio["kind"], string> = {
+  topPosition: "상위 트레이더 포지션",
+  topAccount: "상위 트레이더 계정",
+  account: "전체 계정",
+};
+
+function FundingBars({ points }: { points: FundingHistoryPoint[] }) {
+  const max = points.reduce((m, p) => Math.max(m, Math.abs(p.rate)), 0);
+  if (points.length === 0 || max === 0) return null;
+
+  const width = 160;
+  const height = 36;
+  const barWidth = width / points.length;
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} aria-hidden>
+      <line x1={0} x2={width} y1={height / 2} y2={height / 2} stroke="currentColor" opacity={0.2} />
+      {points.map((p, i) => {
+        const h = (Math.abs(p.rate) / max) * (height / 2);
+        return (
+          <rect
+            key={p.ts}
+            x={i * barWidth + 1}
+            y={p.rate >= 0 ? height / 2 - h : height / 2}
+            width={Math.max(1, barWidth - 2)}
+            height={h}
+            fill={p.rate >= 0 ? "rgba(134,241,214,0.9)" : "rgba(255,118,182,0.9)"}
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+export default function FuturesPanel({ apiBase, symbol }: { apiBase: string; symbol: string }) {
+  const { formatMoney } = useCurrency();
+  const [data, setData] = useState<FuturesResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/api/market/${symbol}/futures`, {
+        cache: "no-store",
+        headers: readHeaders(),
+      });
+      if (!res.ok) throw new Error(`선물 API HTTP ${res.status}`);
+      setData(parseApi(FuturesResponseSchema, await res.json(), "선물"));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }, [apiBase, symbol]);
+
+  useEffect(() => {
+    load();
+    const id = setInterval(load, REFRESH_MS);
+    return () => clearInterval(id);
+  }, [load]);
+
+  // 다음 펀딩까지 남은 시간을 초 단위로 갱신한다.
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, []);
+
+  return (
+    <section className="panel panel--wide">
+      <div className="panel__title">선물 · {symbol}</div>
+      <div className="panel__body">
+        {error ? (
+          <div className="row">
+            <span className="k">오류</span>
+            <span className="v">{error}</span>
+          </div>
+        ) : null}
+
+        {!data && !error ? (
+          <div className="row">
+            <span className="k">상태</span>
+            <span className="v">로딩 중</span>
+          </div>
+        ) : null}
+
+        {data?.venues.map((venue) => {
+          const funding = venue.funding?.ok ? venue.funding.value : null;
+          const remaining =
+            venue.nextFundingInMs !== null ? venue.nextFundingInMs - (now - data.fetchedAt) : null;
+
+          return (
+            <div className="listItem" key={venue.venue}>
+              <div className="row">
+                <span className="k">{venue.venue}</span>
+                <span className="v">
+                  {venue.funding && !venue.funding.ok ? `오류: ${venue.funding.error}` : ""}
+                </span>
+              </div>
+              <div className="row">
+                <span className="k">예상 펀딩 / 직전 펀딩</span>
+                <span className="v">
+                  {funding ? formatPercent(funding.rate) : "-"} /{" "}
+                  {venue.lastFundingRate !== null ? formatPercent(venue.lastFundingRate) : "-"}
+                </span>
+              </div>
+              <div className="row">
+                <span className="k">다음 펀딩까지</span>
+                <span className="v">{remaining !== null ? formatCountdown(remaining) : "-"}</span>
+              </div>
+              <div className="row">
+                <span className="k">마크 / 인덱스 베이시스</span>
+                <span className="v">
+                  {funding?.markPrice ? formatMoney(funding.markPrice) : "-"} /{" "}
+                  {funding?.indexPrice ? formatMoney(funding.indexPrice) : "-"} ·{" "}
+                  {venue.markIndexBasis !== null ? formatPercent(venue.markIndexBasis) : "-"}
+                </span>
+              </div>
+
+              {venue.longShort?.ok
+                ? venue.longShort.value.map((ratio) => (
+                    <div className="row" key={ratio.kind}>
+                      <span className="k">롱/숏 · {RATIO_LABELS[ratio.kind]}</span>
+                      <span className="v">
+                        {ratio.ratio.toFixed(2)}
+                        {ratio.long !== null && ratio.short !== null
+                          ? ` (${(ratio.long * 100).toFixed(1)}% / ${(ratio.short * 100).toFixed(1)}%)`
+                          : ""}
+                      </span>
+                    </div>
+                  ))
+                : null}
+
+              {venue.delivery?.ok
+                ? venue.delivery.value.map((contract) => (
+                    <div className="row" key={contract.contract}>
+                      <span className="k">
+                        {contract.contract} · {contract.daysToExpiry.toFixed(0)}일
+                      </span>
+                      <span className="v">
+                        베이시스 {formatPercent(contract.basis)} · 연환산{" "}
+                        {formatPercent(contract.annualizedYield)}
+                      </span>
+                    </div>
+                  ))
+                : null}
+
+              {venue.fundingHistory?.ok ? (
+                <div className="row">
+                  <span className="k">펀딩 히스토리 ({venue.fundingHistory.value.length}회)</span>
+                  <FundingBars points={venue.fundingHistory.value} />
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { useCallback, useEffect, useState, type MouseEvent } from "react";
+import {
+  ChartRangeSchema,
+  ChartResponseSchema,
+  type ChartRange,
+  type ChartResponse,
+  type ChartSeries,
+  type HistoryPoint,
+  type RiskSegment,
+} from "@bit-auto/shared";
+import { parseApi, readHeaders } from "@/lib/api";
+import { formatKST, formatNumber, formatPercent, formatUSD } from "@/lib/format";
+
+const RANGES = ChartRangeSchema.options;
+const RANGE_LABELS: Record<ChartRange, string> = {
+  "1h": "1시간",
+  "24h": "24시간",
+  "7d": "7일",
+  "30d": "30일",
+};
+// 서버 캐시 주기에 맞춰 긴 구간일수록 드물게 갱신한다.
+const REFRESH_MS: Record<ChartRange, number> = {
+  "1h": 15_000,
+  "24h": 60_000,
+  "7d": 5 * 60_000,
+  "30d": 15 * 60_000,
+};
+
+const SERIES: {
+  key: keyof ChartSeries;
+  label: string;
+  format: (n: number) => string;
+  color: string;
+}[] = [
+  { key: "price", label: "가격 (USD)", format: formatUSD, color: "var(--pink)" },
+  { key: "funding", label: "펀딩비", format: formatPercent, color: "var(--lav)" },
+  { key: "openInterest", label: "오픈인터레스트", format: formatNumber, color: "var(--sky)" },
+  { key: "kimchiPremium", label: "김치 프리미엄", format: formatPercent, color: "var(--mint)" },
+  { key: "coinbasePremium", label: "코인베이스 프리미엄", format: formatPercent, color: "#f5b94a" },
+];
+
+const OVERLAY_FILL: Record<RiskSegment["level"], string> = {
+  WARN: "rgba(255,196,87,0.20)",
+  DANGER: "rgba(255,92,122,0.24)",
+};
+
+// 시간순으로 정렬된 점들 중 t에 가장 가까운 점.
+function nearest(points: HistoryPoint[], t: number) {
+  if (!points.length) return null;
+  let lo = 0;
+  let hi = points.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].t < t) lo = mid + 1;
+    else hi = mid;
+  }
+  const prev = points[lo - 1];
+  return prev && t - prev.t < points[lo].t - t ? prev : points[lo];
+}
+
+type ChartProps = {
+  label: string;
+  points: HistoryPoint[];
+  from: number;
+  to: number;
+  risk: RiskSegment[];
+  color: string;
+  format: (n: number) => string;
+  hoverT: number | null;
+  onHover: (t: number | null) => void;
+};
+
+function LineChart({ label, points, from, to, risk, color, format, hoverT, onHover }: ChartProps) {
+  const width = 640;
+  const height = 88;
+  const pad = 6;
+  const span = Math.max(to - from, 1);
+  const values = points.map((p) => p.v);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const x = (t: number) => ((t - from) / span) * width;
+  const y = (v: number) => pad + (1 - (v - min) / (max - min || 1)) * (height - 2 * pad);
+  const path = points.map((p, i) => `${i ? "L" : "M"}${x(p.t)},${y(p.v)}`).join(" ");
+
+  const hovered = hoverT !== null ? nearest(points, hoverT) : null;
+  const shown = hovered ?? points[points.length - 1] ?? null;
+
+  function handleMove(e: MouseEvent<SVGSVGElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    onHover(from + ratio * span);
+  }
+
+  return (
+    <div className="chart">
+      <div className="row">
+        <span className="k">{label}</span>
+        <span className="v">{shown ? format(shown.v) : "데이터 없음"}</span>
+      </div>
+      {points.length ? (
+        <div className="chart__plot">
+          <svg
+            width="100%"
+            height={height}
+            viewBox={`0 0 ${width} ${height}`}
+            preserveAspectRatio="none"
+            onMouseMove={handleMove}
+            onMouseLeave={() => onHover(null)}
+            aria-label={`${label} 차트`}
+          >
+            {risk.map((segment) => (
+              <rect
+                key={`${segment.level}-${segment.from}`}
+                x={x(segment.from)}
+                y={0}
+                width={Math.max(x(segment.to) - x(segment.from), 1)}
+                height={height}
+                fill={OVERLAY_FILL[segment.level]}
+              />
+            ))}
+            <path
+              d={path}
+              fill="none"
+              stroke={color}
+              strokeWidth={1.6}
+              vectorEffect="non-scaling-stroke"
+            />
+            {hovered ? (
+              <>
+                <line
+                  x1={x(hovered.t)}
+                  x2={x(hovered.t)}
+                  y1={0}
+                  y2={height}
+                  stroke="currentColor"
+                  opacity={0.35}
+                  vectorEffect="non-scaling-stroke"
+                />
+                <line
+                  x1={0}
+                  x2={width}
+                  y1={y(hovered.v)}
+                  y2={y(hovered.v)}
+                  stroke="currentColor"
+                  opacity={0.2}
+                  strokeDasharray="4 4"
+                  vectorEffect="non-scaling-stroke"
+                />
+              </>
+            ) : null}
+          </svg>
+          {hovered ? (
+            <div
+              className="chart__tooltip"
+              style={{ left: `${(x(hovered.t) / width) * 100}%` }}
+              role="tooltip"
+            >
+              <span>{formatKST(hovered.t)}</span>
+              <strong>{format(hovered.v)}</strong>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default function HistoryPanel({ apiBase, symbol }: { apiBase: string; symbol: string }) {
+  const [range, setRange] = useState<ChartRange>("24h");
+  const [data, setData] = useState<ChartResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hoverT, setHoverT] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/api/market/${symbol}/history?range=${range}`, {
+        cache: "no-store",
+        headers: readHeaders(),
+      });
+      if (!res.ok) throw new Error(`히스토리 API HTTP ${res.status}`);
+      setData(parseApi(ChartResponseSchema, await res.json(), "히스토리"));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }, [apiBase, symbol, range]);
+
+  useEffect(() => {
+    setData(null);
+    load();
+    const id = setInterval(load, REFRESH_MS[range]);
+    return () => clearInterval(id);
+  }, [load, range]);
+
+  const backfillErrors = data?.backfill.filter((b) => b.error !== null) ?? [];
+
+  return (
+    <section className="panel panel--wide">
+      <div className="panel__title">히스토리 · {symbol}</div>
+      <div className="panel__body">
+        <div className="row">
+          <span className="k">구간</span>
+          <span className="segmented">
+            {RANGES.map((r) => (
+              <button
+                key={r}
+                className={`btn btn--ghost ${range === r ? "btn--active" : ""}`}
+                onClick={() => setRange(r)}
+                type="button"
+              >
+                {RANGE_LABELS[r]}
+              </button>
+            ))}
+          </span>
+        </div>
+
+        {error ? (
+          <div className="row">
+            <span className="k">오류</span>
+            <span className="v">{error}</span>
+          </div>
+        ) : null}
+
+        {!data && !error ? (
+          <div className="row">
+            <span className="k">상태</span>
+            <span className="v">로딩 중</span>
+          </div>
+        ) : null}
+
+        {data ? (
+          <>
+            {SERIES.map((s) => (
+              <LineChart
+                key={s.key}
+                label={s.label}
+                points={data.series[s.key]}
+                from={data.from}
+                to={data.to}
+                risk={data.risk}
+                color={s.color}
+                format={s.format}
+                hoverT={hoverT}
+                onHover={setHoverT}
+              />
+            ))}
+            <div className="chips">
+              <span className="chip">
+                <span className="chip__k">
+                  <span className="swatch swatch--warn" aria-hidden /> WARN
+                </span>
+                <span className="chip__v">
+                  {data.risk.filter((segment) => segment.level === "WARN").length}구간
+                </span>
+              </span>
+              <span className="chip">
+                <span className="chip__k">
+                  <span className="swatch swatch--danger" aria-hidden /> DANGER
+                </span>
+                <span className="chip__v">
+                  {data.risk.filter((segment) => segment.level === "DANGER").length}구간
+                </span>
+              </span>
+              <span className="chip">
+                <span className="chip__k">기준</span>
+                <span className="chip__v">{formatKST(data.fetchedAt)}</span>
+              </span>
+            </div>
+            {backfillErrors.map((b) => (
+              <div className="row" key={b.source}>
+                <span className="k">백필 실패 ({b.source})</span>
+                <span className="v">{b.error}</span>
+              </div>
+            ))}
+          </>
+        ) : null}
+      </div>
+    </section>
+  );
+}
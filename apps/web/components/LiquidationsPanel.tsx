@@ -0,0 +1,156 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  LiquidationWindowSchema,
+  LiquidationsResponseSchema,
+  type LiquidationWindow,
+  type LiquidationsResponse,
+} from "@bit-auto/shared";
+import { parseApi, readHeaders } from "@/lib/api";
+import { useCurrency } from "@/lib/currency";
+import { formatKST } from "@/lib/format";
+
+const REFRESH_MS = 10_000;
+// 구간이 너무 많으면 한 화면에 안 들어가므로 청산액이 큰 구간만 남긴다.
+const MAX_ROWS = 24;
+
+function intensity(value: number, max: number) {
+  return max > 0 ? value / max : 0;
+}
+
+export default function LiquidationsPanel({ apiBase, symbol }: { apiBase: string; symbol: string }) {
+  const { formatMoney, formatCompactMoney } = useCurrency();
+  const [data, setData] = useState<LiquidationsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState<LiquidationWindow>("24h");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/api/market/${symbol}/liquidations?window=${range}`, {
+        cache: "no-store",
+        headers: readHeaders(),
+      });
+      if (!res.ok) throw new Error(`청산 API HTTP ${res.status}`);
+      setData(parseApi(LiquidationsResponseSchema, await res.json(), "청산"));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }, [apiBase, symbol, range]);
+
+  useEffect(() => {
+    load();
+    const id = setInterval(load, REFRESH_MS);
+    return () => clearInterval(id);
+  }, [load]);
+
+  const rows = data
+    ? [...data.buckets]
+        .sort((a, b) => b.longNotional + b.shortNotional - (a.longNotional + a.shortNotional))
+        .slice(0, MAX_ROWS)
+        .sort((a, b) => b.price - a.price)
+    : [];
+  const max = rows.reduce((m, b) => Math.max(m, b.longNotional, b.shortNotional), 0);
+
+  return (
+    <section className="panel panel--wide">
+      <div className="panel__title">청산 · {symbol}</div>
+      <div className="panel__body">
+        {error ? (
+          <div className="row">
+            <span className="k">오류</span>
+            <span className="v">{error}</span>
+          </div>
+        ) : null}
+
+        {data ? (
+          <>
+            {LiquidationWindowSchema.options.map((w) => (
+              <div className="row" key={w}>
+                <span className="k">{w}</span>
+                <span className="v">
+                  롱 {formatCompactMoney(data.totals[w].long.notional)} ({data.totals[w].long.count}) ·
+                  숏 {formatCompactMoney(data.totals[w].short.notional)} ({data.totals[w].short.count})
+                </span>
+              </div>
+            ))}
+
+            <div className="row">
+              <span className="k">가격 구간별 ({formatMoney(data.bucketSize)} 단위)</span>
+              <span className="segmented">
+                {LiquidationWindowSchema.options.map((w) => (
+                  <button
+                    key={w}
+                    className={`btn btn--ghost ${range === w ? "btn--active" : ""}`}
+                    onClick={() => setRange(w)}
+                    type="button"
+                  >
+                    {w}
+                  </button>
+                ))}
+              </span>
+            </div>
+
+            {rows.length === 0 ? (
+              <div className="row">
+                <span className="k">청산</span>
+                <span className="v">없음</span>
+              </div>
+            ) : (
+              <div className="heatmap">
+                {rows.map((bucket) => (
+                  <div className="heatmap__row" key={bucket.price}>
+                    <div className="heatmap__side heatmap__side--long">
+                      <div
+                        className="heatmap__bar heatmap__bar--long"
+                        title={`롱 청산 ${formatMoney(bucket.longNotional)}`}
+                        style={{
+                          width: `${intensity(bucket.longNotional, max) * 100}%`,
+                          opacity: 0.3 + 0.7 * intensity(bucket.longNotional, max),
+                        }}
+                      />
+                    </div>
+                    <span className="heatmap__price">{formatMoney(bucket.price)}</span>
+                    <div className="heatmap__side">
+                      <div
+                        className="heatmap__bar heatmap__bar--short"
+                        title={`숏 청산 ${formatMoney(bucket.shortNotional)}`}
+                        style={{
+                          width: `${intensity(bucket.shortNotional, max) * 100}%`,
+                          opacity: 0.3 + 0.7 * intensity(bucket.shortNotional, max),
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="row">
+              <span className="k">최근 청산</span>
+              <span className="v">
+                {data.recent[0]
+                  ? `${data.recent[0].side === "long" ? "롱" : "숏"} ${formatCompactMoney(
+                      data.recent[0].notional,
+                    )} @ ${formatMoney(data.recent[0].price)} · ${formatKST(data.recent[0].ts)}`
+                  : "-"}
+              </span>
+            </div>
+            <div className="row">
+              <span className="k">업스트림</span>
+              <span className="v">
+                {data.upstream} · {data.connected ? "연결됨" : "끊김"}
+              </span>
+            </div>
+          </>
+        ) : !error ? (
+          <div className="row">
+            <span className="k">상태</span>
+            <span className="v">로딩 중</span>
+          </div>
+        ) : null}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,265 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import {
+  ErrorResponseSchema,
+  PortfolioResponseSchema,
+  type PortfolioTotals,
+  type PositionKind,
+  type PositionSide,
+  type PositionView,
+} from "@bit-auto/shared";
+import { authErrorMessage, parseApi, readHeaders, writeHeaders } from "@/lib/api";
+import { useCurrency } from "@/lib/currency";
+import { formatKST, formatPercent, formatUSD } from "@/lib/format";
+
+const KIND_LABELS: Record<PositionKind, string> = {
+  spot: "현물",
+  perp: "무기한 선물",
+};
+
+const SIDE_LABELS: Record<PositionSide, string> = {
+  long: "롱",
+  short: "숏",
+};
+
+// 진입가는 입력한 USD 그대로 보여준다.
+function positionTitle(p: PositionView) {
+  const base = `${p.symbol} ${KIND_LABELS[p.kind]}`;
+  const detail = p.kind === "perp" ? ` ${SIDE_LABELS[p.side]} ${p.leverage}x` : "";
+  return `${base}${detail} · ${p.size} @ ${formatUSD(p.entryPrice)}`;
+}
+
+export default function PortfolioPanel({ apiBase, symbol }: { apiBase: string; symbol: string }) {
+  const { formatMoney } = useCurrency();
+  const formatMaybeMoney = (n: number | null) => (n === null ? "-" : formatMoney(n));
+  const [positions, setPositions] = useState<PositionView[]>([]);
+  const [totals, setTotals] = useState<PortfolioTotals | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [kind, setKind] = useState<PositionKind>("perp");
+  const [side, setSide] = useState<PositionSide>("long");
+  const [entryPrice, setEntryPrice] = useState("");
+  const [size, setSize] = useState("");
+  const [leverage, setLeverage] = useState("10");
+  const [note, setNote] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/api/portfolio`, {
+        cache: "no-store",
+        headers: readHeaders(),
+      });
+      if (!res.ok) throw new Error(`포트폴리오 API HTTP ${res.status}`);
+      const json = parseApi(PortfolioResponseSchema, await res.json(), "포트폴리오");
+      setPositions(json.positions);
+      setTotals(json.totals);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }, [apiBase]);
+
+  useEffect(() => {
+    load();
+    const id = setInterval(load, 5000);
+    return () => clearInterval(id);
+  }, [load]);
+
+  async function request(path: string, init: RequestInit) {
+    try {
+      const res = await fetch(`${apiBase}${path}`, {
+        ...init,
+        headers: writeHeaders(Boolean(init.body)),
+      });
+      if (!res.ok) {
+        const body = ErrorResponseSchema.safeParse(await res.json().catch(() => null));
+        throw new Error(
+          (body.success && (authErrorMessage(body.data.error) ?? body.data.detail)) ||
+            `포트폴리오 API HTTP ${res.status}`,
+        );
+      }
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    const entry = Number(entryPrice);
+    const qty = Number(size);
+    if (!(entry > 0) || !(qty > 0)) {
+      setError("진입가와 수량을 양수로 입력해 주세요.");
+      return;
+    }
+    await request("/api/portfolio", {
+      method: "POST",
+      body: JSON.stringify({
+        symbol,
+        kind,
+        side: kind === "spot" ? "long" : side,
+        entryPrice: entry,
+        size: qty,
+        leverage: kind === "spot" ? 1 : Number(leverage),
+        note: note.trim() || null,
+      }),
+    });
+    setEntryPrice("");
+    setSize("");
+    setNote("");
+  }
+
+  return (
+    <section className="panel panel--wide">
+      <div className="panel__title">포트폴리오</div>
+      <div className="panel__body">
+        <form className="form" onSubmit={onSubmit}>
+          <select
+            className="input"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as PositionKind)}
+          >
+            {Object.entries(KIND_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>
+                {symbol} {label}
+              </option>
+            ))}
+          </select>
+          {kind === "perp" ? (
+            <>
+              <select
+                className="input"
+                value={side}
+                onChange={(e) => setSide(e.target.value as PositionSide)}
+              >
+                {Object.entries(SIDE_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                className="input"
+                inputMode="decimal"
+                placeholder="레버리지"
+                value={leverage}
+                onChange={(e) => setLeverage(e.target.value)}
+              />
+            </>
+          ) : null}
+          <input
+            className="input"
+            inputMode="decimal"
+            placeholder="진입가 (USD)"
+            value={entryPrice}
+            onChange={(e) => setEntryPrice(e.target.value)}
+          />
+          <input
+            className="input"
+            inputMode="decimal"
+            placeholder="수량"
+            value={size}
+            onChange={(e) => setSize(e.target.value)}
+          />
+          <input
+            className="input"
+            placeholder="메모"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <button className="btn" type="submit">
+            추가
+          </button>
+        </form>
+
+        {totals ? (
+          <div className="chips">
+            <span className="chip">
+              <span className="chip__k">현물 평가액</span>
+              <span className="chip__v">{formatMoney(totals.spotValue)}</span>
+            </span>
+            <span className="chip">
+              <span className="chip__k">선물 명목가</span>
+              <span className="chip__v">{formatMoney(totals.perpNotional)}</span>
+            </span>
+            <span className={`chip ${totals.unrealizedPnl >= 0 ? "chip--ok" : "chip--warn"}`}>
+              <span className="chip__k">미실현 손익</span>
+              <span className="chip__v">{formatMoney(totals.unrealizedPnl)}</span>
+            </span>
+            <span className="chip">
+              <span className="chip__k">누적 펀딩 (추정)</span>
+              <span className="chip__v">{formatMoney(totals.fundingPaid)}</span>
+            </span>
+          </div>
+        ) : null}
+
+        {error ? (
+          <div className="row">
+            <span className="k">오류</span>
+            <span className="v">{error}</span>
+          </div>
+        ) : null}
+
+        {positions.length === 0 ? (
+          <div className="row">
+            <span className="k">포지션</span>
+            <span className="v">없음</span>
+          </div>
+        ) : (
+          positions.map((p) => (
+            <div className="listItem" key={p.id}>
+              <div className="row">
+                <span className="k">
+                  {positionTitle(p)}
+                  {p.note ? ` · ${p.note}` : ""}
+                </span>
+                <span className="v">현재가 {formatMaybeMoney(p.markPrice)}</span>
+              </div>
+              <div className="row">
+                <span className="k">미실현 손익</span>
+                <span className="v">
+                  {formatMaybeMoney(p.unrealizedPnl)}
+                  {p.unrealizedPnlPct !== null
+                    ? ` (${p.kind === "perp" ? "ROE " : ""}${formatPercent(p.unrealizedPnlPct)})`
+                    : ""}
+                </span>
+              </div>
+              {p.kind === "perp" ? (
+                <>
+                  <div className="row">
+                    <span className="k">
+                      예상 청산가
+                      {p.maintenanceMarginRate !== null
+                        ? ` · 유지증거금률 ${formatPercent(p.maintenanceMarginRate)}`
+                        : ""}
+                    </span>
+                    <span className="v">{formatMaybeMoney(p.liquidationPrice)}</span>
+                  </div>
+                  <div className="row">
+                    <span className="k">
+                      누적 펀딩 (추정)
+                      {p.fundingRate !== null ? ` · 현재 ${formatPercent(p.fundingRate)}` : ""}
+                    </span>
+                    <span className="v">{formatMoney(p.fundingPaid)}</span>
+                  </div>
+                </>
+              ) : null}
+              <div className="row">
+                <span className="k">진입 {formatKST(p.openedAt)}</span>
+                <span className="listItem__actions">
+                  <button
+                    className="btn btn--ghost"
+                    type="button"
+                    onClick={() => request(`/api/portfolio/${p.id}`, { method: "DELETE" })}
+                  >
+                    삭제
+                  </button>
+                </span>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { PremiumPayloadSchema, type PremiumPayload } from "@bit-auto/shared";
+import { parseApi, readHeaders } from "@/lib/api";
+import { formatLeg, formatPercent, PREMIUM_LEG_LABELS, PREMIUM_LEGS } from "@/lib/format";
+
+const REFRESH_MS = 5000;
+
+export default function PremiumPanel({ apiBase, symbol }: { apiBase: string; symbol: string }) {
+  const [data, setData] = useState<PremiumPayload | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/api/market/${symbol}/premium`, {
+        cache: "no-store",
+        headers: readHeaders(),
+      });
+      if (!res.ok) throw new Error(`프리미엄 API HTTP ${res.status}`);
+      setData(parseApi(PremiumPayloadSchema, await res.json(), "프리미엄"));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }, [apiBase, symbol]);
+
+  useEffect(() => {
+    setData(null);
+    load();
+    const id = setInterval(load, REFRESH_MS);
+    return () => clearInterval(id);
+  }, [load]);
+
+  return (
+    <section className="panel">
+      <div className="panel__title">프리미엄 · {symbol}</div>
+      <div className="panel__body">
+        {error ? (
+          <div className="row">
+            <span className="k">오류</span>
+            <span className="v">{error}</span>
+          </div>
+        ) : null}
+        {!data && !error ? (
+          <div className="row">
+            <span className="k">상태</span>
+            <span className="v">로딩 중</span>
+          </div>
+        ) : null}
+        {data ? (
+          <>
+            <div className="row">
+              <span className="k">김치 프리미엄</span>
+              <span className="v">
+                {data.kimchiPremium !== null ? formatPercent(data.kimchiPremium) : "-"}
+              </span>
+            </div>
+            <div className="row">
+              <span className="k">코인베이스 프리미엄</span>
+              <span className="v">
+                {data.coinbasePremium !== null ? formatPercent(data.coinbasePremium) : "-"}
+              </span>
+            </div>
+            {PREMIUM_LEGS.map((name) => {
+              const leg = data.legs[name];
+              return (
+                <div className="row" key={name}>
+                  <span className="k">{PREMIUM_LEG_LABELS[name]}</span>
+                  <span className="v" title={leg.error ?? undefined}>
+                    {leg.value !== null ? formatLeg(name, leg.value) : "없음"}
+                    {leg.stale ? " · 지연" : ""}
+                  </span>
+                </div>
+              );
+            })}
+          </>
+        ) : null}
+      </div>
+    </section>
+  );
+}
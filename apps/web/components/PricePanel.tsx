@@ -0,0 +1,77 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { PricePayloadSchema, type PricePayload } from "@bit-auto/shared";
+import { parseApi, readHeaders } from "@/lib/api";
+import { useCurrency } from "@/lib/currency";
+import { formatKST } from "@/lib/format";
+
+const REFRESH_MS = 5000;
+
+export default function PricePanel({ apiBase, symbol }: { apiBase: string; symbol: string }) {
+  const { currency, formatMoney } = useCurrency();
+  const [data, setData] = useState<PricePayload | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/api/price/${symbol}`, {
+        cache: "no-store",
+        headers: readHeaders(),
+      });
+      if (!res.ok) throw new Error(`가격 API HTTP ${res.status}`);
+      setData(parseApi(PricePayloadSchema, await res.json(), "가격"));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }, [apiBase, symbol]);
+
+  useEffect(() => {
+    setData(null);
+    load();
+    const id = setInterval(load, REFRESH_MS);
+    return () => clearInterval(id);
+  }, [load]);
+
+  return (
+    <section className="panel">
+      <div className="panel__title">
+        현재가 · {symbol} / {currency}
+      </div>
+      <div className="panel__body">
+        {error ? (
+          <div className="row">
+            <span className="k">오류</span>
+            <span className="v">{error}</span>
+          </div>
+        ) : null}
+        {!data && !error ? (
+          <div className="row">
+            <span className="k">상태</span>
+            <span className="v">로딩 중</span>
+          </div>
+        ) : null}
+        {data ? (
+          <>
+            <div className="price">{formatMoney(data.price)}</div>
+            <div className="row">
+              <span className="k">업데이트</span>
+              <span className="v">{formatKST(data.fetchedAt)}</span>
+            </div>
+            <div className="chips">
+              <span className="chip">
+                <span className="chip__k">소스</span>
+                <span className="chip__v">{data.source}</span>
+              </span>
+              <span className={`chip ${data.stale ? "chip--warn" : ""}`}>
+                <span className="chip__k">지연</span>
+                <span className="chip__v">{String(data.stale)}</span>
+              </span>
+            </div>
+          </>
+        ) : null}
+      </div>
+    </section>
+  );
+}
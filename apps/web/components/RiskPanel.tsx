@@ -0,0 +1,82 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { RiskPayloadSchema, type RiskPayload } from "@bit-auto/shared";
+import { parseApi, readHeaders } from "@/lib/api";
+import { formatNumber, formatPercent } from "@/lib/format";
+
+const REFRESH_MS = 5000;
+
+export default function RiskPanel({ apiBase, symbol }: { apiBase: string; symbol: string }) {
+  const [data, setData] = useState<RiskPayload | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/api/market/${symbol}/risk`, {
+        cache: "no-store",
+        headers: readHeaders(),
+      });
+      if (!res.ok) throw new Error(`리스크 API HTTP ${res.status}`);
+      setData(parseApi(RiskPayloadSchema, await res.json(), "리스크"));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }, [apiBase, symbol]);
+
+  useEffect(() => {
+    setData(null);
+    load();
+    const id = setInterval(load, REFRESH_MS);
+    return () => clearInterval(id);
+  }, [load]);
+
+  return (
+    <section className="panel">
+      <div className="panel__title">리스크 · {symbol}</div>
+      <div className="panel__body">
+        {error ? (
+          <div className="row">
+            <span className="k">오류</span>
+            <span className="v">{error}</span>
+          </div>
+        ) : null}
+        {!data && !error ? (
+          <div className="row">
+            <span className="k">상태</span>
+            <span className="v">로딩 중</span>
+          </div>
+        ) : null}
+        {data ? (
+          <>
+            <div className="row">
+              <span className="k">펀딩</span>
+              <span className="v">{formatPercent(data.fundingRate)}</span>
+            </div>
+            <div className="row">
+              <span className="k">오픈인터레스트</span>
+              <span className="v">{formatNumber(data.openInterest)}</span>
+            </div>
+            <div className="chips">
+              <span className={`chip ${data.risk.level === "OK" ? "chip--ok" : "chip--warn"}`}>
+                <span className="chip__k">레벨</span>
+                <span className="chip__v">{data.risk.level}</span>
+              </span>
+              <span className="chip">
+                <span className="chip__k">점수</span>
+                <span className="chip__v">{data.risk.score}</span>
+              </span>
+            </div>
+            <div className="row">
+              <span className="k">사유</span>
+              <span className="v">
+                {data.risk.reasons.length ? data.risk.reasons.join(", ") : "없음"}
+              </span>
+            </div>
+          </>
+        ) : null}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  SignalsResponseSchema,
+  type Signal,
+  type SignalDirection,
+  type SignalType,
+} from "@bit-auto/shared";
+import { parseApi, readHeaders } from "@/lib/api";
+import { formatKST } from "@/lib/format";
+
+const REFRESH_MS = 10_000;
+
+const TYPE_LABELS: Record<SignalType, string> = {
+  oiUpPriceDown: "OI 증가 · 가격 하락",
+  fundingFlipNegative: "펀딩 음전환",
+  fundingFlipPositive: "펀딩 양전환",
+  coinbasePremiumPositive: "코인베이스 프리미엄 지속",
+  kimchiPremiumZScore: "김치 프리미엄 이탈",
+};
+
+const DIRECTION_LABELS: Record<SignalDirection, string> = {
+  bullish: "상승",
+  bearish: "하락",
+  neutral: "중립",
+};
+
+export default function SignalsPanel({ apiBase, symbol }: { apiBase: string; symbol: string }) {
+  const [signals, setSignals] = useState<Signal[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/api/signals?symbol=${symbol}`, {
+        cache: "no-store",
+        headers: readHeaders(),
+      });
+      if (!res.ok) throw new Error(`시그널 API HTTP ${res.status}`);
+      setSignals(parseApi(SignalsResponseSchema, await res.json(), "시그널").signals);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }, [apiBase, symbol]);
+
+  useEffect(() => {
+    load();
+    const id = setInterval(load, REFRESH_MS);
+    return () => clearInterval(id);
+  }, [load]);
+
+  return (
+    <section className="panel panel--wide">
+      <div className="panel__title">시그널 · {symbol}</div>
+      <div className="panel__body">
+        {error ? (
+          <div className="row">
+            <span className="k">오류</span>
+            <span className="v">{error}</span>
+          </div>
+        ) : null}
+
+        {signals.length === 0 ? (
+          <div className="row">
+            <span className="k">시그널</span>
+            <span className="v">없음</span>
+          </div>
+        ) : (
+          signals.map((signal) => (
+            <div className="listItem" key={signal.id}>
+              <div className="row">
+                <span className="k">{TYPE_LABELS[signal.type]}</span>
+                <span className="v">
+                  {DIRECTION_LABELS[signal.direction]} · 신뢰도 {Math.round(signal.confidence * 100)}%
+                </span>
+              </div>
+              <div className="row">
+                <span className="k">{signal.message}</span>
+                <span className="v">
+                  {signal.active ? "진행 중" : "종료"} · {formatKST(signal.lastSeen)}
+                </span>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,37 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AlertState, AlertStateStore } from "./types";
+
+async function readAll(filePath: string): Promise<Record<string, AlertState>> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw error;
+  }
+}
+
+// Writes go through a temp file + rename so a crash never leaves half a JSON document.
+export function createFileStore(filePath: string): AlertStateStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    kind: "file",
+    async get(key) {
+      const all = await readAll(filePath);
+      return all[key] ?? null;
+    },
+    async set(state) {
+      const write = queue.then(async () => {
+        const all = await readAll(filePath);
+        all[state.key] = state;
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const tmp = `${filePath}.${process.pid}.tmp`;
+        await writeFile(tmp, JSON.stringify(all, null, 2));
+        await rename(tmp, filePath);
+      });
+      queue = write.catch(() => undefined);
+      await write;
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import path from "node:path";
+import type { AlertLevel } from "@/lib/notifier";
+import { createFileStore } from "./file";
+import { createMemoryStore } from "./memory";
+import { createRedisStore } from "./redis";
+import type { AlertState, AlertStateStore } from "./types";
+
+export type { AlertState, AlertStateStore } from "./types";
+
+export type AlertEvent =
+  | "idle"
+  | "opened"
+  | "escalated"
+  | "de-escalated"
+  | "ongoing"
+  | "reminder"
+  | "resolved";
+
+export type AlertTransition = {
+  event: AlertEvent;
+  notify: boolean;
+  state: AlertState;
+};
+
+const REMIND_AFTER_MS = Number(process.env.ALERT_REMIND_MS ?? 60 * 60 * 1000);
+
+let store: AlertStateStore | null = null;
+
+export function alertStateStore(): AlertStateStore {
+  if (store) return store;
+
+  const kind = process.env.ALERT_STATE_STORE ?? (process.env.REDIS_URL ? "redis" : "file");
+  if (kind === "redis" && process.env.REDIS_URL) {
+    store = createRedisStore(process.env.REDIS_URL);
+  } else if (kind === "memory") {
+    store = createMemoryStore();
+  } else {
+    store = createFileStore(
+      process.env.ALERT_STATE_PATH || path.join(process.cwd(), "data", "alert-state.json"),
+    );
+  }
+  return store;
+}
+
+// Reason order and duplicates don't make a new alert; only the level does.
+export function normalizeReasons(reasons: string[]) {
+  return [...new Set(reasons.map((r) => r.trim()).filter(Boolean))].sort();
+}
+
+const RANK: Record<AlertLevel, number> = { OK: 0, WARN: 1, DANGER: 2 };
+
+export function transition(
+  prev: AlertState | null,
+  key: string,
+  level: AlertLevel,
+  reasons: string[],
+  now: number,
+): AlertTransition {
+  const prevLevel = prev?.level ?? "OK";
+  const base: AlertState = {
+    key,
+    level,
+    since: prev && prevLevel === level ? prev.since : now,
+    reasons: normalizeReasons(reasons),
+    lastNotifiedLevel: prev?.lastNotifiedLevel ?? null,
+    lastNotifiedAt: prev?.lastNotifiedAt ?? null,
+    updatedAt: now,
+  };
+
+  let event: AlertEvent;
+  if (level === "OK") {
+    event = prevLevel === "OK" ? "idle" : "resolved";
+  } else if (prevLevel === "OK") {
+    event = "opened";
+  } else if (RANK[level] > RANK[prevLevel]) {
+    event = "escalated";
+  } else if (RANK[level] < RANK[prevLevel]) {
+    event = "de-escalated";
+  } else if (
+    REMIND_AFTER_MS > 0 &&
+    base.lastNotifiedAt !== null &&
+    now - base.lastNotifiedAt >= REMIND_AFTER_MS
+  ) {
+    event = "reminder";
+  } else {
+    event = "ongoing";
+  }
+
+  // Recovery is only announced if the alert itself was announced.
+  const notify =
+    event === "opened" ||
+    event === "escalated" ||
+    event === "reminder" ||
+    (event === "resolved" && base.lastNotifiedLevel !== null && base.lastNotifiedLevel !== "OK");
+
+  if (notify) {
+    base.lastNotifiedLevel = level;
+    base.lastNotifiedAt = now;
+  }
+
+  return { event, notify, state: base };
+}
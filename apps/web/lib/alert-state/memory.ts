@@ -0,0 +1,14 @@
+import type { AlertState, AlertStateStore } from "./types";
+
+export function createMemoryStore(): AlertStateStore {
+  const states = new Map<string, AlertState>();
+  return {
+    kind: "memory",
+    async get(key) {
+      return states.get(key) ?? null;
+    },
+    async set(state) {
+      states.set(state.key, state);
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import Redis from "ioredis";
+import type { AlertState, AlertStateStore } from "./types";
+
+const KEY_PREFIX = "bit-auto:alert-state:";
+
+export function createRedisStore(url: string): AlertStateStore {
+  const client = new Redis(url, { lazyConnect: true, maxRetriesPerRequest: 2 });
+
+  return {
+    kind: "redis",
+    async get(key) {
+      const raw = await client.get(`${KEY_PREFIX}${key}`);
+      return raw ? (JSON.parse(raw) as AlertState) : null;
+    },
+    async set(state) {
+      await client.set(`${KEY_PREFIX}${state.key}`, JSON.stringify(state));
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import type { AlertLevel } from "@/lib/notifier";
+
+export type AlertState = {
+  key: string;
+  level: AlertLevel;
+  // When the current level was entered.
+  since: number;
+  reasons: string[];
+  lastNotifiedLevel: AlertLevel | null;
+  lastNotifiedAt: number | null;
+  updatedAt: number;
+};
+
+export type AlertStateStore = {
+  kind: "memory" | "file" | "redis";
+  get(key: string): Promise<AlertState | null>;
+  set(state: AlertState): Promise<void>;
+};
@@ -0,0 +1,53 @@
+import type { z } from "zod";
+
+// API 응답을 공유 스키마로 검증한다. 계약이 어긋나면 화면에 그대로 그리지 않고 오류로 처리한다.
+export function parseApi<T extends z.ZodTypeAny>(schema: T, value: unknown, label: string): z.output<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const where = issue.path.length ? issue.path.join(".") : "payload";
+    throw new Error(`${label} 응답 형식 오류 (${where}: ${issue.message})`);
+  }
+  return result.data;
+}
+
+const API_KEY_STORAGE = "api.key";
+
+const AUTH_ERRORS: Record<string, string> = {
+  api_key_required: "API 키가 필요해요. 상단의 API 키 버튼으로 등록해 주세요.",
+  invalid_api_key: "등록한 API 키가 올바르지 않아요.",
+  forbidden: "관리자(admin) 권한 키가 필요한 작업이에요.",
+};
+
+// `API_AUTH=required`면 읽기도, 그 밖에는 쓰기 요청이 API 키가 있어야 통과한다.
+// 키는 이 브라우저의 localStorage에만 둔다.
+export function readApiKey() {
+  return window.localStorage.getItem(API_KEY_STORAGE) ?? "";
+}
+
+export function saveApiKey(key: string) {
+  if (key) window.localStorage.setItem(API_KEY_STORAGE, key);
+  else window.localStorage.removeItem(API_KEY_STORAGE);
+}
+
+// 모든 API 요청에 쓰는 헤더. 저장된 키가 있으면 `X-API-Key`를 붙인다.
+export function readHeaders(): Record<string, string> {
+  const key = readApiKey();
+  return key ? { "X-API-Key": key } : {};
+}
+
+// 쓰기 요청용 헤더. 본문이 있으면 JSON 헤더를 더한다.
+export function writeHeaders(json: boolean) {
+  return json ? { ...readHeaders(), "Content-Type": "application/json" } : readHeaders();
+}
+
+// EventSource는 헤더를 못 보내므로 키를 쿼리로 붙인다. 키가 없으면 빈 문자열.
+export function streamKeyParam() {
+  const key = readApiKey();
+  return key ? `&apiKey=${encodeURIComponent(key)}` : "";
+}
+
+// 인증 오류 코드면 안내 문구, 아니면 null.
+export function authErrorMessage(error: string) {
+  return AUTH_ERRORS[error] ?? null;
+}
@@ -0,0 +1,73 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { CronRun, CronRunStore } from "./types";
+
+async function readRuns(filePath: string): Promise<CronRun[]> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function readLock(lockPath: string) {
+  try {
+    return JSON.parse(await readFile(lockPath, "utf8")) as { token: string; expiresAt: number };
+  } catch {
+    return null;
+  }
+}
+
+// The lock is a file created with `wx`, so only one process on the host can take it. A holder
+// that crashed leaves it behind until `expiresAt`, after which the next caller removes it.
+export function createFileStore(filePath: string, maxRuns: number): CronRunStore {
+  let queue: Promise<unknown> = Promise.resolve();
+  const lockPath = (job: string) => `${filePath}.${job}.lock`;
+
+  async function tryCreate(job: string, ttlMs: number) {
+    const token = randomUUID();
+    try {
+      await writeFile(lockPath(job), JSON.stringify({ token, expiresAt: Date.now() + ttlMs }), {
+        flag: "wx",
+      });
+      return token;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") return null;
+      throw error;
+    }
+  }
+
+  return {
+    kind: "file",
+    async lock(job, ttlMs) {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const token = await tryCreate(job, ttlMs);
+      if (token) return token;
+
+      const held = await readLock(lockPath(job));
+      if (held && Date.now() < held.expiresAt) return null;
+      await unlink(lockPath(job)).catch(() => undefined);
+      return tryCreate(job, ttlMs);
+    },
+    async unlock(job, token) {
+      const held = await readLock(lockPath(job));
+      if (held?.token === token) await unlink(lockPath(job)).catch(() => undefined);
+    },
+    async record(run) {
+      const write = queue.then(async () => {
+        const runs = [run, ...(await readRuns(filePath))].slice(0, maxRuns);
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const tmp = `${filePath}.${process.pid}.tmp`;
+        await writeFile(tmp, JSON.stringify(runs, null, 2));
+        await rename(tmp, filePath);
+      });
+      queue = write.catch(() => undefined);
+      await write;
+    },
+    async list(limit) {
+      return (await readRuns(filePath)).slice(0, limit);
+    },
+  };
+}
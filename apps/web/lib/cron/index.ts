@@ -0,0 +1,136 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import { signPayload } from "@/lib/notifier/webhook";
+import { createFileStore } from "./file";
+import { createMemoryStore } from "./memory";
+import { createRedisStore } from "./redis";
+import type { CronRun, CronRunStore, CronTrigger } from "./types";
+
+export type { CronOutcome, CronRun, CronRunStore, CronTrigger } from "./types";
+
+const MAX_RUNS = 500;
+const CRON_SECRET = process.env.CRON_SECRET || "";
+// Signed requests older (or newer) than this are replays or badly skewed clocks.
+const SIGNATURE_MAX_SKEW_MS = 5 * 60_000;
+export const CRON_INTERVAL_MS = Number(process.env.CRON_INTERVAL_MS || 5 * 60_000);
+// How late a run may start before the slot counts as missed.
+const CRON_GRACE_MS = Number(process.env.CRON_GRACE_MS || CRON_INTERVAL_MS / 2);
+
+export type CronAuth =
+  | { ok: true; trigger: CronTrigger }
+  | { ok: false; status: number; error: string };
+
+export type MissedWindow = {
+  // Last run before the gap and first run after it (or now, for a gap still open).
+  after: number;
+  before: number;
+  missedRuns: number;
+};
+
+export type CronSchedule = {
+  intervalMs: number;
+  graceMs: number;
+  lastRunAt: number | null;
+  lastSuccessAt: number | null;
+  nextExpectedAt: number | null;
+  // The latest run is more than one interval plus grace ago.
+  overdue: boolean;
+  // Gaps in the returned runs, newest first.
+  missed: MissedWindow[];
+};
+
+let store: CronRunStore | null = null;
+
+// Same backend choice as the alert state, so the lock covers every instance that shares it.
+export function cronRunStore(): CronRunStore {
+  if (store) return store;
+
+  const kind = process.env.ALERT_STATE_STORE ?? (process.env.REDIS_URL ? "redis" : "file");
+  if (kind === "redis" && process.env.REDIS_URL) {
+    store = createRedisStore(process.env.REDIS_URL, MAX_RUNS);
+  } else if (kind === "memory") {
+    store = createMemoryStore(MAX_RUNS);
+  } else {
+    store = createFileStore(
+      process.env.CRON_RUNS_PATH || path.join(process.cwd(), "data", "cron-runs.json"),
+      MAX_RUNS,
+    );
+  }
+  return store;
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Accepts `Authorization: Bearer <CRON_SECRET>` (what Vercel Cron sends) or the same
+ * `X-BitAuto-Timestamp` / `X-BitAuto-Signature` pair the outgoing webhook uses, signed over the raw
+ * body. Without CRON_SECRET the endpoint stays open outside production only.
+ */
+export function verifyCronRequest(headers: Headers, body: string, now = Date.now()): CronAuth {
+  if (!CRON_SECRET) {
+    return process.env.NODE_ENV === "production"
+      ? { ok: false, status: 503, error: "cron_secret_not_configured" }
+      : { ok: true, trigger: "open" };
+  }
+
+  const auth = headers.get("authorization");
+  if (auth?.startsWith("Bearer ")) {
+    return safeEqual(auth.slice(7).trim(), CRON_SECRET)
+      ? { ok: true, trigger: "bearer" }
+      : { ok: false, status: 401, error: "unauthorized" };
+  }
+
+  const timestamp = headers.get("x-bitauto-timestamp");
+  const signature = headers.get("x-bitauto-signature");
+  if (timestamp && signature) {
+    if (!(Math.abs(now - Number(timestamp)) <= SIGNATURE_MAX_SKEW_MS)) {
+      return { ok: false, status: 401, error: "stale_signature" };
+    }
+    return safeEqual(signature, signPayload(CRON_SECRET, timestamp, body))
+      ? { ok: true, trigger: "signature" }
+      : { ok: false, status: 401, error: "unauthorized" };
+  }
+
+  return { ok: false, status: 401, error: "unauthorized" };
+}
+
+// Any invocation, skipped ones included, shows the scheduler fired; gaps longer than an interval
+// plus grace are slots it never called.
+export function summarizeSchedule(runs: CronRun[], now = Date.now()): CronSchedule {
+  const slotMs = CRON_INTERVAL_MS + CRON_GRACE_MS;
+  const missed: MissedWindow[] = [];
+  const lastRunAt = runs[0]?.startedAt ?? null;
+
+  if (lastRunAt !== null && now - lastRunAt > slotMs) {
+    missed.push({
+      after: lastRunAt,
+      before: now,
+      missedRuns: Math.max(1, Math.floor((now - lastRunAt) / CRON_INTERVAL_MS)),
+    });
+  }
+  for (let i = 0; i < runs.length - 1; i++) {
+    const gap = runs[i].startedAt - runs[i + 1].startedAt;
+    if (gap > slotMs) {
+      missed.push({
+        after: runs[i + 1].startedAt,
+        before: runs[i].startedAt,
+        missedRuns: Math.max(1, Math.round(gap / CRON_INTERVAL_MS) - 1),
+      });
+    }
+  }
+
+  const lastSuccess = runs.find((run) => run.outcome === "ok" || run.outcome === "alerted");
+  return {
+    intervalMs: CRON_INTERVAL_MS,
+    graceMs: CRON_GRACE_MS,
+    lastRunAt,
+    lastSuccessAt: lastSuccess?.startedAt ?? null,
+    nextExpectedAt: lastRunAt === null ? null : lastRunAt + CRON_INTERVAL_MS,
+    overdue: lastRunAt !== null && now - lastRunAt > slotMs,
+    missed,
+  };
+}
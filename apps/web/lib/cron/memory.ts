@@ -0,0 +1,28 @@
+import { randomUUID } from "node:crypto";
+import type { CronRun, CronRunStore } from "./types";
+
+export function createMemoryStore(maxRuns: number): CronRunStore {
+  const runs: CronRun[] = [];
+  const locks = new Map<string, { token: string; expiresAt: number }>();
+
+  return {
+    kind: "memory",
+    async lock(job, ttlMs) {
+      const held = locks.get(job);
+      if (held && Date.now() < held.expiresAt) return null;
+      const token = randomUUID();
+      locks.set(job, { token, expiresAt: Date.now() + ttlMs });
+      return token;
+    },
+    async unlock(job, token) {
+      if (locks.get(job)?.token === token) locks.delete(job);
+    },
+    async record(run) {
+      runs.unshift(run);
+      if (runs.length > maxRuns) runs.length = maxRuns;
+    },
+    async list(limit) {
+      return runs.slice(0, limit);
+    },
+  };
+}
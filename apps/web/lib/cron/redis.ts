@@ -0,0 +1,35 @@
+import { randomUUID } from "node:crypto";
+import Redis from "ioredis";
+import type { CronRun, CronRunStore } from "./types";
+
+const KEY_PREFIX = "bit-auto:cron:";
+
+// Deletes the lock only if it still holds our token, so an expired-and-retaken lock is left alone.
+const UNLOCK_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+
+export function createRedisStore(url: string, maxRuns: number): CronRunStore {
+  const client = new Redis(url, { lazyConnect: true, maxRetriesPerRequest: 2 });
+
+  return {
+    kind: "redis",
+    async lock(job, ttlMs) {
+      const token = randomUUID();
+      const ok = await client.set(`${KEY_PREFIX}lock:${job}`, token, "PX", ttlMs, "NX");
+      return ok === "OK" ? token : null;
+    },
+    async unlock(job, token) {
+      await client.eval(UNLOCK_SCRIPT, 1, `${KEY_PREFIX}lock:${job}`, token);
+    },
+    async record(run) {
+      await client
+        .multi()
+        .lpush(`${KEY_PREFIX}runs`, JSON.stringify(run))
+        .ltrim(`${KEY_PREFIX}runs`, 0, maxRuns - 1)
+        .exec();
+    },
+    async list(limit) {
+      const raw = await client.lrange(`${KEY_PREFIX}runs`, 0, limit - 1);
+      return raw.map((entry) => JSON.parse(entry) as CronRun);
+    },
+  };
+}
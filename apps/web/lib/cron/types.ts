@@ -0,0 +1,41 @@
+import type { AlertEvent } from "@/lib/alert-state";
+import type { AlertLevel } from "@/lib/notifier";
+
+// How the invocation proved it may run; `open` means no CRON_SECRET is configured (dev only).
+export type CronTrigger = "bearer" | "signature" | "open";
+
+// `skipped`: another invocation held the lock, so this one did nothing.
+export type CronOutcome = "ok" | "alerted" | "error" | "skipped";
+
+export type CronRun = {
+  id: string;
+  job: string;
+  trigger: CronTrigger;
+  method: string;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  outcome: CronOutcome;
+  // What the risk check saw; null when the fetch failed or the run was skipped.
+  values: {
+    symbol: string;
+    level: AlertLevel;
+    fundingRate: number;
+    openInterest: number;
+    reasons: string[];
+  } | null;
+  event: AlertEvent | null;
+  deliveries: number;
+  failedDeliveries: number;
+  error: string | null;
+};
+
+export type CronRunStore = {
+  kind: "memory" | "file" | "redis";
+  // Resolves to a release token, or null while another invocation holds the lock.
+  lock(job: string, ttlMs: number): Promise<string | null>;
+  unlock(job: string, token: string): Promise<void>;
+  record(run: CronRun): Promise<void>;
+  // Newest first.
+  list(limit: number): Promise<CronRun[]>;
+};
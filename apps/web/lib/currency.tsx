@@ -0,0 +1,90 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import {
+  FiatCurrencySchema,
+  FxResponseSchema,
+  type FiatCurrency,
+  type FxResponse,
+} from "@bit-auto/shared";
+import { parseApi, readHeaders } from "@/lib/api";
+import { formatCompactFiat, formatFiat } from "@/lib/format";
+
+const FX_POLL_MS = 10 * 60_000;
+const STORAGE_KEY = "currency";
+
+type CurrencyContextValue = {
+  currency: FiatCurrency;
+  setCurrency: (currency: FiatCurrency) => void;
+  fx: FxResponse | null;
+  fxError: string | null;
+  // USD 금액을 선택한 통화로 환산해 포맷한다. 환율이 없으면 USD로 표시한다.
+  formatMoney: (usd: number) => string;
+  formatCompactMoney: (usd: number) => string;
+};
+
+const CurrencyContext = createContext<CurrencyContextValue | null>(null);
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const apiBase = process.env.NEXT_PUBLIC_API_BASE ?? "";
+  const [currency, setCurrencyState] = useState<FiatCurrency>("USD");
+  const [fx, setFx] = useState<FxResponse | null>(null);
+  const [fxError, setFxError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const saved = FiatCurrencySchema.safeParse(window.localStorage.getItem(STORAGE_KEY));
+    if (saved.success) setCurrencyState(saved.data);
+  }, []);
+
+  const setCurrency = useCallback((next: FiatCurrency) => {
+    setCurrencyState(next);
+    window.localStorage.setItem(STORAGE_KEY, next);
+  }, []);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/api/fx`, { cache: "no-store", headers: readHeaders() });
+      if (!res.ok) throw new Error(`환율 API HTTP ${res.status}`);
+      setFx(parseApi(FxResponseSchema, await res.json(), "환율"));
+      setFxError(null);
+    } catch (err) {
+      setFxError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }, [apiBase]);
+
+  useEffect(() => {
+    load();
+    const id = setInterval(load, FX_POLL_MS);
+    return () => clearInterval(id);
+  }, [load]);
+
+  const value = useMemo<CurrencyContextValue>(() => {
+    const rate = fx?.rates[currency]?.rate;
+    const target = rate ? currency : "USD";
+    const factor = rate ?? 1;
+    return {
+      currency,
+      setCurrency,
+      fx,
+      fxError,
+      formatMoney: (usd) => formatFiat(usd * factor, target),
+      formatCompactMoney: (usd) => formatCompactFiat(usd * factor, target),
+    };
+  }, [currency, setCurrency, fx, fxError]);
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
+
+export function useCurrency() {
+  const value = useContext(CurrencyContext);
+  if (!value) throw new Error("useCurrency must be used inside CurrencyProvider");
+  return value;
+}
@@ -0,0 +1,92 @@
+import type { PremiumLegs } from "@bit-auto/shared";
+
+export function formatUSD(n: number) {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      maximumFractionDigits: 2,
+    }).format(n);
+  } catch {
+    return String(n);
+  }
+}
+
+export function formatPercent(n: number) {
+  if (!Number.isFinite(n)) return String(n);
+  return `${(n * 100).toFixed(3)}%`;
+}
+
+export function formatNumber(n: number) {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      maximumFractionDigits: 0,
+    }).format(n);
+  } catch {
+    return String(n);
+  }
+}
+
+export function formatKST(ts: number) {
+  const ms = ts < 10_000_000_000 ? ts * 1000 : ts;
+  const d = new Date(ms);
+  return d.toLocaleString("ko-KR", { timeZone: "Asia/Seoul" });
+}
+
+export function formatCompactUSD(n: number) {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      notation: "compact",
+      maximumFractionDigits: 1,
+    }).format(n);
+  } catch {
+    return String(n);
+  }
+}
+
+export function formatCountdown(ms: number) {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return [h, m, s].map((n) => String(n).padStart(2, "0")).join(":");
+}
+
+// 통화별 기본 소수 자릿수를 따른다 (KRW·JPY는 정수).
+export function formatFiat(n: number, currency: string) {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(n);
+  } catch {
+    return String(n);
+  }
+}
+
+export function formatCompactFiat(n: number, currency: string) {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      notation: "compact",
+      maximumFractionDigits: 1,
+    }).format(n);
+  } catch {
+    return String(n);
+  }
+}
+
+export const PREMIUM_LEG_LABELS: Record<keyof PremiumLegs, string> = {
+  upbitKrw: "업비트 (KRW)",
+  binanceUsd: "바이낸스 (USD)",
+  coinbaseUsd: "코인베이스 (USD)",
+  usdKrw: "USD/KRW",
+};
+
+export const PREMIUM_LEGS = Object.keys(PREMIUM_LEG_LABELS) as (keyof PremiumLegs)[];
+
+export function formatLeg(name: keyof PremiumLegs, value: number) {
+  if (name === "upbitKrw") return `₩${formatNumber(value)}`;
+  if (name === "usdKrw") return value.toFixed(2);
+  return formatUSD(value);
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { z } from "zod";
+import {
+  ErrorResponseSchema,
+  LayoutListResponseSchema,
+  LayoutSchema,
+  MAX_WIDGETS,
+  WidgetSchema,
+  type Layout,
+  type WidgetKind,
+} from "@bit-auto/shared";
+import { authErrorMessage, parseApi, readHeaders, writeHeaders } from "@/lib/api";
+
+const PROFILE_KEY = "dashboard.profile";
+const DRAFT_KEY = "dashboard.layout";
+const DEFAULT_PROFILE = "기본";
+const DEFAULT_NAME = "내 대시보드";
+
+// 편집 중인 레이아웃. 아직 서버에 저장하지 않았으면 id가 null이다.
+const DraftSchema = z.object({
+  id: z.string().nullable(),
+  name: z.string(),
+  owner: z.string(),
+  shared: z.boolean(),
+  widgets: z.array(WidgetSchema),
+});
+
+export type DashboardDraft = z.infer<typeof DraftSchema>;
+
+export const WIDGET_LABELS: Record<WidgetKind, string> = {
+  price: "현재가",
+  premium: "프리미엄",
+  risk: "리스크",
+  funding: "펀딩 / 선물",
+  depth: "호가 뎁스",
+  history: "히스토리",
+};
+
+// 서버가 저장할 때 id를 다시 확인하므로 화면 안에서만 겹치지 않으면 된다.
+function widgetId() {
+  return `w-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function defaultDraft(owner: string): DashboardDraft {
+  const kinds: WidgetKind[] = ["price", "premium", "risk", "history", "depth"];
+  return {
+    id: null,
+    name: DEFAULT_NAME,
+    owner,
+    shared: false,
+    widgets: kinds.map((kind) => ({ id: widgetId(), kind, symbol: "BTC" })),
+  };
+}
+
+function toDraft({ id, name, owner, shared, widgets }: Layout): DashboardDraft {
+  return { id, name, owner, shared, widgets };
+}
+
+function readDraft(): DashboardDraft | null {
+  try {
+    const parsed = DraftSchema.safeParse(JSON.parse(window.localStorage.getItem(DRAFT_KEY) ?? ""));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// 위젯 구성은 바뀔 때마다 localStorage에 남겨서, API가 죽어 있어도 마지막 화면을 복원한다.
+export function useDashboardLayout(apiBase: string) {
+  const [profile, setProfileState] = useState(DEFAULT_PROFILE);
+  const [draft, setDraft] = useState<DashboardDraft>(() => defaultDraft(DEFAULT_PROFILE));
+  const [layouts, setLayouts] = useState<Layout[]>([]);
+  const [ready, setReady] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const owner = window.localStorage.getItem(PROFILE_KEY) || DEFAULT_PROFILE;
+    setProfileState(owner);
+    setDraft(readDraft() ?? defaultDraft(owner));
+    setReady(true);
+  }, []);
+
+  useEffect(() => {
+    if (ready) window.localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+  }, [draft, ready]);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/api/layouts?owner=${encodeURIComponent(profile)}`, {
+        cache: "no-store",
+        headers: readHeaders(),
+      });
+      if (!res.ok) throw new Error(`레이아웃 API HTTP ${res.status}`);
+      setLayouts(parseApi(LayoutListResponseSchema, await res.json(), "레이아웃").layouts);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }, [apiBase, profile]);
+
+  useEffect(() => {
+    if (ready) load();
+  }, [load, ready]);
+
+  async function request(path: string, init: RequestInit) {
+    const res = await fetch(`${apiBase}${path}`, {
+      ...init,
+      headers: writeHeaders(Boolean(init.body)),
+    });
+    if (!res.ok) {
+      const body = ErrorResponseSchema.safeParse(await res.json().catch(() => null));
+      throw new Error(
+        (body.success &&
+          (authErrorMessage(body.data.error) ?? (body.data.detail || body.data.error))) ||
+          `레이아웃 API HTTP ${res.status}`,
+      );
+    }
+    return res.status === 204 ? null : res.json();
+  }
+
+  function edit(update: (current: DashboardDraft) => DashboardDraft) {
+    setDraft(update);
+    setDirty(true);
+  }
+
+  const setProfile = useCallback((next: string) => {
+    setProfileState(next);
+    window.localStorage.setItem(PROFILE_KEY, next);
+  }, []);
+
+  function addWidget(kind: WidgetKind, symbol: string) {
+    if (draft.widgets.length >= MAX_WIDGETS) {
+      setError(`위젯은 최대 ${MAX_WIDGETS}개까지 추가할 수 있어요.`);
+      return;
+    }
+    edit((d) => ({ ...d, widgets: [...d.widgets, { id: widgetId(), kind, symbol }] }));
+  }
+
+  function removeWidget(id: string) {
+    edit((d) => ({ ...d, widgets: d.widgets.filter((w) => w.id !== id) }));
+  }
+
+  function moveWidget(id: string, offset: -1 | 1) {
+    edit((d) => {
+      const from = d.widgets.findIndex((w) => w.id === id);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= d.widgets.length) return d;
+      const widgets = [...d.widgets];
+      [widgets[from], widgets[to]] = [widgets[to], widgets[from]];
+      return { ...d, widgets };
+    });
+  }
+
+  function rename(name: string) {
+    edit((d) => ({ ...d, name }));
+  }
+
+  function setShared(shared: boolean) {
+    edit((d) => ({ ...d, shared }));
+  }
+
+  function open(layout: Layout) {
+    setDraft(toDraft(layout));
+    setDirty(false);
+  }
+
+  function reset() {
+    setDraft(defaultDraft(profile));
+    setDirty(false);
+  }
+
+  // 다른 프로필의 공유 레이아웃은 수정할 수 없으므로 내 프로필로 복사해 새로 저장한다.
+  async function save() {
+    const owned = draft.id !== null && draft.owner === profile;
+    const body = { name: draft.name, shared: draft.shared, widgets: draft.widgets };
+    try {
+      const json = owned
+        ? await request(`/api/layouts/${draft.id}?owner=${encodeURIComponent(profile)}`, {
+            method: "PATCH",
+            body: JSON.stringify(body),
+          })
+        : await request("/api/layouts", {
+            method: "POST",
+            body: JSON.stringify({ ...body, owner: profile }),
+          });
+      setDraft(toDraft(parseApi(LayoutSchema, json, "레이아웃")));
+      setDirty(false);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }
+
+  async function remove() {
+    if (draft.id === null || draft.owner !== profile) return;
+    try {
+      await request(`/api/layouts/${draft.id}?owner=${encodeURIComponent(profile)}`, {
+        method: "DELETE",
+      });
+      reset();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }
+
+  return {
+    profile,
+    setProfile,
+    draft,
+    layouts,
+    dirty,
+    error,
+    // 저장된 적 있고 현재 프로필이 주인일 때만 덮어쓰기/삭제가 가능하다.
+    owned: draft.id !== null && draft.owner === profile,
+    addWidget,
+    removeWidget,
+    moveWidget,
+    rename,
+    setShared,
+    open,
+    reset,
+    save,
+    remove,
+  };
+}
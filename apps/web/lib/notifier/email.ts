@@ -0,0 +1,31 @@
+import nodemailer from "nodemailer";
+import type { AlertLevel, NotifyChannel } from "./types";
+
+const SMTP_TIMEOUT_MS = 5_000;
+
+export function createEmailChannel(opts: {
+  smtpUrl: string;
+  from: string;
+  to: string;
+  minLevel: AlertLevel;
+}): NotifyChannel {
+  // Fail a stalled server within one attempt instead of nodemailer's multi-minute defaults.
+  const transport = nodemailer.createTransport(opts.smtpUrl, {
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  return {
+    id: "email",
+    minLevel: opts.minLevel,
+    async send(message) {
+      await transport.sendMail({
+        from: opts.from,
+        to: opts.to,
+        subject: message.title,
+        text: message.text,
+      });
+    },
+  };
+}
@@ -0,0 +1,22 @@
+const SEND_TIMEOUT_MS = 5_000;
+
+export async function postJson(url: string, body: string, headers: Record<string, string> = {}) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), SEND_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+      cache: "no-store",
+      signal: controller.signal,
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`HTTP ${res.status}: ${text.slice(0, 200)}`);
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,161 @@
+import { appendFile } from "node:fs/promises";
+import { createEmailChannel } from "./email";
+import { createSlackChannel } from "./slack";
+import { createTelegramChannel } from "./telegram";
+import {
+  LEVEL_RANK,
+  type AlertLevel,
+  type AlertMessage,
+  type DeliveryRecord,
+  type NotifyChannel,
+} from "./types";
+import { createWebhookChannel } from "./webhook";
+
+export type { AlertLevel, AlertMessage, DeliveryRecord, NotifyChannel } from "./types";
+
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 500;
+// Caps each attempt whatever the channel's client does (nodemailer waits minutes by default).
+export const ATTEMPT_TIMEOUT_MS = 10_000;
+// Longest `notify` can take: channels send in parallel, each with every attempt timing out and the
+// longest backoff between them.
+export const NOTIFY_MAX_MS =
+  MAX_ATTEMPTS * ATTEMPT_TIMEOUT_MS + BACKOFF_BASE_MS * 1.5 * (2 ** (MAX_ATTEMPTS - 1) - 1);
+const DELIVERY_LOG_LIMIT = 200;
+const DELIVERY_LOG_PATH = process.env.ALERT_DELIVERY_LOG;
+
+const deliveryLog: DeliveryRecord[] = [];
+
+function parseLevel(value: string | undefined, fallback: AlertLevel): AlertLevel {
+  const upper = value?.toUpperCase();
+  return upper === "OK" || upper === "WARN" || upper === "DANGER" ? upper : fallback;
+}
+
+export function channelsFromEnv(env: NodeJS.ProcessEnv = process.env): NotifyChannel[] {
+  const channels: NotifyChannel[] = [];
+
+  if (env.ALERT_WEBHOOK_URL) {
+    channels.push(
+      createWebhookChannel({
+        url: env.ALERT_WEBHOOK_URL,
+        secret: env.ALERT_WEBHOOK_SECRET,
+        minLevel: parseLevel(env.ALERT_WEBHOOK_MIN_LEVEL, "WARN"),
+      }),
+    );
+  }
+  if (env.SLACK_WEBHOOK_URL) {
+    channels.push(
+      createSlackChannel({
+        webhookUrl: env.SLACK_WEBHOOK_URL,
+        minLevel: parseLevel(env.SLACK_MIN_LEVEL, "WARN"),
+      }),
+    );
+  }
+  if (env.TELEGRAM_BOT_TOKEN && env.TELEGRAM_CHAT_ID) {
+    channels.push(
+      createTelegramChannel({
+        botToken: env.TELEGRAM_BOT_TOKEN,
+        chatId: env.TELEGRAM_CHAT_ID,
+        minLevel: parseLevel(env.TELEGRAM_MIN_LEVEL, "WARN"),
+      }),
+    );
+  }
+  if (env.SMTP_URL && env.ALERT_EMAIL_TO) {
+    channels.push(
+      createEmailChannel({
+        smtpUrl: env.SMTP_URL,
+        from: env.ALERT_EMAIL_FROM || "bit-auto@localhost",
+        to: env.ALERT_EMAIL_TO,
+        minLevel: parseLevel(env.ALERT_EMAIL_MIN_LEVEL, "DANGER"),
+      }),
+    );
+  }
+
+  return channels;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function sendWithTimeout(channel: NotifyChannel, message: AlertMessage) {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error(`timed out after ${ATTEMPT_TIMEOUT_MS}ms`)),
+      ATTEMPT_TIMEOUT_MS,
+    );
+  });
+  try {
+    await Promise.race([channel.send(message), timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function sendWithRetry(channel: NotifyChannel, message: AlertMessage) {
+  let lastError: unknown = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      await sendWithTimeout(channel, message);
+      return { ok: true as const, attempts: attempt };
+    } catch (error) {
+      lastError = error;
+      if (attempt < MAX_ATTEMPTS) {
+        const backoff = BACKOFF_BASE_MS * 2 ** (attempt - 1);
+        await sleep(backoff / 2 + Math.random() * backoff);
+      }
+    }
+  }
+
+  return {
+    ok: false as const,
+    attempts: MAX_ATTEMPTS,
+    error: lastError instanceof Error ? lastError.message : String(lastError),
+  };
+}
+
+function logDelivery(record: DeliveryRecord) {
+  deliveryLog.push(record);
+  if (deliveryLog.length > DELIVERY_LOG_LIMIT) deliveryLog.shift();
+
+  if (DELIVERY_LOG_PATH) {
+    appendFile(DELIVERY_LOG_PATH, `${JSON.stringify(record)}\n`).catch((error) =>
+      console.error("[ALERT] failed to write delivery log", error),
+    );
+  }
+}
+
+export function recentDeliveries() {
+  return [...deliveryLog].reverse();
+}
+
+// `gateLevel` lets a recovery (OK) message reach the channels that got the original alert.
+export async function notify(
+  message: AlertMessage,
+  channels: NotifyChannel[] = channelsFromEnv(),
+  gateLevel: AlertLevel = message.level,
+): Promise<DeliveryRecord[]> {
+  const records = await Promise.all(
+    channels.map(async (channel): Promise<DeliveryRecord> => {
+      if (LEVEL_RANK[gateLevel] < LEVEL_RANK[channel.minLevel]) {
+        return {
+          channel: channel.id,
+          level: message.level,
+          ok: true,
+          attempts: 0,
+          skipped: "below_min_level",
+          ts: Date.now(),
+        };
+      }
+      const result = await sendWithRetry(channel, message);
+      return { channel: channel.id, level: message.level, ...result, ts: Date.now() };
+    }),
+  );
+
+  for (const record of records) {
+    if (!record.skipped) logDelivery(record);
+  }
+  return records;
+}
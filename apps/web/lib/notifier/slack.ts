@@ -0,0 +1,27 @@
+import { postJson } from "./http";
+import type { AlertLevel, NotifyChannel } from "./types";
+
+const LEVEL_EMOJI: Record<AlertLevel, string> = {
+  OK: ":white_check_mark:",
+  WARN: ":warning:",
+  DANGER: ":rotating_light:",
+};
+
+export function createSlackChannel(opts: { webhookUrl: string; minLevel: AlertLevel }): NotifyChannel {
+  return {
+    id: "slack",
+    minLevel: opts.minLevel,
+    async send(message) {
+      const body = JSON.stringify({
+        text: `${LEVEL_EMOJI[message.level]} ${message.title}`,
+        blocks: [
+          {
+            type: "section",
+            text: { type: "mrkdwn", text: `*${message.title}*\n${message.text}` },
+          },
+        ],
+      });
+      await postJson(opts.webhookUrl, body);
+    },
+  };
+}
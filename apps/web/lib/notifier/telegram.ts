@@ -0,0 +1,23 @@
+import { postJson } from "./http";
+import type { AlertLevel, NotifyChannel } from "./types";
+
+const TELEGRAM_API_BASE = process.env.TELEGRAM_API_BASE || "https://api.telegram.org";
+
+export function createTelegramChannel(opts: {
+  botToken: string;
+  chatId: string;
+  minLevel: AlertLevel;
+}): NotifyChannel {
+  return {
+    id: "telegram",
+    minLevel: opts.minLevel,
+    async send(message) {
+      const body = JSON.stringify({
+        chat_id: opts.chatId,
+        text: `${message.title}\n${message.text}`,
+        disable_web_page_preview: true,
+      });
+      await postJson(`${TELEGRAM_API_BASE}/bot${opts.botToken}/sendMessage`, body);
+    },
+  };
+}
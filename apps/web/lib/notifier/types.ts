@@ -0,0 +1,30 @@
+export type AlertLevel = "OK" | "WARN" | "DANGER";
+
+export const LEVEL_RANK: Record<AlertLevel, number> = { OK: 0, WARN: 1, DANGER: 2 };
+
+export type AlertMessage = {
+  level: AlertLevel;
+  title: string;
+  text: string;
+  symbol: string;
+  fundingRate: number;
+  openInterest: number;
+  reasons: string[];
+  ts: number;
+};
+
+export type NotifyChannel = {
+  id: "webhook" | "slack" | "telegram" | "email";
+  minLevel: AlertLevel;
+  send(message: AlertMessage): Promise<void>;
+};
+
+export type DeliveryRecord = {
+  channel: NotifyChannel["id"];
+  level: AlertLevel;
+  ok: boolean;
+  attempts: number;
+  skipped?: "below_min_level";
+  error?: string;
+  ts: number;
+};
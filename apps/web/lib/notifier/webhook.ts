@@ -0,0 +1,29 @@
+import crypto from "node:crypto";
+import { postJson } from "./http";
+import type { AlertLevel, NotifyChannel } from "./types";
+
+// Receivers verify `sha256=HMAC(secret, "<timestamp>.<body>")` and reject stale timestamps.
+export function signPayload(secret: string, timestamp: string, body: string) {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+export function createWebhookChannel(opts: {
+  url: string;
+  secret?: string;
+  minLevel: AlertLevel;
+}): NotifyChannel {
+  return {
+    id: "webhook",
+    minLevel: opts.minLevel,
+    async send(message) {
+      const body = JSON.stringify(message);
+      const timestamp = String(Date.now());
+      const headers: Record<string, string> = { "X-BitAuto-Timestamp": timestamp };
+      if (opts.secret) {
+        headers["X-BitAuto-Signature"] = signPayload(opts.secret, timestamp, body);
+      }
+      await postJson(opts.url, body, headers);
+    },
+  };
+}
@@ -0,0 +1,32 @@
+const UPSTREAM_BASE = process.env.RENDER_API_BASE;
+// Sent as `X-API-Key` when the API runs with API_AUTH=required.
+const UPSTREAM_API_KEY = process.env.RENDER_API_KEY;
+export const FETCH_TIMEOUT_MS = 4_000;
+
+function makeUpstreamUrl(path: string) {
+  if (!UPSTREAM_BASE) {
+    throw new Error("Missing RENDER_API_BASE");
+  }
+  return `${UPSTREAM_BASE.replace(/\/+$/, "")}${path}`;
+}
+
+// Server-side only: the API key must never reach the browser.
+export async function fetchUpstream(path: string): Promise<unknown> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(makeUpstreamUrl(path), {
+      cache: "no-store",
+      signal: controller.signal,
+      headers: UPSTREAM_API_KEY ? { "X-API-Key": UPSTREAM_API_KEY } : undefined,
+    });
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Upstream HTTP ${res.status}: ${body}`);
+    }
+    return res.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
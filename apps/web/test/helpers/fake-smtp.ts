@@ -0,0 +1,60 @@
+import net from "node:net";
+import type { AddressInfo } from "node:net";
+
+export type SmtpMessage = { from: string; to: string[]; data: string };
+
+// Just enough SMTP for nodemailer: no TLS, no auth, every command accepted.
+export async function startFakeSmtp() {
+  const messages: SmtpMessage[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    let current: SmtpMessage = { from: "", to: [], data: "" };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply("220 fake-smtp ready");
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let end;
+      while ((end = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            messages.push(current);
+            current = { from: "", to: [], data: "" };
+            reply("250 queued");
+          } else {
+            current.data += `${line.startsWith("..") ? line.slice(1) : line}\n`;
+          }
+          continue;
+        }
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === "EHLO" || command === "HELO") reply("250 fake-smtp");
+        else if (command === "MAIL") {
+          current.from = /<(.*)>/.exec(line)?.[1] ?? "";
+          reply("250 ok");
+        } else if (command === "RCPT") {
+          current.to.push(/<(.*)>/.exec(line)?.[1] ?? "");
+          reply("250 ok");
+        } else if (command === "DATA") {
+          inData = true;
+          reply("354 end with .");
+        } else if (command === "QUIT") {
+          reply("221 bye");
+          socket.end();
+        } else reply("250 ok");
+      }
+    });
+  });
+  server.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+
+  return {
+    url: `smtp://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    messages,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
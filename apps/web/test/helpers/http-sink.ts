@@ -0,0 +1,27 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type SinkRequest = { headers: http.IncomingHttpHeaders; body: string };
+
+// Records every POST; `statuses` answers the first requests with those codes, then 200.
+export async function startHttpSink(statuses: number[] = []) {
+  const requests: SinkRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body });
+      const status = statuses[requests.length - 1] ?? 200;
+      res.writeHead(status).end(status === 200 ? "ok" : "sink failure");
+    });
+  });
+  server.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`,
+    requests,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
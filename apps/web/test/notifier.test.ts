@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { test } from "node:test";
+import { channelsFromEnv, notify, recentDeliveries, type AlertMessage } from "@/lib/notifier";
+import { startFakeSmtp } from "./helpers/fake-smtp";
+import { startHttpSink } from "./helpers/http-sink";
+
+const message: AlertMessage = {
+  level: "DANGER",
+  title: "[DANGER] BTC risk alert",
+  text: "Funding rate: 0.1000%",
+  symbol: "BTC",
+  fundingRate: 0.001,
+  openInterest: 100_000,
+  reasons: ["funding_high"],
+  ts: 1_700_000_000_000,
+};
+
+function channels(vars: Record<string, string>) {
+  return channelsFromEnv({ NODE_ENV: "test", ...vars });
+}
+
+test("webhook deliveries are signed with HMAC-SHA256 over timestamp and body", async (t) => {
+  const sink = await startHttpSink();
+  t.after(sink.close);
+  const webhook = channels({ ALERT_WEBHOOK_URL: sink.url, ALERT_WEBHOOK_SECRET: "s3cret" });
+
+  const [record] = await notify(message, webhook);
+
+  assert.equal(record.ok, true);
+  assert.equal(sink.requests.length, 1);
+  const { headers, body } = sink.requests[0];
+  const timestamp = String(headers["x-bitauto-timestamp"]);
+  const expected = crypto.createHmac("sha256", "s3cret").update(`${timestamp}.${body}`);
+  assert.equal(headers["x-bitauto-signature"], `sha256=${expected.digest("hex")}`);
+  assert.deepEqual(JSON.parse(body), message);
+});
+
+test("failed sends are retried until one succeeds", async (t) => {
+  const sink = await startHttpSink([500, 503]);
+  t.after(sink.close);
+
+  const [record] = await notify(message, channels({ ALERT_WEBHOOK_URL: sink.url }));
+
+  assert.equal(record.ok, true);
+  assert.equal(record.attempts, 3);
+  assert.equal(sink.requests.length, 3);
+});
+
+test("a channel that keeps failing reports the last error after three attempts", async (t) => {
+  const sink = await startHttpSink([500, 500, 500]);
+  t.after(sink.close);
+
+  const [record] = await notify(message, channels({ SLACK_WEBHOOK_URL: sink.url }));
+
+  assert.equal(record.ok, false);
+  assert.equal(record.attempts, 3);
+  assert.match(record.error ?? "", /HTTP 500/);
+  assert.equal(recentDeliveries()[0].error, record.error);
+});
+
+test("channels below their minimum level are skipped without sending", async (t) => {
+  const sink = await startHttpSink();
+  t.after(sink.close);
+  const webhook = channels({ ALERT_WEBHOOK_URL: sink.url, ALERT_WEBHOOK_MIN_LEVEL: "DANGER" });
+
+  const [record] = await notify({ ...message, level: "WARN" }, webhook);
+
+  assert.equal(record.skipped, "below_min_level");
+  assert.equal(sink.requests.length, 0);
+});
+
+test("email alerts go out through SMTP", async (t) => {
+  const smtp = await startFakeSmtp();
+  t.after(smtp.close);
+  const email = channels({
+    SMTP_URL: smtp.url,
+    ALERT_EMAIL_FROM: "bot@bit-auto.test",
+    ALERT_EMAIL_TO: "ops@bit-auto.test",
+  });
+
+  const [record] = await notify(message, email);
+
+  assert.equal(record.ok, true);
+  assert.equal(smtp.messages.length, 1);
+  assert.equal(smtp.messages[0].from, "bot@bit-auto.test");
+  assert.deepEqual(smtp.messages[0].to, ["ops@bit-auto.test"]);
+  assert.match(smtp.messages[0].data, /Subject: \[DANGER\] BTC risk alert/);
+});
@@ -0,0 +1,86 @@
+import { z } from "zod";
+
+export const AlertMetricSchema = z.enum([
+  "price",
+  "fundingRate",
+  "openInterest",
+  "kimchiPremium",
+  "coinbasePremium",
+]);
+
+export type AlertMetric = z.infer<typeof AlertMetricSchema>;
+
+export const AlertConditionSchema = z.enum(["above", "below", "crossesAbove", "crossesBelow"]);
+
+export type AlertCondition = z.infer<typeof AlertConditionSchema>;
+
+export const AlertModeSchema = z.enum(["once", "recurring"]);
+
+export const AlertStatusSchema = z.enum(["active", "triggered", "expired"]);
+
+export const UserAlertSchema = z.object({
+  id: z.string(),
+  owner: z.string().nullable(),
+  symbol: z.string(),
+  metric: AlertMetricSchema,
+  condition: AlertConditionSchema,
+  threshold: z.number(),
+  // "once" disables the alert after it fires; "recurring" re-arms after the cooldown.
+  mode: AlertModeSchema,
+  cooldownMinutes: z.number(),
+  expiresAt: z.number().nullable(),
+  note: z.string().nullable(),
+  status: AlertStatusSchema,
+  triggerCount: z.number(),
+  lastTriggeredAt: z.number().nullable(),
+  lastTriggerValue: z.number().nullable(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export type UserAlert = z.infer<typeof UserAlertSchema>;
+
+export const AlertInputSchema = z.object({
+  owner: z.string().nullable().optional(),
+  symbol: z.string(),
+  metric: AlertMetricSchema,
+  condition: AlertConditionSchema,
+  threshold: z.number().finite(),
+  mode: AlertModeSchema.default("once"),
+  cooldownMinutes: z.number().min(0).default(0),
+  expiresAt: z.number().finite().nullable().default(null),
+  note: z.string().nullable().optional(),
+  status: AlertStatusSchema.default("active"),
+});
+
+export type AlertInput = z.input<typeof AlertInputSchema>;
+
+// PATCH bodies drop the create-time defaults so omitted fields keep their stored value.
+export const AlertPatchSchema = AlertInputSchema.extend({
+  mode: AlertModeSchema,
+  cooldownMinutes: z.number().min(0),
+  expiresAt: z.number().finite().nullable(),
+  status: AlertStatusSchema,
+}).partial();
+
+export type AlertPatch = z.infer<typeof AlertPatchSchema>;
+
+export const AlertListResponseSchema = z.object({ alerts: z.array(UserAlertSchema) });
+
+export const AlertTriggerSchema = z.object({
+  alertId: z.string(),
+  owner: z.string().nullable(),
+  symbol: z.string(),
+  metric: AlertMetricSchema,
+  condition: AlertConditionSchema,
+  threshold: z.number(),
+  value: z.number(),
+  note: z.string().nullable(),
+  ts: z.number(),
+});
+
+export type AlertTrigger = z.infer<typeof AlertTriggerSchema>;
+
+export const AlertTriggerListResponseSchema = z.object({
+  triggers: z.array(AlertTriggerSchema),
+});
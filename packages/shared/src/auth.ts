@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+// `read` covers every data route, plus portfolio and layout writes (those need a key, but `owner`
+// is a label the client picks, not checked against it); `admin` adds alert changes, backtests,
+// config reloads, scheduler triggers and key management.
+export const ApiScopeSchema = z.enum(["read", "admin"]);
+
+export type ApiScope = z.infer<typeof ApiScopeSchema>;
+
+// `off`: no checks. `optional`: anonymous reads are rate limited per IP. `required`: every
+// request needs a key.
+export const AuthModeSchema = z.enum(["off", "optional", "required"]);
+
+export type AuthMode = z.infer<typeof AuthModeSchema>;
+
+export const RateLimitSchema = z.object({
+  // Burst size: a full bucket allows this many requests back to back.
+  capacity: z.number().int().positive(),
+  refillPerSecond: z.number().positive(),
+});
+
+export type RateLimit = z.infer<typeof RateLimitSchema>;
+
+export const ApiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  // First characters of the key, enough to recognise it; the key itself is only stored hashed.
+  prefix: z.string(),
+  scope: ApiScopeSchema,
+  // Null uses the server default.
+  rateLimit: RateLimitSchema.nullable(),
+  // Requests per UTC day, null for unlimited.
+  dailyQuota: z.number().int().positive().nullable(),
+  createdAt: z.number(),
+});
+
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+
+export const ApiKeyInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  scope: ApiScopeSchema.default("read"),
+  rateLimit: RateLimitSchema.nullable().default(null),
+  dailyQuota: z.number().int().positive().nullable().default(null),
+});
+
+export type ApiKeyInput = z.input<typeof ApiKeyInputSchema>;
+
+export const ApiKeyCreatedSchema = z.object({
+  // Shown once; only its hash is kept.
+  key: z.string(),
+  apiKey: ApiKeySchema,
+});
+
+export type ApiKeyCreated = z.infer<typeof ApiKeyCreatedSchema>;
+
+export const ApiKeyListResponseSchema = z.object({
+  keys: z.array(ApiKeySchema),
+});
+
+export const ApiKeyUsageSchema = z.object({
+  // `anonymous` for requests without a key, `env-admin` for ADMIN_API_KEY.
+  id: z.string(),
+  name: z.string(),
+  scope: ApiScopeSchema,
+  requests: z.number(),
+  // Requests on the current UTC day, which is what the quota counts.
+  today: z.number(),
+  dailyQuota: z.number().nullable(),
+  rateLimited: z.number(),
+  quotaExceeded: z.number(),
+  lastUsedAt: z.number().nullable(),
+  // Request count per route pattern.
+  routes: z.record(z.string(), z.number()),
+});
+
+export type ApiKeyUsage = z.infer<typeof ApiKeyUsageSchema>;
+
+export const UsageResponseSchema = z.object({
+  mode: AuthModeSchema,
+  day: z.string(),
+  usage: z.array(ApiKeyUsageSchema),
+  ts: z.number(),
+});
+
+export type UsageResponse = z.infer<typeof UsageResponseSchema>;
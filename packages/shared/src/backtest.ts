@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { RiskLevelSchema } from "./common";
+import { HistoryPointSchema } from "./market";
+import { ResolvedRuleSetSchema, RiskRuleConfigSchema } from "./risk";
+import { SignalDirectionSchema, SignalTypeSchema } from "./signals";
+
+// CSV text, an array of row objects, or { price: [{ t, v }], ... } keyed by history metric.
+export const BacktestDataSchema = z.union([
+  z.string(),
+  z.array(z.record(z.string(), z.unknown())),
+  z.record(z.string(), z.array(HistoryPointSchema)),
+]);
+
+export type BacktestData = z.infer<typeof BacktestDataSchema>;
+
+export const BacktestRequestSchema = z.object({
+  symbol: z.string().min(1).optional(),
+  // Omitted: replay the locally recorded history between `from` and `to`.
+  data: BacktestDataSchema.optional(),
+  from: z.number().optional(),
+  to: z.number().optional(),
+  stepMinutes: z.number().positive().default(5),
+  horizonsMinutes: z.array(z.number().positive()).min(1).max(10).default([60, 240, 1440]),
+  // Max price excursion within a horizon that counts as a real move.
+  moveThreshold: z.number().positive().default(0.02),
+  // Rule config to try instead of the live one.
+  rules: RiskRuleConfigSchema.optional(),
+});
+
+export type BacktestRequest = z.input<typeof BacktestRequestSchema>;
+
+export const ForwardStatsSchema = z.object({
+  horizonMinutes: z.number(),
+  // Events that had a price at both ends of the horizon.
+  count: z.number(),
+  meanReturn: z.number().nullable(),
+  medianReturn: z.number().nullable(),
+  // Share of events followed by a move of at least `moveThreshold` in either direction.
+  hitRate: z.number().nullable(),
+  // 1 - hitRate for alerts and signals; null for the baseline.
+  falsePositiveRate: z.number().nullable(),
+});
+
+export type ForwardStats = z.infer<typeof ForwardStatsSchema>;
+
+export const BacktestLevelStatsSchema = z.object({
+  level: RiskLevelSchema,
+  evaluations: z.number(),
+  share: z.number(),
+  // Steps where the level rose into this one from a lower level.
+  onsets: z.number(),
+});
+
+export type BacktestLevelStats = z.infer<typeof BacktestLevelStatsSchema>;
+
+export const BacktestRuleStatsSchema = z.object({
+  id: z.string(),
+  fired: z.number(),
+  noData: z.number(),
+  fireRate: z.number(),
+});
+
+export type BacktestRuleStats = z.infer<typeof BacktestRuleStatsSchema>;
+
+export const BacktestSignalStatsSchema = z.object({
+  type: SignalTypeSchema,
+  direction: SignalDirectionSchema,
+  onsets: z.number(),
+  forward: z.array(ForwardStatsSchema),
+});
+
+export type BacktestSignalStats = z.infer<typeof BacktestSignalStatsSchema>;
+
+export const BacktestResultSchema = z.object({
+  symbol: z.string(),
+  from: z.number(),
+  to: z.number(),
+  stepMinutes: z.number(),
+  horizonsMinutes: z.array(z.number()),
+  moveThreshold: z.number(),
+  // Imported sample count per history metric.
+  samples: z.record(z.string(), z.number()),
+  evaluations: z.number(),
+  // Steps without a usable funding rate or open interest.
+  skipped: z.number(),
+  ruleSet: ResolvedRuleSetSchema,
+  levels: z.array(BacktestLevelStatsSchema),
+  rules: z.array(BacktestRuleStatsSchema),
+  forward: z.object({
+    baseline: z.array(ForwardStatsSchema),
+    WARN: z.array(ForwardStatsSchema),
+    DANGER: z.array(ForwardStatsSchema),
+  }),
+  signals: z.array(BacktestSignalStatsSchema),
+  ts: z.number(),
+});
+
+export type BacktestResult = z.infer<typeof BacktestResultSchema>;
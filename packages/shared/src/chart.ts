@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { RiskLevelSchema } from "./common";
+import { HistoryPointSchema } from "./market";
+
+export const ChartRangeSchema = z.enum(["1h", "24h", "7d", "30d"]);
+
+export type ChartRange = z.infer<typeof ChartRangeSchema>;
+
+// One point per bucket, stamped with the bucket start; buckets without data are left out.
+export const ChartSeriesSchema = z.object({
+  price: z.array(HistoryPointSchema),
+  funding: z.array(HistoryPointSchema),
+  openInterest: z.array(HistoryPointSchema),
+  kimchiPremium: z.array(HistoryPointSchema),
+  coinbasePremium: z.array(HistoryPointSchema),
+});
+
+export type ChartSeries = z.infer<typeof ChartSeriesSchema>;
+
+// A run of consecutive buckets the rule engine scored at the same non-OK level.
+export const RiskSegmentSchema = z.object({
+  from: z.number(),
+  to: z.number(),
+  level: RiskLevelSchema.exclude(["OK"]),
+});
+
+export type RiskSegment = z.infer<typeof RiskSegmentSchema>;
+
+export const ChartBackfillSchema = z.object({
+  source: z.enum(["klines", "fundingRate", "openInterestHist"]),
+  points: z.number(),
+  error: z.string().nullable(),
+});
+
+export type ChartBackfill = z.infer<typeof ChartBackfillSchema>;
+
+export const ChartResponseSchema = z.object({
+  symbol: z.string(),
+  range: ChartRangeSchema,
+  from: z.number(),
+  to: z.number(),
+  interval: z.number(),
+  series: ChartSeriesSchema,
+  risk: z.array(RiskSegmentSchema),
+  backfill: z.array(ChartBackfillSchema),
+  cached: z.boolean(),
+  fetchedAt: z.number(),
+});
+
+export type ChartResponse = z.infer<typeof ChartResponseSchema>;
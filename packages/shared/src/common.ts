@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+// Exchanges send most numbers as strings; accept both and reject NaN/Infinity.
+export const numeric = z
+  .union([z.number(), z.string().trim().min(1)])
+  .pipe(z.coerce.number().finite());
+
+export const ErrorResponseSchema = z
+  .object({
+    error: z.string(),
+    detail: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+
+export const PriceSourceSchema = z.enum(["binance", "coinbase", "upbit", "bybit", "okx", "composite"]);
+
+export type PriceSource = z.infer<typeof PriceSourceSchema>;
+
+export const RiskLevelSchema = z.enum(["OK", "WARN", "DANGER"]);
+
+export type RiskLevel = z.infer<typeof RiskLevelSchema>;
@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { QuoteCurrencySchema, VenueIdSchema, settled } from "./market";
+
+export const DepthBandSchema = z.object({
+  // Distance from mid, e.g. 0.01 for ±1%.
+  band: z.number(),
+  bidNotional: z.number(),
+  askNotional: z.number(),
+});
+
+export type DepthBand = z.infer<typeof DepthBandSchema>;
+
+export const SlippageEstimateSchema = z.object({
+  notional: z.number(),
+  // Less than `notional` when the fetched book runs out first.
+  filledNotional: z.number(),
+  filled: z.boolean(),
+  avgPrice: z.number().nullable(),
+  worstPrice: z.number().nullable(),
+  // Average fill vs mid, positive when worse than mid.
+  slippage: z.number().nullable(),
+});
+
+export type SlippageEstimate = z.infer<typeof SlippageEstimateSchema>;
+
+export const DepthCurvePointSchema = z.object({
+  price: z.number(),
+  // Cumulative notional from the best level out to `price`.
+  notional: z.number(),
+});
+
+export type DepthCurvePoint = z.infer<typeof DepthCurvePointSchema>;
+
+// Every price and notional is in USD (USDT counted 1:1).
+export const DepthSummarySchema = z.object({
+  mid: z.number(),
+  bestBid: z.number(),
+  bestAsk: z.number(),
+  spread: z.number(),
+  spreadBps: z.number(),
+  bands: z.array(DepthBandSchema),
+  // How far from mid the fetched levels reach; bands past this are partial.
+  reach: z.object({ bids: z.number(), asks: z.number() }),
+  slippage: z.object({ buy: SlippageEstimateSchema, sell: SlippageEstimateSchema }),
+  curve: z.object({ bids: z.array(DepthCurvePointSchema), asks: z.array(DepthCurvePointSchema) }),
+});
+
+export type DepthSummary = z.infer<typeof DepthSummarySchema>;
+
+export const VenueDepthSchema = z.object({
+  venue: VenueIdSchema,
+  quote: QuoteCurrencySchema,
+  // Multiplier from the venue's quote currency to USD.
+  usdRate: z.number().nullable(),
+  // KRW venues carry the kimchi premium, so they are reported but never merged into `consolidated`.
+  included: z.boolean(),
+  depth: settled(DepthSummarySchema),
+  fetchedAt: z.number().nullable(),
+});
+
+export type VenueDepth = z.infer<typeof VenueDepthSchema>;
+
+export const DepthResponseSchema = z.object({
+  symbol: z.string(),
+  // Notional in USD used for the slippage estimates.
+  size: z.number(),
+  venues: z.array(VenueDepthSchema),
+  // Books of the `included` venues merged; null when none of them could be read.
+  consolidated: DepthSummarySchema.nullable(),
+  ts: z.number(),
+});
+
+export type DepthResponse = z.infer<typeof DepthResponseSchema>;
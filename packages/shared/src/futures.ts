@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { FundingQuoteSchema, VenueIdSchema, settled } from "./market";
+
+export const FundingHistoryPointSchema = z.object({
+  rate: z.number(),
+  ts: z.number(),
+  // Mark price at the settlement, where the venue reports it.
+  markPrice: z.number().optional(),
+});
+
+export type FundingHistoryPoint = z.infer<typeof FundingHistoryPointSchema>;
+
+export const LongShortRatioSchema = z.object({
+  // topPosition/topAccount: the venue's top traders by margin; account: all accounts.
+  kind: z.enum(["topPosition", "topAccount", "account"]),
+  ratio: z.number(),
+  long: z.number().nullable(),
+  short: z.number().nullable(),
+  ts: z.number(),
+});
+
+export type LongShortRatio = z.infer<typeof LongShortRatioSchema>;
+
+export const DeliveryBasisSchema = z.object({
+  contract: z.string(),
+  expiry: z.number(),
+  daysToExpiry: z.number(),
+  markPrice: z.number(),
+  indexPrice: z.number(),
+  basis: z.number(),
+  annualizedYield: z.number(),
+});
+
+export type DeliveryBasis = z.infer<typeof DeliveryBasisSchema>;
+
+export const VenueFuturesSchema = z.object({
+  venue: VenueIdSchema,
+  // Live estimate for the upcoming settlement, with mark/index from the same payload.
+  funding: settled(FundingQuoteSchema),
+  // Most recent settled rate from the venue's funding history.
+  lastFundingRate: z.number().nullable(),
+  nextFundingInMs: z.number().nullable(),
+  // (mark - index) / index on the perpetual.
+  markIndexBasis: z.number().nullable(),
+  fundingHistory: settled(z.array(FundingHistoryPointSchema)),
+  longShort: settled(z.array(LongShortRatioSchema)),
+  delivery: settled(z.array(DeliveryBasisSchema)),
+});
+
+export type VenueFutures = z.infer<typeof VenueFuturesSchema>;
+
+export const FuturesResponseSchema = z.object({
+  symbol: z.string(),
+  venues: z.array(VenueFuturesSchema),
+  cached: z.boolean(),
+  fetchedAt: z.number(),
+});
+
+export type FuturesResponse = z.infer<typeof FuturesResponseSchema>;
@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+export const FiatCurrencySchema = z.enum(["USD", "KRW", "JPY", "EUR"]);
+
+export type FiatCurrency = z.infer<typeof FiatCurrencySchema>;
+
+export const FxProviderStatusSchema = z.object({
+  provider: z.string(),
+  ok: z.boolean(),
+  // Quotes this provider returned for the tracked currencies, per 1 USD.
+  rates: z.record(z.string(), z.number()),
+  // Currencies where this provider's quote was dropped as an outlier.
+  rejected: z.array(FiatCurrencySchema),
+  error: z.string().nullable(),
+});
+
+export type FxProviderStatus = z.infer<typeof FxProviderStatusSchema>;
+
+export const FxRateSchema = z.object({
+  // Units of the currency per 1 USD.
+  rate: z.number(),
+  // Providers whose quotes agreed and went into `rate`.
+  providers: z.number(),
+  // (max - min) / rate over the agreeing quotes.
+  spread: z.number(),
+});
+
+export type FxRate = z.infer<typeof FxRateSchema>;
+
+export const FxResponseSchema = z.object({
+  base: z.literal("USD"),
+  // Currencies without an agreeing quote are left out.
+  rates: z.record(FiatCurrencySchema, FxRateSchema),
+  providers: z.array(FxProviderStatusSchema),
+  fetchedAt: z.number(),
+  cached: z.boolean(),
+  stale: z.boolean(),
+  error: z.string().nullable(),
+  ts: z.number(),
+});
+
+export type FxResponse = z.infer<typeof FxResponseSchema>;
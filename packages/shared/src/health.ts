@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+export const CircuitStateSchema = z.enum(["closed", "open", "halfOpen"]);
+
+export type CircuitState = z.infer<typeof CircuitStateSchema>;
+
+export const UpstreamHostHealthSchema = z.object({
+  host: z.string(),
+  state: CircuitStateSchema,
+  timeoutMs: z.number(),
+  requests: z.number(),
+  failures: z.number(),
+  consecutiveFailures: z.number(),
+  retries: z.number(),
+  coalesced: z.number(),
+  // Percentiles over the most recent successful calls, including retries.
+  latencyMs: z.object({
+    p50: z.number().nullable(),
+    p90: z.number().nullable(),
+    p99: z.number().nullable(),
+  }),
+  lastError: z.object({ message: z.string(), ts: z.number() }).nullable(),
+  lastSuccessAt: z.number().nullable(),
+  openUntil: z.number().nullable(),
+});
+
+export type UpstreamHostHealth = z.infer<typeof UpstreamHostHealthSchema>;
+
+export const UpstreamHealthResponseSchema = z.object({
+  upstreams: z.array(UpstreamHostHealthSchema),
+  ts: z.number(),
+});
+
+export type UpstreamHealthResponse = z.infer<typeof UpstreamHealthResponseSchema>;
@@ -1,14 +1,17 @@
-export type PriceSource = "coingecko" | "coinbase" | (string & {});
-
-export type PriceResponse<
-  TSymbol extends string = "BTC",
-  TCurrency extends string = "USD"
-> = {
-  symbol: TSymbol;
-  currency: TCurrency;
-  price: number;
-  source: PriceSource;
-  cached: boolean;
-  stale: boolean;
-  fetchedAt: string;
-};
+export * from "./common";
+export * from "./market";
+export * from "./risk";
+export * from "./alerts";
+export * from "./portfolio";
+export * from "./layouts";
+export * from "./liquidations";
+export * from "./signals";
+export * from "./futures";
+export * from "./depth";
+export * from "./backtest";
+export * from "./chart";
+export * from "./auth";
+export * from "./fx";
+export * from "./health";
+export * from "./scheduler";
+export * from "./upstream";
@@ -0,0 +1,58 @@
+import { z } from "zod";
+
+export const WidgetKindSchema = z.enum(["price", "premium", "risk", "funding", "depth", "history"]);
+
+export type WidgetKind = z.infer<typeof WidgetKindSchema>;
+
+export const WidgetSchema = z.object({
+  id: z.string(),
+  kind: WidgetKindSchema,
+  symbol: z.string(),
+});
+
+export type Widget = z.infer<typeof WidgetSchema>;
+
+export const MAX_WIDGETS = 24;
+
+export const LayoutSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  // Local profile name; there are no accounts, so this only scopes lists and edits.
+  owner: z.string(),
+  // Shared layouts show up in every profile's list but stay editable by their owner only.
+  shared: z.boolean(),
+  // Render order.
+  widgets: z.array(WidgetSchema),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export type Layout = z.infer<typeof LayoutSchema>;
+
+// Widgets may come without an id; the server assigns one.
+const widgetInput = WidgetSchema.extend({ id: z.string().min(1).max(64).optional() });
+
+const layoutFields = {
+  name: z.string().trim().min(1).max(80),
+  shared: z.boolean(),
+  widgets: z.array(widgetInput).max(MAX_WIDGETS),
+};
+
+export const LayoutInputSchema = z.object({
+  ...layoutFields,
+  owner: z.string().trim().min(1).max(64),
+  shared: layoutFields.shared.default(false),
+});
+
+export type LayoutInput = z.input<typeof LayoutInputSchema>;
+
+// Ownership can't move; everything else is replaced field by field.
+export const LayoutPatchSchema = z.object(layoutFields).partial();
+
+export type LayoutPatch = z.input<typeof LayoutPatchSchema>;
+
+export const LayoutListResponseSchema = z.object({
+  layouts: z.array(LayoutSchema),
+});
+
+export type LayoutListResponse = z.infer<typeof LayoutListResponseSchema>;
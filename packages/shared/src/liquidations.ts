@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+export const LiquidationSideSchema = z.enum(["long", "short"]);
+
+export type LiquidationSide = z.infer<typeof LiquidationSideSchema>;
+
+export const LiquidationEventSchema = z.object({
+  symbol: z.string(),
+  side: LiquidationSideSchema,
+  price: z.number(),
+  qty: z.number(),
+  // price * qty in USDT.
+  notional: z.number(),
+  ts: z.number(),
+});
+
+export type LiquidationEvent = z.infer<typeof LiquidationEventSchema>;
+
+export const LiquidationWindowSchema = z.enum(["1h", "4h", "24h"]);
+
+export type LiquidationWindow = z.infer<typeof LiquidationWindowSchema>;
+
+const sideTotals = z.object({
+  count: z.number(),
+  qty: z.number(),
+  notional: z.number(),
+});
+
+export const LiquidationTotalsSchema = z.object({
+  long: sideTotals,
+  short: sideTotals,
+});
+
+export type LiquidationTotals = z.infer<typeof LiquidationTotalsSchema>;
+
+export const LiquidationBucketSchema = z.object({
+  // Lower edge of the price bucket.
+  price: z.number(),
+  longNotional: z.number(),
+  shortNotional: z.number(),
+  count: z.number(),
+});
+
+export type LiquidationBucket = z.infer<typeof LiquidationBucketSchema>;
+
+export const LiquidationsResponseSchema = z.object({
+  symbol: z.string(),
+  totals: z.object({
+    "1h": LiquidationTotalsSchema,
+    "4h": LiquidationTotalsSchema,
+    "24h": LiquidationTotalsSchema,
+  }),
+  window: LiquidationWindowSchema,
+  bucketSize: z.number(),
+  buckets: z.array(LiquidationBucketSchema),
+  recent: z.array(LiquidationEventSchema),
+  upstream: z.enum(["binance", "fixture", "off"]),
+  connected: z.boolean(),
+  ts: z.number(),
+});
+
+export type LiquidationsResponse = z.infer<typeof LiquidationsResponseSchema>;
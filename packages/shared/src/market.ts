@@ -0,0 +1,272 @@
+import { z } from "zod";
+import { RiskLevelSchema } from "./common";
+
+export const SymbolInfoSchema = z.object({
+  symbol: z.string(),
+  binance: z.string(),
+  upbit: z.string(),
+  coinbase: z.string(),
+  bybit: z.string(),
+  okx: z.string(),
+});
+
+export type SymbolInfo = z.infer<typeof SymbolInfoSchema>;
+
+export const SymbolsResponseSchema = z.object({
+  symbols: z.array(SymbolInfoSchema),
+  default: z.string(),
+});
+
+export const PricePayloadSchema = z.object({
+  symbol: z.string(),
+  currency: z.literal("USDT"),
+  price: z.number(),
+  source: z.literal("binance"),
+  cached: z.boolean(),
+  stale: z.boolean(),
+  fetchedAt: z.number(),
+});
+
+export type PricePayload = z.infer<typeof PricePayloadSchema>;
+
+export const VenueIdSchema = z.enum(["binance", "coinbase", "upbit", "bybit", "okx"]);
+
+export type VenueId = z.infer<typeof VenueIdSchema>;
+
+export const QuoteCurrencySchema = z.enum(["USDT", "USD", "KRW"]);
+
+export type QuoteCurrency = z.infer<typeof QuoteCurrencySchema>;
+
+export const CompositeMethodSchema = z.enum(["median", "vwap"]);
+
+export type CompositeMethod = z.infer<typeof CompositeMethodSchema>;
+
+export const VenueQuoteSchema = z.object({
+  venue: VenueIdSchema,
+  quote: QuoteCurrencySchema,
+  price: z.number().nullable(),
+  volume24h: z.number().nullable(),
+  deviation: z.number().nullable(),
+  included: z.boolean(),
+  excludedReason: z.enum(["error", "outlier", "quote_currency"]).optional(),
+  error: z.string().optional(),
+  ts: z.number().nullable(),
+});
+
+export type VenueQuote = z.infer<typeof VenueQuoteSchema>;
+
+export const CompositePricePayloadSchema = z.object({
+  symbol: z.string(),
+  // USDT venues are averaged with USD ones at par, so the composite is USDT-denominated.
+  currency: z.literal("USDT"),
+  price: z.number(),
+  method: CompositeMethodSchema,
+  source: z.literal("composite"),
+  venues: z.array(VenueQuoteSchema),
+  cached: z.boolean(),
+  stale: z.boolean(),
+  fetchedAt: z.number(),
+});
+
+export type CompositePricePayload = z.infer<typeof CompositePricePayloadSchema>;
+
+export const RiskPayloadSchema = z.object({
+  symbol: z.string(),
+  fundingRate: z.number(),
+  openInterest: z.number(),
+  risk: z.object({
+    level: RiskLevelSchema,
+    reasons: z.array(z.string()),
+    score: z.number(),
+  }),
+  source: z.enum(["binance", "cache", "stale-cache"]),
+  ts: z.number(),
+});
+
+export type RiskPayload = z.infer<typeof RiskPayloadSchema>;
+
+// One premium input; `value` is null when it has never loaded or its last good value is too old to use.
+export const PremiumLegSchema = z.object({
+  value: z.number().nullable(),
+  fetchedAt: z.number().nullable(),
+  ageMs: z.number().nullable(),
+  cached: z.boolean(),
+  stale: z.boolean(),
+  error: z.string().nullable(),
+});
+
+export type PremiumLeg = z.infer<typeof PremiumLegSchema>;
+
+export const PremiumLegsSchema = z.object({
+  upbitKrw: PremiumLegSchema,
+  binanceUsd: PremiumLegSchema,
+  coinbaseUsd: PremiumLegSchema,
+  usdKrw: PremiumLegSchema,
+});
+
+export type PremiumLegs = z.infer<typeof PremiumLegsSchema>;
+
+export const PremiumPayloadSchema = z.object({
+  symbol: z.string(),
+  kimchiPremium: z.number().nullable(),
+  coinbasePremium: z.number().nullable(),
+  legs: PremiumLegsSchema,
+  source: z.literal("binance+upbit+coinbase"),
+  ts: z.number(),
+  cached: z.boolean(),
+  stale: z.boolean(),
+});
+
+export type PremiumPayload = z.infer<typeof PremiumPayloadSchema>;
+
+// Per-part result for endpoints that report partial failures; `null` means the venue has no such market.
+export function settled<T extends z.ZodTypeAny>(value: T) {
+  return z
+    .discriminatedUnion("ok", [
+      z.object({ ok: z.literal(true), value }),
+      z.object({ ok: z.literal(false), error: z.string() }),
+    ])
+    .nullable();
+}
+
+export const SpotQuoteSchema = z.object({
+  price: z.number(),
+  // 24h volume in base units, used as the weight for volume-weighted composites.
+  volume24h: z.number(),
+  ts: z.number(),
+});
+
+export type SpotQuote = z.infer<typeof SpotQuoteSchema>;
+
+export const OrderbookTopSchema = z.object({
+  bid: z.number(),
+  bidSize: z.number(),
+  ask: z.number(),
+  askSize: z.number(),
+  ts: z.number(),
+});
+
+export type OrderbookTop = z.infer<typeof OrderbookTopSchema>;
+
+export const OrderbookLevelSchema = z.object({
+  price: z.number(),
+  size: z.number(),
+});
+
+export type OrderbookLevel = z.infer<typeof OrderbookLevelSchema>;
+
+// L2 book, best level first on each side.
+export const OrderbookSchema = z.object({
+  bids: z.array(OrderbookLevelSchema),
+  asks: z.array(OrderbookLevelSchema),
+  ts: z.number(),
+});
+
+export type Orderbook = z.infer<typeof OrderbookSchema>;
+
+export const FundingQuoteSchema = z.object({
+  rate: z.number(),
+  nextFundingTime: z.number().nullable(),
+  markPrice: z.number().nullable(),
+  indexPrice: z.number().nullable(),
+  ts: z.number(),
+});
+
+export type FundingQuote = z.infer<typeof FundingQuoteSchema>;
+
+export const OpenInterestQuoteSchema = z.object({
+  // Open interest in base units (e.g. BTC), comparable across venues.
+  openInterest: z.number(),
+  ts: z.number(),
+});
+
+export type OpenInterestQuote = z.infer<typeof OpenInterestQuoteSchema>;
+
+export const VenueSnapshotResponseSchema = z.object({
+  symbol: z.string(),
+  venues: z.array(
+    z.object({
+      venue: VenueIdSchema,
+      quote: QuoteCurrencySchema,
+      spot: settled(SpotQuoteSchema),
+      orderbook: settled(OrderbookTopSchema),
+      funding: settled(FundingQuoteSchema),
+      openInterest: settled(OpenInterestQuoteSchema),
+    }),
+  ),
+  ts: z.number(),
+  cached: z.boolean(),
+});
+
+export const HistoryMetricSchema = z.enum([
+  "price",
+  "funding",
+  "openInterest",
+  "kimchiPremium",
+  "coinbasePremium",
+]);
+
+export type HistoryMetric = z.infer<typeof HistoryMetricSchema>;
+
+export const HistoryPointSchema = z.object({ t: z.number(), v: z.number() });
+
+export type HistoryPoint = z.infer<typeof HistoryPointSchema>;
+
+export const HistoryBucketSchema = z.object({
+  t: z.number(),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  avg: z.number(),
+  count: z.number(),
+});
+
+export type HistoryBucket = z.infer<typeof HistoryBucketSchema>;
+
+const historyBase = {
+  symbol: z.string(),
+  metric: HistoryMetricSchema,
+  from: z.number(),
+  to: z.number(),
+};
+
+export const HistoryResponseSchema = z.union([
+  z.object({
+    ...historyBase,
+    interval: z.number(),
+    agg: z.literal("ohlc"),
+    buckets: z.array(HistoryBucketSchema),
+    truncated: z.boolean(),
+  }),
+  z.object({
+    ...historyBase,
+    interval: z.number(),
+    agg: z.literal("avg"),
+    points: z.array(HistoryPointSchema.extend({ count: z.number() })),
+    truncated: z.boolean(),
+  }),
+  z.object({
+    ...historyBase,
+    points: z.array(HistoryPointSchema),
+    truncated: z.boolean(),
+  }),
+]);
+
+export type HistoryResponse = z.infer<typeof HistoryResponseSchema>;
+
+export const HistoryQuerySchema = z.object({
+  symbol: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  interval: z.string().optional(),
+  agg: z.enum(["ohlc", "avg"]).optional(),
+});
+
+export const StreamEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("price"), data: PricePayloadSchema }),
+  z.object({ type: z.literal("risk"), data: RiskPayloadSchema }),
+  z.object({ type: z.literal("premium"), data: PremiumPayloadSchema }),
+]);
+
+export type StreamEvent = z.infer<typeof StreamEventSchema>;
@@ -0,0 +1,113 @@
+import { z } from "zod";
+
+export const PositionKindSchema = z.enum(["spot", "perp"]);
+
+export type PositionKind = z.infer<typeof PositionKindSchema>;
+
+export const PositionSideSchema = z.enum(["long", "short"]);
+
+export type PositionSide = z.infer<typeof PositionSideSchema>;
+
+export const PositionSchema = z.object({
+  id: z.string(),
+  owner: z.string().nullable(),
+  symbol: z.string(),
+  kind: PositionKindSchema,
+  side: PositionSideSchema,
+  entryPrice: z.number(),
+  // Base-asset quantity, e.g. 0.5 BTC.
+  size: z.number(),
+  // Always 1 for spot; perps are modelled as isolated margin.
+  leverage: z.number(),
+  note: z.string().nullable(),
+  openedAt: z.number(),
+  // Sum of settled funding payments in USDT; negative means the position paid. An estimate from
+  // Binance's settled rates and marks, not the account's actual payments.
+  fundingPaid: z.number(),
+  fundingSettledAt: z.number(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export type Position = z.infer<typeof PositionSchema>;
+
+const positionFields = {
+  owner: z.string().nullable().optional(),
+  symbol: z.string(),
+  kind: PositionKindSchema,
+  side: PositionSideSchema,
+  entryPrice: z.number().finite().positive(),
+  size: z.number().finite().positive(),
+  leverage: z.number().min(1).max(125),
+  note: z.string().nullable().optional(),
+  openedAt: z.number().finite(),
+};
+
+type SpotCheck = { kind?: PositionKind; side?: PositionSide; leverage?: number };
+
+function checkSpot(input: SpotCheck, ctx: z.RefinementCtx) {
+  if (input.kind !== "spot") return;
+  if (input.side === "short") {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["side"],
+      message: "spot holdings are long only",
+    });
+  }
+  if (input.leverage !== undefined && input.leverage !== 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["leverage"],
+      message: "spot holdings use leverage 1",
+    });
+  }
+}
+
+export const PositionInputSchema = z
+  .object({
+    ...positionFields,
+    side: PositionSideSchema.default("long"),
+    leverage: positionFields.leverage.default(1),
+    openedAt: positionFields.openedAt.optional(),
+  })
+  .superRefine(checkSpot);
+
+export type PositionInput = z.input<typeof PositionInputSchema>;
+
+// PATCH bodies drop the create-time defaults so omitted fields keep their stored value.
+export const PositionPatchSchema = z.object(positionFields).partial();
+
+export type PositionPatch = z.infer<typeof PositionPatchSchema>;
+
+export const PositionViewSchema = PositionSchema.extend({
+  markPrice: z.number().nullable(),
+  notional: z.number().nullable(),
+  // Initial margin for perps, cost basis for spot.
+  margin: z.number(),
+  unrealizedPnl: z.number().nullable(),
+  // PnL over `margin`, i.e. ROE for perps.
+  unrealizedPnlPct: z.number().nullable(),
+  liquidationPrice: z.number().nullable(),
+  maintenanceMarginRate: z.number().nullable(),
+  fundingRate: z.number().nullable(),
+});
+
+export type PositionView = z.infer<typeof PositionViewSchema>;
+
+export const PortfolioTotalsSchema = z.object({
+  spotValue: z.number(),
+  perpNotional: z.number(),
+  margin: z.number(),
+  unrealizedPnl: z.number(),
+  fundingPaid: z.number(),
+});
+
+export type PortfolioTotals = z.infer<typeof PortfolioTotalsSchema>;
+
+export const PortfolioResponseSchema = z.object({
+  positions: z.array(PositionViewSchema),
+  totals: PortfolioTotalsSchema,
+  ts: z.number(),
+});
+
+export type PortfolioResponse = z.infer<typeof PortfolioResponseSchema>;
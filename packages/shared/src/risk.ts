@@ -0,0 +1,107 @@
+import { z } from "zod";
+import { RiskLevelSchema } from "./common";
+
+export const RuleMetricSchema = z.enum([
+  "fundingRate",
+  "openInterestChange",
+  "priceChange",
+  "kimchiPremium",
+  "coinbasePremium",
+]);
+
+export type RuleMetric = z.infer<typeof RuleMetricSchema>;
+
+export const RuleOpSchema = z.enum([">=", "<=", "abs>="]);
+
+export type RuleOp = z.infer<typeof RuleOpSchema>;
+
+const ruleFields = {
+  metric: RuleMetricSchema,
+  op: RuleOpSchema,
+  threshold: z.number().finite(),
+  weight: z.number().finite(),
+  reason: z.string(),
+  // Required for the *Change metrics: compare against the value this many minutes ago.
+  windowMinutes: z.number().positive().optional(),
+  enabled: z.boolean().optional(),
+};
+
+export const RiskRuleSchema = z
+  .object({ id: z.string().min(1), ...ruleFields })
+  .refine((rule) => !rule.metric.endsWith("Change") || rule.windowMinutes !== undefined, {
+    message: "windowMinutes is required for *Change metrics",
+    path: ["windowMinutes"],
+  });
+
+export type RiskRule = z.infer<typeof RiskRuleSchema>;
+
+export const RiskLevelsSchema = z.object({
+  WARN: z.number().finite(),
+  DANGER: z.number().finite(),
+});
+
+export type RiskLevels = z.infer<typeof RiskLevelsSchema>;
+
+export const RiskRuleConfigSchema = z.object({
+  levels: RiskLevelsSchema,
+  rules: z.array(RiskRuleSchema),
+  symbols: z
+    .record(
+      z.string(),
+      z.object({
+        levels: RiskLevelsSchema.partial().optional(),
+        overrides: z.record(z.string(), z.object(ruleFields).partial()).optional(),
+        rules: z.array(RiskRuleSchema).optional(),
+      }),
+    )
+    .optional(),
+});
+
+export type RiskRuleConfig = z.infer<typeof RiskRuleConfigSchema>;
+
+export const ResolvedRuleSetSchema = z.object({
+  levels: RiskLevelsSchema,
+  rules: z.array(RiskRuleSchema),
+});
+
+export type ResolvedRuleSet = z.infer<typeof ResolvedRuleSetSchema>;
+
+export const RuleResultSchema = z.object({
+  id: z.string(),
+  metric: RuleMetricSchema,
+  op: RuleOpSchema,
+  threshold: z.number(),
+  weight: z.number(),
+  reason: z.string(),
+  value: z.number().nullable(),
+  fired: z.boolean(),
+  skipped: z.enum(["disabled", "no_data"]).optional(),
+});
+
+export type RuleResult = z.infer<typeof RuleResultSchema>;
+
+export const RiskEvaluationSchema = z.object({
+  level: RiskLevelSchema,
+  reasons: z.array(z.string()),
+  score: z.number(),
+  rules: z.array(RuleResultSchema),
+});
+
+export type RiskEvaluation = z.infer<typeof RiskEvaluationSchema>;
+
+export const RiskExplainResponseSchema = z.object({
+  symbol: z.string(),
+  fundingRate: z.number(),
+  openInterest: z.number(),
+  ruleSet: ResolvedRuleSetSchema,
+  evaluation: RiskEvaluationSchema,
+  source: z.enum(["binance", "cache", "stale-cache"]),
+  ts: z.number(),
+});
+
+export const RiskRulesStatusSchema = z.object({
+  path: z.string(),
+  loadedAt: z.number(),
+  lastLoadError: z.string().nullable(),
+  config: RiskRuleConfigSchema,
+});
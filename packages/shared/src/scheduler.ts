@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+export const SchedulerJobIdSchema = z.enum(["price", "premium", "risk", "fx", "futures"]);
+
+export type SchedulerJobId = z.infer<typeof SchedulerJobIdSchema>;
+
+export const SchedulerJobStatusSchema = z.object({
+  id: SchedulerJobIdSchema,
+  intervalMs: z.number(),
+  running: z.boolean(),
+  runs: z.number(),
+  failures: z.number(),
+  lastRunAt: z.number().nullable(),
+  lastDurationMs: z.number().nullable(),
+  lastSuccessAt: z.number().nullable(),
+  lastError: z.string().nullable(),
+  nextRunAt: z.number().nullable(),
+});
+
+export type SchedulerJobStatus = z.infer<typeof SchedulerJobStatusSchema>;
+
+export const SchedulerStatusSchema = z.object({
+  enabled: z.boolean(),
+  jobs: z.array(SchedulerJobStatusSchema),
+  ts: z.number(),
+});
+
+export type SchedulerStatus = z.infer<typeof SchedulerStatusSchema>;
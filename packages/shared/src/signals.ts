@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+export const SignalTypeSchema = z.enum([
+  "oiUpPriceDown",
+  "fundingFlipNegative",
+  "fundingFlipPositive",
+  "coinbasePremiumPositive",
+  "kimchiPremiumZScore",
+]);
+
+export type SignalType = z.infer<typeof SignalTypeSchema>;
+
+export const SignalDirectionSchema = z.enum(["bullish", "bearish", "neutral"]);
+
+export type SignalDirection = z.infer<typeof SignalDirectionSchema>;
+
+export const SignalSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  type: SignalTypeSchema,
+  direction: SignalDirectionSchema,
+  message: z.string(),
+  // 0..1, how far past its trigger threshold the signal is.
+  confidence: z.number().min(0).max(1),
+  // The inputs the detector looked at, e.g. { oiChange, priceChange }.
+  values: z.record(z.string(), z.number()),
+  active: z.boolean(),
+  firstSeen: z.number(),
+  lastSeen: z.number(),
+});
+
+export type Signal = z.infer<typeof SignalSchema>;
+
+export const SignalsResponseSchema = z.object({
+  signals: z.array(SignalSchema),
+  ts: z.number(),
+});
+
+export type SignalsResponse = z.infer<typeof SignalsResponseSchema>;
@@ -0,0 +1,240 @@
+import { z } from "zod";
+import { numeric } from "./common";
+
+// Only the fields the API reads are declared; everything else passes through untouched.
+
+export const BinanceTicker24hSchema = z.object({
+  lastPrice: numeric,
+  volume: numeric,
+});
+
+const binanceLevel = z.tuple([numeric, numeric]);
+
+export const BinanceDepthSchema = z.object({
+  bids: z.array(binanceLevel).min(1),
+  asks: z.array(binanceLevel).min(1),
+});
+
+export const BinanceBookTickerSchema = z.object({
+  bidPrice: numeric,
+  bidQty: numeric,
+  askPrice: numeric,
+  askQty: numeric,
+});
+
+export const BinancePremiumIndexSchema = z.object({
+  lastFundingRate: numeric,
+  nextFundingTime: numeric.optional(),
+  markPrice: numeric.optional(),
+  indexPrice: numeric.optional(),
+});
+
+export const BinanceOpenInterestSchema = z.object({
+  openInterest: numeric,
+});
+
+const BinanceWsTickerDataSchema = z.object({
+  s: z.string(),
+  c: numeric,
+  E: z.number().optional(),
+});
+
+// Combined streams wrap each payload as `{ stream, data }`; raw streams send it bare.
+export const BinanceWsTickerSchema = z.union([
+  z.object({ stream: z.string(), data: BinanceWsTickerDataSchema }).transform((m) => m.data),
+  BinanceWsTickerDataSchema,
+]);
+
+export const UpbitTickerSchema = z
+  .array(
+    z.object({
+      trade_price: numeric,
+      acc_trade_volume_24h: numeric,
+    }),
+  )
+  .min(1);
+
+export const UpbitOrderbookSchema = z
+  .array(
+    z.object({
+      orderbook_units: z
+        .array(
+          z.object({
+            ask_price: numeric,
+            bid_price: numeric,
+            ask_size: numeric,
+            bid_size: numeric,
+          }),
+        )
+        .min(1),
+    }),
+  )
+  .min(1);
+
+export const CoinbaseTickerSchema = z.object({
+  price: numeric,
+  volume: numeric,
+});
+
+const coinbaseLevel = z.tuple([numeric, numeric]).rest(z.unknown());
+
+export const CoinbaseBookSchema = z.object({
+  bids: z.array(coinbaseLevel).min(1),
+  asks: z.array(coinbaseLevel).min(1),
+});
+
+// Every positive quote keyed by upper-case ISO code; providers differ in casing and coverage.
+export const FxRateTableSchema = z
+  .object({ rates: z.record(z.string(), z.unknown()) })
+  .transform((json) => {
+    const table: Record<string, number> = {};
+    for (const [code, raw] of Object.entries(json.rates)) {
+      const value = numeric.safeParse(raw);
+      if (value.success && value.data > 0) table[code.toUpperCase()] = value.data;
+    }
+    return table;
+  })
+  .refine((table) => "KRW" in table, { message: "KRW rate missing", path: ["rates", "KRW"] });
+
+function bybitEnvelope<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    retCode: z.literal(0),
+    retMsg: z.string().optional(),
+    result: z.object({ list: z.array(item).min(1) }),
+  });
+}
+
+export const BybitSpotTickerSchema = bybitEnvelope(
+  z.object({
+    lastPrice: numeric,
+    volume24h: numeric,
+    bid1Price: numeric,
+    bid1Size: numeric,
+    ask1Price: numeric,
+    ask1Size: numeric,
+  }),
+);
+
+export const BybitLinearTickerSchema = bybitEnvelope(
+  z.object({
+    fundingRate: numeric,
+    nextFundingTime: numeric.optional(),
+    markPrice: numeric.optional(),
+    indexPrice: numeric.optional(),
+    openInterest: numeric,
+  }),
+);
+
+function okxEnvelope<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    code: z.literal("0"),
+    msg: z.string().optional(),
+    data: z.array(item).min(1),
+  });
+}
+
+export const OkxTickerSchema = okxEnvelope(
+  z.object({
+    last: numeric,
+    vol24h: numeric,
+    bidPx: numeric,
+    bidSz: numeric,
+    askPx: numeric,
+    askSz: numeric,
+  }),
+);
+
+export const OkxFundingRateSchema = okxEnvelope(
+  z.object({
+    fundingRate: numeric,
+    fundingTime: numeric.optional(),
+  }),
+);
+
+export const OkxOpenInterestSchema = okxEnvelope(
+  z.object({
+    oiCcy: numeric,
+  }),
+);
+
+const BinanceForceOrderDataSchema = z.object({
+  E: z.number().optional(),
+  o: z.object({
+    s: z.string(),
+    // The liquidation order's side: SELL closes a long, BUY closes a short.
+    S: z.enum(["BUY", "SELL"]),
+    ap: numeric,
+    z: numeric,
+    T: z.number(),
+  }),
+});
+
+export const BinanceForceOrderSchema = z.union([
+  z.object({ stream: z.string(), data: BinanceForceOrderDataSchema }).transform((m) => m.data),
+  BinanceForceOrderDataSchema,
+]);
+
+export const BinanceFundingHistorySchema = z.array(
+  z.object({
+    fundingTime: numeric,
+    fundingRate: numeric,
+    // Empty on some older rows.
+    markPrice: z.union([numeric, z.literal("")]).optional(),
+  }),
+);
+
+// Kline rows are positional: [openTime, open, high, low, close, volume, closeTime, ...].
+export const BinanceKlinesSchema = z.array(
+  z.tuple([numeric, numeric, numeric, numeric, numeric]).rest(z.unknown()),
+);
+
+export const BinanceOpenInterestHistSchema = z.array(
+  z.object({
+    sumOpenInterest: numeric,
+    timestamp: numeric,
+  }),
+);
+
+export const BinancePremiumIndexListSchema = z.array(
+  z.object({
+    symbol: z.string(),
+    markPrice: numeric,
+    indexPrice: numeric,
+  }),
+);
+
+export const BinanceLongShortRatioSchema = z
+  .array(
+    z.object({
+      longShortRatio: numeric,
+      longAccount: numeric,
+      shortAccount: numeric,
+      timestamp: numeric,
+    }),
+  )
+  .min(1);
+
+export const BybitFundingHistorySchema = bybitEnvelope(
+  z.object({
+    fundingRate: numeric,
+    fundingRateTimestamp: numeric,
+  }),
+);
+
+export const BybitAccountRatioSchema = bybitEnvelope(
+  z.object({
+    buyRatio: numeric,
+    sellRatio: numeric,
+    timestamp: numeric,
+  }),
+);
+
+export const OkxFundingHistorySchema = okxEnvelope(
+  z.object({
+    fundingRate: numeric,
+    fundingTime: numeric,
+  }),
+);
+
+// Rubik stats come back as `[ts, ratio]` string tuples.
+export const OkxLongShortRatioSchema = okxEnvelope(z.tuple([numeric, numeric]));